@@ -0,0 +1,13 @@
+import { AppStoreProvider } from '@/store';
+import { DisplayBoard } from '@/components/display/display-board';
+
+/**
+ * Customer display: read-only view of the stations for a second screen
+ */
+export default function Display() {
+  return (
+    <AppStoreProvider readOnly>
+      <DisplayBoard />
+    </AppStoreProvider>
+  );
+}
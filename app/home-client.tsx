@@ -1,8 +1,9 @@
 "use client"
 
-import { useCallback } from 'react';
+import { useCallback, useEffect } from 'react';
 import { Header } from '@/components/layout/header';
 import { SectionItem } from '@/components/sections/section-item';
+import { BulkActionBar } from '@/components/cards/bulk-action-bar';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Plus } from 'lucide-react';
@@ -11,12 +12,31 @@ import { useI18n } from '@/hooks/use-i18n';
 import { useAppStore } from '@/store';
 import { toast } from 'sonner';
 import { parseEditButtonTooltip } from '@/lib/utils/text-parser';
+import { onDesktopNotificationClick } from '@/lib/utils/notifications';
 
 export function HomeClient() {
   const { editMode, toggleEditMode } = useEditMode();
-  const { sections, addSection, deleteSection, updateSectionName, getCardsBySection, addCard } = useAppStore();
+  const { sections, addSection, deleteSection, updateSectionName, updateSectionTariff, updateSectionAlertSettings, getCardsBySection, addCard, storageError, undo, redo, clearSelection, highlightCard } = useAppStore();
   const { t } = useI18n();
 
+  // Clicking a desktop notification highlights its station
+  useEffect(() => onDesktopNotificationClick(highlightCard), [highlightCard]);
+
+  /**
+   * Tells the user when saved data could not be loaded
+   * The data stays in storage and changes are not saved until it is fixed
+   */
+  useEffect(() => {
+    if (!storageError) return;
+
+    toast.error(t('storage.loadFailed'), {
+      description: storageError.backupKey
+        ? t('storage.loadFailedWithBackup', { reason: storageError.reason, key: storageError.backupKey })
+        : t('storage.loadFailedDescription', { reason: storageError.reason }),
+      duration: Infinity,
+    });
+  }, [storageError, t]);
+
   /**
    * Wrapper for toggleEditMode that:
    * - Validates section and card names before exiting edit mode
@@ -88,14 +108,30 @@ export function HomeClient() {
       if (sections.length === 0) {
         addSection();
       }
+      // Group actions are not available while editing
+      clearSelection();
     }
     
     toggleEditMode();
-  }, [editMode, sections, getCardsBySection, addSection, deleteSection, toggleEditMode, t, addCard]);
+  }, [editMode, sections, getCardsBySection, addSection, deleteSection, toggleEditMode, t, addCard, clearSelection]);
+
+  const handleUndo = useCallback(() => {
+    if (undo()) {
+      toast.info(t('undo.undone'));
+    }
+  }, [undo, t]);
+
+  const handleRedo = useCallback(() => {
+    if (redo()) {
+      toast.info(t('undo.redone'));
+    }
+  }, [redo, t]);
 
   // Register global keyboard shortcuts
   useGlobalShortcuts({
     onToggleEditMode: handleToggleEditMode,
+    onUndo: handleUndo,
+    onRedo: handleRedo,
   });
 
   return (
@@ -122,7 +158,11 @@ export function HomeClient() {
               sectionName={section.name}
               totalSections={sections.length}
               hasCards={cards.length > 0}
+              tariff={section.tariff}
+              alertSettings={section.alertSettings}
               onSectionNameChange={(name) => updateSectionName(section.id, name)}
+              onSectionTariffChange={(tariff) => updateSectionTariff(section.id, tariff)}
+              onSectionAlertSettingsChange={(settings) => updateSectionAlertSettings(section.id, settings)}
               onDeleteSection={() => deleteSection(section.id)}
             />
           );
@@ -137,6 +177,8 @@ export function HomeClient() {
           </Button>
         </>
       )}
+
+      {!editMode && <BulkActionBar />}
     </main>
   );
 }
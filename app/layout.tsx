@@ -3,7 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/providers/theme-provider";
 import { Toaster } from "@/components/ui/sonner";
-import { AppStoreProvider } from "@/store";
+import { SettingsProvider } from "@/store";
 import { HtmlLang } from "@/components/layout/html-lang";
 import { ThemeColor } from "@/components/layout/theme-color";
 
@@ -59,19 +59,19 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased m-4`}
       >
-        <HtmlLang />
-        <ThemeProvider
-          attribute="class"
-          defaultTheme="system"
-          enableSystem
-          disableTransitionOnChange
-        >
-          <ThemeColor />
-          <AppStoreProvider>
+        <SettingsProvider>
+          <HtmlLang />
+          <ThemeProvider
+            attribute="class"
+            defaultTheme="system"
+            enableSystem
+            disableTransitionOnChange
+          >
+            <ThemeColor />
             {children}
             <Toaster />
-          </AppStoreProvider>
-        </ThemeProvider>
+          </ThemeProvider>
+        </SettingsProvider>
       </body>
     </html>
   );
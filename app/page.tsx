@@ -1,5 +1,10 @@
+import { AppStoreProvider } from '@/store';
 import { HomeClient } from './home-client';
 
 export default function Home() {
-  return <HomeClient />;
+  return (
+    <AppStoreProvider>
+      <HomeClient />
+    </AppStoreProvider>
+  );
 }
@@ -0,0 +1,219 @@
+/**
+ * Dialog to configure timer color thresholds and pre-expiry alerts
+ * Used for the global settings and per-section overrides
+ */
+
+"use client";
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BellRing, Volume2 } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { getPreExpiryTone, normalizeAlertSettings } from '@/features/alerts';
+import { playAlertTone } from '@/lib/utils/sound';
+import type { AlertSettings } from '@/types';
+
+interface AlertSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  settings: AlertSettings;
+  // Shown only for overrides: brings back the inherited settings
+  removeLabel?: string;
+  onSave: (settings: AlertSettings) => void;
+  onRemove?: () => void;
+}
+
+const PRE_EXPIRY_CHOICES = [1, 2, 5, 10, 15, 30] as const;
+
+// Color of each threshold, matching the progress bar variants
+const THRESHOLDS = [
+  { key: 'warningMinutes', color: 'bg-yellow-500' },
+  { key: 'orangeMinutes', color: 'bg-orange-500' },
+  { key: 'criticalMinutes', color: 'bg-destructive' },
+] as const;
+
+/**
+ * Helper to convert string to whole minutes (default 0 if empty/invalid)
+ */
+const parseMinutes = (value: string): number => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+/**
+ * Alert settings dialog
+ * The form is mounted only while the dialog is open, so it always starts from the current settings
+ */
+export function AlertSettingsDialog({ open, onOpenChange, ...formProps }: AlertSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <AlertSettingsForm {...formProps} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AlertSettingsForm({
+  title,
+  description,
+  settings,
+  removeLabel,
+  onSave,
+  onRemove,
+  onClose,
+}: Omit<AlertSettingsDialogProps, 'open' | 'onOpenChange'> & { onClose: () => void }) {
+  const { t } = useI18n();
+  const [thresholds, setThresholds] = useState({
+    warningMinutes: String(settings.warningMinutes),
+    orangeMinutes: String(settings.orangeMinutes),
+    criticalMinutes: String(settings.criticalMinutes),
+  });
+  const [progressWindowMinutes, setProgressWindowMinutes] = useState(String(settings.progressWindowMinutes));
+  const [preExpiryMinutes, setPreExpiryMinutes] = useState<number[]>(settings.preExpiryMinutes);
+
+  const draft = normalizeAlertSettings({
+    warningMinutes: parseMinutes(thresholds.warningMinutes),
+    orangeMinutes: parseMinutes(thresholds.orangeMinutes),
+    criticalMinutes: parseMinutes(thresholds.criticalMinutes),
+    progressWindowMinutes: parseMinutes(progressWindowMinutes),
+    preExpiryMinutes,
+  });
+
+  const togglePreExpiry = (minutes: number) => {
+    setPreExpiryMinutes((prev) =>
+      prev.includes(minutes) ? prev.filter((m) => m !== minutes) : [...prev, minutes]
+    );
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  const handleRemove = () => {
+    onRemove?.();
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          {title}
+        </DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-2">
+        {/* Progress bar colors */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('alerts.labels.thresholds')}</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {THRESHOLDS.map(({ key, color }) => (
+              <div key={key} className="grid gap-1">
+                <Label htmlFor={`alert-${key}`} className="text-xs text-muted-foreground flex items-center gap-1">
+                  <span className={`h-2 w-2 rounded-full ${color}`} />
+                  {t(`alerts.thresholds.${key}`)}
+                </Label>
+                <Input
+                  id={`alert-${key}`}
+                  type="number"
+                  min="0"
+                  value={thresholds[key]}
+                  onChange={(e) => setThresholds((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('alerts.thresholdsSummary', {
+              warning: draft.warningMinutes,
+              orange: draft.orangeMinutes,
+              critical: draft.criticalMinutes,
+            })}
+          </p>
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="alert-progress-window" className="text-sm font-medium">
+            {t('alerts.labels.progressWindow')}
+          </Label>
+          <Input
+            id="alert-progress-window"
+            type="number"
+            min="1"
+            value={progressWindowMinutes}
+            onChange={(e) => setProgressWindowMinutes(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('alerts.progressWindowHint', { minutes: draft.progressWindowMinutes })}
+          </p>
+        </div>
+
+        {/* Pre-expiry alerts */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('alerts.labels.preExpiry')}</Label>
+          <div className="grid grid-cols-6 gap-2">
+            {PRE_EXPIRY_CHOICES.map((minutes) => (
+              <Button
+                key={minutes}
+                type="button"
+                variant={preExpiryMinutes.includes(minutes) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => togglePreExpiry(minutes)}
+                className="text-xs"
+              >
+                {minutes}&apos;
+              </Button>
+            ))}
+          </div>
+          {draft.preExpiryMinutes.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('alerts.noPreExpiry')}</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {draft.preExpiryMinutes.map((minutes) => (
+                <Button
+                  key={minutes}
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => playAlertTone(getPreExpiryTone(minutes, draft))}
+                >
+                  <Volume2 className="h-3 w-3" />
+                  {t('alerts.testTone', { minutes })}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        {onRemove && removeLabel && (
+          <Button variant="ghost" onClick={handleRemove} className="sm:mr-auto">
+            {removeLabel}
+          </Button>
+        )}
+        <Button variant="outline" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Button onClick={handleSave}>{t('common.confirm')}</Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Dialog to configure a tariff
+ * Used for section tariffs and per-station overrides
+ */
+
+"use client";
+
+import { useState, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Euro } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { calculateAmount, formatAmount, DEFAULT_TARIFF } from '@/features/billing';
+import type { Tariff, TariffRoundingMode } from '@/types';
+
+interface TariffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  tariff?: Tariff;
+  removeLabel: string;
+  onSave: (tariff: Tariff) => void;
+  onRemove: () => void;
+}
+
+const ROUNDING_MINUTES_CHOICES = [1, 5, 10, 15, 30, 60] as const;
+const ROUNDING_MODES: TariffRoundingMode[] = ['up', 'nearest', 'down'];
+
+// Sample durations shown in the preview
+const PREVIEW_MINUTES = [10, 50, 70] as const;
+
+/**
+ * Helper to convert string to a non-negative amount (default 0 if empty/invalid)
+ */
+const parseAmount = (value: string): number => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+/**
+ * Tariff dialog
+ * The form is mounted only while the dialog is open, so it always starts from the current tariff
+ */
+export function TariffDialog({ open, onOpenChange, ...formProps }: TariffDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <TariffForm {...formProps} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TariffForm({
+  title,
+  description,
+  tariff,
+  removeLabel,
+  onSave,
+  onRemove,
+  onClose,
+}: Omit<TariffDialogProps, 'open' | 'onOpenChange'> & { onClose: () => void }) {
+  const { t, locale } = useI18n();
+  const initial = tariff ?? DEFAULT_TARIFF;
+  const [hourlyRate, setHourlyRate] = useState(initial.hourlyRate ? String(initial.hourlyRate) : '');
+  const [minimumCharge, setMinimumCharge] = useState(initial.minimumCharge ? String(initial.minimumCharge) : '');
+  const [roundingMinutes, setRoundingMinutes] = useState(initial.roundingMinutes);
+  const [roundingMode, setRoundingMode] = useState<TariffRoundingMode>(initial.roundingMode);
+
+  const draft: Tariff = useMemo(
+    () => ({
+      hourlyRate: parseAmount(hourlyRate),
+      minimumCharge: parseAmount(minimumCharge),
+      roundingMinutes,
+      roundingMode,
+    }),
+    [hourlyRate, minimumCharge, roundingMinutes, roundingMode]
+  );
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  const handleRemove = () => {
+    onRemove();
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Euro className="h-5 w-5" />
+          {title}
+        </DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="tariff-hourly-rate" className="text-sm font-medium">
+              {t('tariff.labels.hourlyRate')}
+            </Label>
+            <Input
+              id="tariff-hourly-rate"
+              type="number"
+              min="0"
+              step="0.5"
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+              placeholder="0"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="tariff-minimum-charge" className="text-sm font-medium">
+              {t('tariff.labels.minimumCharge')}
+            </Label>
+            <Input
+              id="tariff-minimum-charge"
+              type="number"
+              min="0"
+              step="0.5"
+              value={minimumCharge}
+              onChange={(e) => setMinimumCharge(e.target.value)}
+              placeholder="0"
+            />
+          </div>
+        </div>
+
+        {/* Billing increment */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('tariff.labels.roundingMinutes')}</Label>
+          <div className="grid grid-cols-6 gap-2">
+            {ROUNDING_MINUTES_CHOICES.map((minutes) => (
+              <Button
+                key={minutes}
+                type="button"
+                variant={roundingMinutes === minutes ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRoundingMinutes(minutes)}
+                className="text-xs"
+              >
+                {minutes}&apos;
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Rounding mode */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('tariff.labels.roundingMode')}</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {ROUNDING_MODES.map((mode) => (
+              <Button
+                key={mode}
+                type="button"
+                variant={roundingMode === mode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRoundingMode(mode)}
+                disabled={roundingMinutes <= 1}
+                className="text-xs"
+              >
+                {t(`tariff.roundingModes.${mode}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="bg-muted/50 rounded-lg p-3 border grid gap-1">
+          <span className="text-xs text-muted-foreground">{t('tariff.preview')}</span>
+          {PREVIEW_MINUTES.map((minutes) => (
+            <div key={minutes} className="flex items-center justify-between text-sm">
+              <span>{minutes} {t('common.min')}</span>
+              <span className="font-semibold">{formatAmount(calculateAmount(draft, minutes), locale)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        {tariff && (
+          <Button variant="ghost" onClick={handleRemove} className="sm:mr-auto">
+            {removeLabel}
+          </Button>
+        )}
+        <Button variant="outline" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Button onClick={handleSave}>{t('common.confirm')}</Button>
+      </DialogFooter>
+    </>
+  );
+}
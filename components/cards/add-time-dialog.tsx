@@ -12,10 +12,23 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Plus, Minus, Calendar as CalendarIcon, Clock } from 'lucide-react';
-import { normalizeTime, toTotalMinutes, TIMEZONE } from '@/lib/utils/time';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus, Minus, Calendar as CalendarIcon, Clock, User, ChevronDown, InfinityIcon } from 'lucide-react';
+import { normalizeTime, toTotalMinutes } from '@/lib/utils/time';
 import { toast } from 'sonner';
 import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/store/settings-store';
+import { usePresets } from '@/hooks/use-presets';
+import { formatBalance } from '@/features/customers';
+import { resolvePresetEnd, resolvePresetStart } from '@/features/presets';
+import type { TimeEntry } from '@/features/timers';
+import { QuickTimeEntry } from '@/components/cards/quick-time-entry';
+import type { Customer, TimerPreset } from '@/types';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
@@ -26,28 +39,18 @@ dayjs.extend(timezone);
 interface AddTimeDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onConfirm: (hours: number, minutes: number) => void;
-  onConfirmWithDates?: (startTime: string, endTime: string) => void; // ISO timestamps
+  onConfirm: (hours: number, minutes: number, customerId?: number) => void;
+  onConfirmWithDates?: (startTime: string, endTime: string, customerId?: number) => void; // ISO timestamps
   isTimerActive?: boolean; // If false, disables negative values (timer not yet started)
   onStartTimer?: (durationMinutes: number) => void; // Callback to start timer when not active
+  onStartOpenSession?: (customerId?: number) => void; // Starts an open session (no end, billed at checkout)
   currentStartTime?: string | null; // ISO timestamp - to initialize fields when editing an existing timer
   currentEndTime?: string | null; // ISO timestamp - to initialize fields when editing an existing timer
+  customers?: Customer[]; // Customers the timer can be linked to when starting
+  initialCustomerId?: number; // Customer preselected when the dialog opens
+  getCustomerAvailableMinutes?: (customerId: number) => number;
 }
 
-// Quick values structure (labels will be translated in component)
-const QUICK_VALUES_STRUCTURE = [
-  { key: 'plus15min', field: 'minutes' as const, value: 15 },
-  { key: 'plus30min', field: 'minutes' as const, value: 30 },
-  { key: 'plus1hour', field: 'hours' as const, value: 1 },
-  { key: 'plus2hours', field: 'hours' as const, value: 2 },
-  { key: 'minus15min', field: 'minutes' as const, value: -15 },
-  { key: 'minus30min', field: 'minutes' as const, value: -30 },
-  { key: 'minus1hour', field: 'hours' as const, value: -1 },
-  { key: 'minus2hours', field: 'hours' as const, value: -2 },
-] as const;
-
-type TimeField = 'hours' | 'minutes';
-
 /**
  * Helper to convert string to number (default 0 if empty/invalid)
  */
@@ -144,10 +147,16 @@ export function AddTimeDialog({
   onConfirmWithDates,
   isTimerActive = false,
   onStartTimer,
+  onStartOpenSession,
   currentStartTime,
   currentEndTime,
+  customers = [],
+  initialCustomerId,
+  getCustomerAvailableMinutes,
 }: AddTimeDialogProps) {
-  const { t } = useI18n();
+  const { t, formatDuration } = useI18n();
+  const { settings, timezone } = useSettings();
+  const { presets } = usePresets();
   const [hours, setHours] = useState('');
   const [minutes, setMinutes] = useState('');
   const [mode, setMode] = useState<'duration' | 'dates'>('duration');
@@ -155,6 +164,13 @@ export function AddTimeDialog({
   const [startTime, setStartTime] = useState('');
   const [endDate, setEndDate] = useState('');
   const [endTime, setEndTime] = useState('');
+  const [customerId, setCustomerId] = useState<number | undefined>(undefined);
+  // Times of the clock preset last chosen, shown in dates mode
+  const [presetRange, setPresetRange] = useState<{ startTime: string; endTime: string } | null>(null);
+
+  // The customer picker is only offered when starting a new timer
+  const canLinkCustomer = !isTimerActive && customers.length > 0;
+  const selectedCustomer = customers.find((c) => c.id === customerId);
 
   // Calculate total in minutes for validation
   const totalMinutes = useMemo(() => {
@@ -163,14 +179,6 @@ export function AddTimeDialog({
     return toTotalMinutes(h, m);
   }, [hours, minutes]);
 
-  // Quick values with translated labels
-  const quickValues = useMemo(() => {
-    return QUICK_VALUES_STRUCTURE.map((item) => ({
-      ...item,
-      label: t(`addTimeDialog.quickValues.${item.key}`),
-    }));
-  }, [t]);
-
   /**
    * Resets both fields
    */
@@ -189,17 +197,42 @@ export function AddTimeDialog({
   }, []);
 
   /**
-   * Quick value handler: replaces the value in the specified field and resets the other
-   * Each click on a quick toggle completely replaces the previous value
+   * Quick value handler: replaces both fields with the given minutes
+   * Each click on a quick choice completely replaces the previous value
    */
-  const handleQuickValue = useCallback((field: TimeField, value: number) => {
+  const handleQuickValue = useCallback((value: number) => {
     resetFields();
-    if (field === 'hours') {
-      setHours(String(value));
-    } else {
-      setMinutes(String(value));
+    setNormalizedTime(0, value);
+  }, [resetFields, setNormalizedTime]);
+
+  /**
+   * Preset handler: a duration fills the fields, a clock or closing preset
+   * switches to dates mode with the times it resolves to
+   */
+  const handlePreset = useCallback((preset: TimerPreset) => {
+    if (preset.kind === 'duration') {
+      handleQuickValue(preset.minutes);
+      return;
     }
-  }, [resetFields]);
+
+    const range = isTimerActive && currentStartTime
+      ? {
+          startTime: currentStartTime,
+          endTime: resolvePresetEnd(preset, currentStartTime, timezone, settings.closingTime) ?? '',
+        }
+      : resolvePresetStart(preset, timezone, settings.closingTime);
+    setPresetRange(range);
+    setMode('dates');
+  }, [handleQuickValue, isTimerActive, currentStartTime, timezone, settings.closingTime]);
+
+  /**
+   * Starts an open session instead of a timed one
+   */
+  const handleStartOpenSession = useCallback(() => {
+    onStartOpenSession?.(canLinkCustomer ? customerId : undefined);
+    resetFields();
+    onOpenChange(false);
+  }, [onStartOpenSession, canLinkCustomer, customerId, resetFields, onOpenChange]);
 
   /**
    * Increments/decrements hours (simple, without carry-over)
@@ -220,6 +253,7 @@ export function AddTimeDialog({
 
   /**
    * Resets all fields when the dialog closes
+   * Preselects the requested customer when it opens
    */
   useEffect(() => {
     if (!open) {
@@ -229,32 +263,93 @@ export function AddTimeDialog({
       setStartTime('');
       setEndDate('');
       setEndTime('');
+      setCustomerId(undefined);
+      setPresetRange(null);
+    } else {
+      setCustomerId(initialCustomerId);
+    }
+  }, [open, initialCustomerId, resetFields]);
+
+  /**
+   * Checks that the selected customer's balance covers the requested minutes
+   * Shows a warning and returns false if it doesn't
+   */
+  const hasEnoughBalance = useCallback((requestedMinutes: number): boolean => {
+    if (!canLinkCustomer || customerId === undefined || !getCustomerAvailableMinutes) {
+      return true;
+    }
+
+    const available = getCustomerAvailableMinutes(customerId);
+    if (available >= requestedMinutes) {
+      return true;
+    }
+
+    toast.warning(t('addTimeDialog.errors.insufficientBalance'), {
+      description: t('addTimeDialog.errors.insufficientBalanceDescription', {
+        name: selectedCustomer?.name ?? '',
+        available: formatBalance(available),
+        requested: formatBalance(requestedMinutes),
+      }),
+    });
+    return false;
+  }, [canLinkCustomer, customerId, selectedCustomer, getCustomerAvailableMinutes, t]);
+
+  /**
+   * Applies the quick entry field
+   * Durations go through the same confirm as the fields, clock ends through the dates
+   */
+  const handleQuickEntry = useCallback((entry: TimeEntry, range: { startTime: string; endTime: string }) => {
+    const requestedMinutes = entry.kind === 'duration'
+      ? entry.minutes
+      : dayjs(range.endTime).diff(range.startTime, 'minute');
+    if (!hasEnoughBalance(requestedMinutes)) {
+      return;
     }
-  }, [open, resetFields]);
+
+    if (entry.kind === 'duration') {
+      const normalized = normalizeTime(0, entry.minutes);
+      onConfirm(normalized.hours, normalized.minutes, canLinkCustomer ? customerId : undefined);
+    } else if (onConfirmWithDates) {
+      onConfirmWithDates(range.startTime, range.endTime, canLinkCustomer ? customerId : undefined);
+    } else {
+      return;
+    }
+    resetFields();
+    onOpenChange(false);
+  }, [hasEnoughBalance, onConfirm, onConfirmWithDates, canLinkCustomer, customerId, resetFields, onOpenChange]);
 
   /**
    * Initializes date/time fields with current values or existing timer values when switching to dates mode
    */
   useEffect(() => {
     if (mode === 'dates' && open) {
-      if (isTimerActive && currentStartTime && currentEndTime) {
+      if (presetRange) {
+        // Use the times of the chosen preset
+        const start = dayjs(presetRange.startTime).tz(timezone);
+        const end = dayjs(presetRange.endTime).tz(timezone);
+        setStartDate(start.format('YYYY-MM-DD'));
+        setStartTime(start.format('HH:mm'));
+        setEndDate(end.format('YYYY-MM-DD'));
+        setEndTime(end.format('HH:mm'));
+      } else if (isTimerActive && currentStartTime && currentEndTime) {
         // Use existing timer values
-        const start = dayjs(currentStartTime).tz(TIMEZONE);
-        const end = dayjs(currentEndTime).tz(TIMEZONE);
+        const start = dayjs(currentStartTime).tz(timezone);
+        const end = dayjs(currentEndTime).tz(timezone);
         setStartDate(start.format('YYYY-MM-DD'));
         setStartTime(start.format('HH:mm'));
         setEndDate(end.format('YYYY-MM-DD'));
         setEndTime(end.format('HH:mm'));
       } else {
-        // Use current values
-        const now = dayjs().tz(TIMEZONE);
+        // Use current values; the hour is added to the instant, then shown on the wall clock
+        const now = dayjs().tz(timezone);
+        const inOneHour = dayjs().add(1, 'hour').tz(timezone);
         setStartDate(now.format('YYYY-MM-DD'));
         setStartTime(now.format('HH:mm'));
-        setEndDate(now.format('YYYY-MM-DD'));
-        setEndTime(now.add(1, 'hour').format('HH:mm'));
+        setEndDate(inOneHour.format('YYYY-MM-DD'));
+        setEndTime(inOneHour.format('HH:mm'));
       }
     }
-  }, [mode, open, isTimerActive, currentStartTime, currentEndTime]);
+  }, [mode, open, presetRange, isTimerActive, currentStartTime, currentEndTime, timezone]);
 
   const handleConfirm = useCallback(() => {
     if (mode === 'duration') {
@@ -269,7 +364,10 @@ export function AddTimeDialog({
       }
 
       if (totalMinutes !== 0) {
-        onConfirm(h, m);
+        if (!hasEnoughBalance(totalMinutes)) {
+          return;
+        }
+        onConfirm(h, m, canLinkCustomer ? customerId : undefined);
         resetFields();
         onOpenChange(false);
       }
@@ -281,8 +379,8 @@ export function AddTimeDialog({
 
       try {
         // Create timestamps with correct format
-        const start = dayjs.tz(`${startDate}T${startTime}`, 'YYYY-MM-DDTHH:mm', TIMEZONE);
-        const end = dayjs.tz(`${endDate}T${endTime}`, 'YYYY-MM-DDTHH:mm', TIMEZONE);
+        const start = dayjs.tz(`${startDate}T${startTime}`, 'YYYY-MM-DDTHH:mm', timezone);
+        const end = dayjs.tz(`${endDate}T${endTime}`, 'YYYY-MM-DDTHH:mm', timezone);
 
         // Verify that dates are valid
         if (!start.isValid() || !end.isValid()) {
@@ -299,7 +397,11 @@ export function AddTimeDialog({
           return;
         }
 
-        onConfirmWithDates(start.toISOString(), end.toISOString());
+        if (!hasEnoughBalance(end.diff(start, 'minute'))) {
+          return;
+        }
+
+        onConfirmWithDates(start.toISOString(), end.toISOString(), canLinkCustomer ? customerId : undefined);
         toast.success(isTimerActive ? t('addTimeDialog.success.timerUpdated') : t('addTimeDialog.success.timerStarted'), {
           description: t('addTimeDialog.success.timerRange', {
             start: start.format('DD/MM/YYYY HH:mm'),
@@ -314,7 +416,7 @@ export function AddTimeDialog({
         });
       }
     }
-  }, [mode, hours, minutes, totalMinutes, isTimerActive, startDate, startTime, endDate, endTime, onConfirm, onConfirmWithDates, resetFields, onOpenChange, t]);
+  }, [mode, hours, minutes, totalMinutes, isTimerActive, startDate, startTime, endDate, endTime, canLinkCustomer, customerId, hasEnoughBalance, onConfirm, onConfirmWithDates, resetFields, onOpenChange, t, timezone]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -327,13 +429,53 @@ export function AddTimeDialog({
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
+          {/* Customer whose prepaid balance pays for the session */}
+          {canLinkCustomer && (
+            <div className="grid gap-2">
+              <Label className="text-sm font-medium">{t('addTimeDialog.labels.customer')}</Label>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button type="button" variant="outline" className="justify-between">
+                    <span className="flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      {selectedCustomer ? selectedCustomer.name : t('addTimeDialog.labels.noCustomer')}
+                    </span>
+                    <ChevronDown className="h-4 w-4 opacity-50" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-[var(--radix-dropdown-menu-trigger-width)]">
+                  <DropdownMenuItem onClick={() => setCustomerId(undefined)}>
+                    {t('addTimeDialog.labels.noCustomer')}
+                  </DropdownMenuItem>
+                  {customers.map((customer) => (
+                    <DropdownMenuItem key={customer.id} onClick={() => setCustomerId(customer.id)}>
+                      <span className="flex-1">{customer.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatBalance(getCustomerAvailableMinutes?.(customer.id) ?? customer.balanceMinutes)}
+                      </span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          )}
+
+          {/* Durations and end times typed in one field, e.g. "1h30" or "until 23:30" */}
+          <QuickTimeEntry
+            session={isTimerActive ? { startTime: currentStartTime ?? null, endTime: currentEndTime ?? null } : null}
+            onSubmit={handleQuickEntry}
+          />
+
           {/* Toggle between duration and date modes */}
           <div className="flex gap-2 border-b">
             <Button
               type="button"
               variant={mode === 'duration' ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setMode('duration')}
+              onClick={() => {
+                setMode('duration');
+                setPresetRange(null);
+              }}
               className="flex-1"
             >
               <Clock className="h-4 w-4 mr-2" />
@@ -357,19 +499,39 @@ export function AddTimeDialog({
               <div className="grid gap-2">
                 <Label className="text-sm font-medium">{t('addTimeDialog.quickChoices')}</Label>
                 <div className="grid grid-cols-4 gap-2">
-              {quickValues.map((value, index) => (
+              {presets.map(({ preset, label, detail }) => (
                   <Button
-                    key={index}
+                    key={preset.id}
                     type="button"
                     variant="outline"
                     size="sm"
-                    onClick={() => handleQuickValue(value.field, value.value)}
+                    onClick={() => handlePreset(preset)}
                     className="text-xs"
+                    title={detail}
                   >
-                    {value.label}
+                    <span className="truncate">{label}</span>
+                  </Button>
+              ))}
+              {/* Time can only be removed from a running timer */}
+              {isTimerActive && settings.removeDurations.map((value) => (
+                  <Button
+                    key={`remove-${value}`}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleQuickValue(-value)}
+                    className="text-xs"
+                  >
+                    -{formatDuration(value)}
                   </Button>
               ))}
                 </div>
+                {!isTimerActive && onStartOpenSession && (
+                  <Button type="button" variant="outline" size="sm" onClick={handleStartOpenSession}>
+                    <InfinityIcon className="h-4 w-4" />
+                    {t('addTimeDialog.openSession')}
+                  </Button>
+                )}
               </div>
 
               {/* Manual input with +/- controls */}
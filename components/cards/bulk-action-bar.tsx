@@ -0,0 +1,189 @@
+/**
+ * Floating bar for group actions on the selected stations
+ * Shown while at least one station is selected (Ctrl/Shift + Click on a station)
+ */
+
+"use client";
+
+import { useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Play, ClockPlus, RotateCcw, ArrowLeftRight, Link2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/hooks/use-i18n';
+import { useUndoToast } from '@/hooks';
+import { useAppStore } from '@/store/app-store';
+import { getCardKey, pickSwapTargets } from '@/features/selection';
+import { MIN_GROUP_SIZE } from '@/features/groups';
+import { isKey, isInputField } from '@/lib/utils/keyboard';
+
+const START_DURATIONS = [30, 60, 120, 180];
+const ADD_TIME_MINUTES = [15, 30, 60];
+
+export function BulkActionBar() {
+  const { t } = useI18n();
+  const {
+    selectedCards,
+    clearSelection,
+    applyBatch,
+    getCardsBySection,
+    getAllCards,
+    sections,
+    groups,
+    createGroup,
+  } = useAppStore();
+  const notifyUndoable = useUndoToast();
+
+  // Selected stations split by timer state
+  const { freeCount, activeCount } = useMemo(() => {
+    const selectedIds = new Set(selectedCards.map(getCardKey));
+    const selected = getAllCards().filter((item) =>
+      selectedIds.has(getCardKey({ sectionId: item.sectionId, cardId: item.card.id }))
+    );
+    const active = selected.filter((item) => item.card.timer?.isActive).length;
+    return { freeCount: selected.length - active, activeCount: active };
+  }, [selectedCards, getAllCards]);
+
+  // Esc clears the selection
+  useEffect(() => {
+    if (selectedCards.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isKey(e, 'Escape') && !isInputField(e.target)) {
+        clearSelection();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedCards.length, clearSelection]);
+
+  if (selectedCards.length === 0) return null;
+
+  const handleStart = (durationMinutes: number) => {
+    const count = applyBatch(selectedCards, { type: 'start', durationMinutes });
+    toast.success(t('bulk.started', { count }));
+  };
+
+  const handleAddTime = (minutes: number) => {
+    const count = applyBatch(selectedCards, { type: 'addTime', minutes });
+    toast.success(t('bulk.timeAdded', { count, minutes }));
+  };
+
+  const handleReset = () => {
+    const count = applyBatch(selectedCards, { type: 'reset' });
+    if (count > 0) {
+      notifyUndoable(t('bulk.reset', { count }));
+    }
+  };
+
+  const handleSwap = (sectionId: number) => {
+    const targets = pickSwapTargets(selectedCards, sectionId, getCardsBySection(sectionId));
+    if (!targets) {
+      toast.error(t('bulk.notEnoughStations'), {
+        description: t('bulk.notEnoughStationsDescription', { count: selectedCards.length }),
+      });
+      return;
+    }
+
+    const count = applyBatch(selectedCards, { type: 'swap', targets });
+    if (count > 0) {
+      notifyUndoable(t('bulk.swapped', {
+        count,
+        section: sections.find((s) => s.id === sectionId)?.name ?? '',
+      }));
+      clearSelection();
+    }
+  };
+
+  const handleGroup = () => {
+    const name = t('groups.defaultName', { number: groups.length + 1 });
+    createGroup(selectedCards, name);
+    toast.success(t('groups.created', { name, count: selectedCards.length }));
+    clearSelection();
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 rounded-lg border bg-background/95 p-2 shadow-lg backdrop-blur">
+      <span className="text-sm font-semibold px-2 whitespace-nowrap">
+        {t('bulk.selected', { count: selectedCards.length })}
+      </span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={freeCount === 0}>
+            <Play className="h-4 w-4" />
+            {t('bulk.start')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top">
+          <DropdownMenuLabel>{t('bulk.startLabel', { count: freeCount })}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {START_DURATIONS.map((minutes) => (
+            <DropdownMenuItem key={minutes} onClick={() => handleStart(minutes)}>
+              {t('bulk.duration', { minutes })}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={activeCount === 0}>
+            <ClockPlus className="h-4 w-4" />
+            {t('bulk.addTime')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top">
+          <DropdownMenuLabel>{t('bulk.addTimeLabel', { count: activeCount })}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {ADD_TIME_MINUTES.map((minutes) => (
+            <DropdownMenuItem key={minutes} onClick={() => handleAddTime(minutes)}>
+              +{t('bulk.duration', { minutes })}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <ArrowLeftRight className="h-4 w-4" />
+            {t('bulk.swap')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top">
+          <DropdownMenuLabel>{t('bulk.swapLabel')}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {sections.map((section) => (
+            <DropdownMenuItem key={section.id} onClick={() => handleSwap(section.id)}>
+              {section.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="outline" size="sm" disabled={selectedCards.length < MIN_GROUP_SIZE} onClick={handleGroup}>
+        <Link2 className="h-4 w-4" />
+        {t('groups.create')}
+      </Button>
+
+      <Button variant="outline" size="sm" disabled={activeCount === 0} onClick={handleReset}>
+        <RotateCcw className="h-4 w-4" />
+        {t('bulk.resetAction')}
+      </Button>
+
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={clearSelection}>
+        <X className="h-4 w-4" />
+        <span className="sr-only">{t('bulk.clear')}</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Quick time entry field
+ * One text field for durations and end times ("1h30", "+45m", "-10", "until 23:30", "till closing")
+ * with a live preview of the resulting session, applied with Enter
+ */
+
+"use client"
+
+import { useId, useState } from 'react';
+import { CornerDownLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/store/settings-store';
+import { parseTimeEntry, resolveTimeEntry, type TimeEntry } from '@/features/timers';
+import { timestampToTimeString } from '@/lib/utils/time';
+import type { TimerState } from '@/types';
+import dayjs from 'dayjs';
+
+interface QuickTimeEntryProps {
+  session: Pick<TimerState, 'startTime' | 'endTime'> | null; // Running timer, null for a free station
+  onSubmit: (entry: TimeEntry, range: { startTime: string; endTime: string }) => void;
+}
+
+/**
+ * Quick entry field, shared by AddTimeDialog and the card popover
+ * Clears itself once an entry is applied
+ */
+export function QuickTimeEntry({ session, onSubmit }: QuickTimeEntryProps) {
+  const { t, formatDuration } = useI18n();
+  const { settings, timezone } = useSettings();
+  const [value, setValue] = useState('');
+  const id = useId();
+
+  const entry = parseTimeEntry(value);
+  const range = entry ? resolveTimeEntry(entry, session, timezone, settings.closingTime) : null;
+  const isEmpty = !value.trim();
+
+  const handleSubmit = () => {
+    if (!entry || !range) return;
+    onSubmit(entry, range);
+    setValue('');
+  };
+
+  let preview = t('quickEntry.hint');
+  if (!isEmpty && !entry) {
+    preview = t('quickEntry.notUnderstood');
+  } else if (entry && !range) {
+    preview = t('quickEntry.cannotApply');
+  } else if (range) {
+    preview = t('quickEntry.preview', {
+      start: timestampToTimeString(range.startTime, timezone),
+      end: timestampToTimeString(range.endTime, timezone),
+      duration: formatDuration(dayjs(range.endTime).diff(range.startTime, 'minute')),
+    });
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id} className="text-sm font-medium">
+        {t('quickEntry.label')}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder={t('quickEntry.placeholder')}
+          aria-invalid={!isEmpty && !range}
+          autoComplete="off"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={handleSubmit}
+          disabled={!range}
+          aria-label={t('quickEntry.apply')}
+        >
+          <CornerDownLeft className="h-4 w-4" />
+        </Button>
+      </div>
+      <p
+        className={`text-xs ${!isEmpty && !range ? 'text-destructive' : 'text-muted-foreground'}`}
+        aria-live="polite"
+        suppressHydrationWarning
+      >
+        {preview}
+      </p>
+    </div>
+  );
+}
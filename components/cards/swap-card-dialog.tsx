@@ -20,7 +20,7 @@ import { Search, Clock } from 'lucide-react';
 import { useI18n } from '@/hooks/use-i18n';
 import { useAppStore } from '@/store/app-store';
 import { cn } from '@/lib/utils';
-import { getRemainingSeconds, formatRemainingTime } from '@/lib/utils/time';
+import { getRemainingSeconds, getElapsedSeconds, formatRemainingTime } from '@/lib/utils/time';
 
 interface SwapCardDialogProps {
   open: boolean;
@@ -156,11 +156,13 @@ export function SwapCardDialog({
                       <div className="flex items-center gap-3 w-full">
                         <div className="flex-1 text-left">
                           <div className="font-medium flex justify-between items-center">{card.name}
-                          {card.timer?.isActive && card.timer.endTime && (
+                          {card.timer?.isActive && (card.timer.endTime || card.timer.openEnded) && (
                             <div className="text-xs flex gap-1 text-muted-foreground">
                               <Clock className="h-3 w-3" />
                               {formatRemainingTime(
-                                getRemainingSeconds(card.timer.endTime, card.timer.startTime)
+                                card.timer.openEnded
+                                  ? getElapsedSeconds(card.timer.startTime)
+                                  : getRemainingSeconds(card.timer.endTime, card.timer.startTime, card.timer.pausedAt)
                               )}
                             </div>
                           )}
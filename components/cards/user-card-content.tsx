@@ -24,19 +24,28 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Kbd, KbdGroup } from "@/components/ui/kbd";
-import { ClockPlus, ClockFading, X } from "lucide-react";
+import { ClockPlus, ClockFading, InfinityIcon, Pause, Receipt, TextCursorInput, X } from "lucide-react";
 import { useI18n } from "@/hooks/use-i18n";
+import { usePresets } from "@/hooks/use-presets";
 import { parseShiftTooltip } from "@/lib/utils/text-parser";
+import type { TimerPreset } from "@/types";
+
+// Presets shown as buttons on a free station, the others are in the context menu
+const QUICK_PRESET_BUTTONS = 3;
 
 interface UserCardContentProps {
   progressValue: number;
   isExpired: boolean;
+  isPaused?: boolean;
+  isOpenSession?: boolean;
   progressVariant: "default" | "warning" | "orange" | "destructive" | undefined;
   remainingTime: string;
   isTimerActive: boolean;
   editMode: boolean;
   cardName: string;
-  onQuickAdd: (minutes: number) => void;
+  onApplyPreset: (preset: TimerPreset) => void;
+  onStartOpenSession: () => void;
+  onOpenQuickEntry: () => void;
   onClearTimer: () => void;
   onDeleteCard: () => void;
 }
@@ -47,21 +56,28 @@ interface UserCardContentProps {
 export function UserCardContent({
   progressValue,
   isExpired,
+  isPaused = false,
+  isOpenSession = false,
   progressVariant,
   remainingTime,
   isTimerActive,
   editMode,
   cardName,
-  onQuickAdd,
+  onApplyPreset,
+  onStartOpenSession,
+  onOpenQuickEntry,
   onClearTimer,
   onDeleteCard,
 }: UserCardContentProps) {
   const { t } = useI18n();
+  const { presets } = usePresets();
+  // An open session ends at checkout rather than with a reset
+  const clearLabel = isOpenSession ? t("card.checkout") : t("card.resetTimer");
 
   return (
     <CardContent className="px-0 flex gap-2 items-center">
       <div className="flex flex-col gap-1 w-full relative">
-        {isTimerActive ? (
+        {isTimerActive && !isOpenSession ? (
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -69,7 +85,7 @@ export function UserCardContent({
                   <Progress
                     value={isExpired ? 100 : Math.min(100, progressValue)}
                     variant={progressVariant}
-                    className="h-9"
+                    className={`h-9 ${isPaused ? "opacity-50" : ""}`}
                     style={{ borderRadius: "0.5rem" }}
                     aria-label={t("card.progressLabel", { name: cardName })}
                   />
@@ -109,94 +125,60 @@ export function UserCardContent({
         )}
         {isTimerActive ? (
           <span
-            className={`absolute select-none font-semibold m-1.5 px-2 bg-card rounded-sm ${
-              isExpired ? "text-destructive" : "text-color"
+            className={`absolute select-none font-semibold m-1.5 px-2 bg-card rounded-sm flex items-center gap-1 ${
+              isExpired ? "text-destructive" : isPaused ? "text-muted-foreground" : "text-color"
             }`}
           >
-            {remainingTime} {isExpired ? t("common.expired") : ""}
+            {isPaused && <Pause className="h-4 w-4" aria-hidden="true" />}
+            {isOpenSession && <InfinityIcon className="h-4 w-4" aria-hidden="true" />}
+            {remainingTime}{" "}
+            {isPaused ? t("common.paused") : isExpired ? t("common.expired") : isOpenSession ? t("card.openSession") : ""}
           </span>
         ) : (
           <TooltipProvider>
             <div className="absolute flex m-0.5 gap-1">
-              {/* Pulsante 30 minuti - Ctrl+3 */}
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => onQuickAdd(30)}
-                    aria-label={t("addTimeDialog.quickValues.plus30min")}
-                    className="cursor-pointer"
-                  >
-                    <ClockPlus className="h-4 w-4" />
-                    <span className="text-sm text-foreground/70 font-normal">
-                      {t("contextMenu.timerActive.durations.30min")}
-                    </span>
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <div className="flex items-center gap-2">
-                    <span>{t("addTimeDialog.quickValues.plus30min")}</span>
-                    <KbdGroup>
-                      <Kbd>Ctrl</Kbd>
-                      <Kbd>3</Kbd>
-                    </KbdGroup>
-                  </div>
-                </TooltipContent>
-              </Tooltip>
-
-              {/* Pulsante 1 ora - Ctrl+1 */}
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => onQuickAdd(60)}
-                    aria-label={t("addTimeDialog.quickValues.plus1hour")}
-                    className="cursor-pointer"
-                  >
-                    <ClockPlus className="h-4 w-4" />
-                    <span className="text-sm text-foreground/70 font-normal">
-                      {t("contextMenu.timerActive.durations.1hour")}
-                    </span>
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <div className="flex items-center gap-2">
-                    <span>{t("addTimeDialog.quickValues.plus1hour")}</span>
-                    <KbdGroup>
-                      <Kbd>Ctrl</Kbd>
-                      <Kbd>1</Kbd>
-                    </KbdGroup>
-                  </div>
-                </TooltipContent>
-              </Tooltip>
-
-              {/* Pulsante 2 ore - Ctrl+2 */}
+              {/* Primi preset delle impostazioni - Ctrl+1/2/3 */}
+              {presets.slice(0, QUICK_PRESET_BUTTONS).map(({ preset, label, detail, shortcut }) => (
+                <Tooltip key={preset.id}>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onApplyPreset(preset)}
+                      aria-label={t("card.quickAdd", { duration: label })}
+                      className="cursor-pointer"
+                    >
+                      <ClockPlus className="h-4 w-4" />
+                      <span className="text-sm text-foreground/70 font-normal max-w-20 truncate">
+                        {label}
+                      </span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <div className="flex items-center gap-2">
+                      <span>{t("card.quickAdd", { duration: preset.name ? `${label} (${detail})` : label })}</span>
+                      <KbdGroup>
+                        <Kbd>Ctrl</Kbd>
+                        <Kbd>{shortcut}</Kbd>
+                      </KbdGroup>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+              {/* Sessione aperta, senza durata: si chiude al conto */}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => onQuickAdd(120)}
-                    aria-label={t("addTimeDialog.quickValues.plus2hours")}
+                    onClick={onStartOpenSession}
+                    aria-label={t("card.startOpenSession")}
                     className="cursor-pointer"
                   >
-                    <ClockPlus className="h-4 w-4" />
-                    <span className="text-sm text-foreground/70 font-normal">
-                      {t("contextMenu.timerActive.durations.2hours")}
-                    </span>
+                    <InfinityIcon className="h-4 w-4" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>
-                  <div className="flex items-center gap-2">
-                    <span>{t("addTimeDialog.quickValues.plus2hours")}</span>
-                    <KbdGroup>
-                      <Kbd>Ctrl</Kbd>
-                      <Kbd>2</Kbd>
-                    </KbdGroup>
-                  </div>
-                </TooltipContent>
+                <TooltipContent>{t("card.startOpenSession")}</TooltipContent>
               </Tooltip>
             </div>
           </TooltipProvider>
@@ -204,6 +186,29 @@ export function UserCardContent({
       </div>
 
       <div className="flex items-center gap-1">
+        {/* Inserimento rapido di durata o orario di fine (non per le sessioni aperte) */}
+        {!editMode && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  className="cursor-pointer"
+                  variant="outline"
+                  size="icon"
+                  onClick={onOpenQuickEntry}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                  disabled={isOpenSession}
+                  aria-label={t("quickEntry.label")}
+                >
+                  <TextCursorInput className="h-4 w-4" />
+                  <span className="sr-only">{t("quickEntry.label")}</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{t("quickEntry.label")}</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+
         {/* Pulsante reset timer - Ctrl+R (solo quando timer attivo) */}
         <TooltipProvider>
           <Tooltip>
@@ -215,15 +220,15 @@ export function UserCardContent({
                 onClick={onClearTimer}
                 onDoubleClick={(e) => e.stopPropagation()}
                 disabled={!isTimerActive}
-                aria-label={t("card.resetTimer")}
+                aria-label={clearLabel}
               >
-                <ClockFading className="h-4 w-4" />
-                <span className="sr-only">{t("card.resetTimer")}</span>
+                {isOpenSession ? <Receipt className="h-4 w-4" /> : <ClockFading className="h-4 w-4" />}
+                <span className="sr-only">{clearLabel}</span>
               </Button>
             </TooltipTrigger>
             <TooltipContent>
               <div className="flex items-center gap-2">
-                <span>{t("card.resetTimer")}</span>
+                <span>{clearLabel}</span>
                 {isTimerActive && (
                   <KbdGroup>
                     <Kbd>Ctrl</Kbd>
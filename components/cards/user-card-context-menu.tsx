@@ -32,20 +32,52 @@ import {
   Timer,
   Info,
   ArrowLeftRight,
+  Pause,
+  Play,
+  Euro,
+  User,
+  Link2,
+  Unlink,
+  SquareDashedMousePointer,
+  LogIn,
+  InfinityIcon,
+  TextCursorInput,
 } from "lucide-react";
 import { useI18n } from "@/hooks/use-i18n";
+import { useSettings } from "@/store/settings-store";
+import { usePresets } from "@/hooks/use-presets";
+import { formatBalance } from "@/features/customers";
+import type { Customer, TimerPreset } from "@/types";
 
 interface UserCardContextMenuProps {
   isTimerActive: boolean;
+  isPaused?: boolean;
+  isOpenSession?: boolean;
+  isExpired?: boolean;
   editMode: boolean;
-  onStartTimer: (durationMinutes: number) => void;
+  onApplyPreset: (preset: TimerPreset) => void;
+  onStartOpenSession: () => void;
   onAddTime: (minutes: number) => void;
   onOpenCustomDialog: () => void;
+  onOpenQuickEntry: () => void;
+  onStartForCustomer?: (customerId: number) => void;
+  customers?: Customer[];
+  getCustomerAvailableMinutes?: (customerId: number) => number;
+  reservationName?: string;
+  onCheckIn?: () => void;
   onOpenDetailsDialog: () => void;
+  onOpenTariffDialog: () => void;
   onClearTimer: () => void;
+  onTogglePause: () => void;
   onDeleteCard: () => void;
   onSwapCard: () => void;
   canSwapCard?: boolean;
+  groupName?: string;
+  onAddTimeToGroup?: (minutes: number) => void;
+  onClearGroup?: () => void;
+  onSelectGroup?: () => void;
+  onLeaveGroup?: () => void;
+  onDissolveGroup?: () => void;
 }
 
 /**
@@ -54,38 +86,139 @@ interface UserCardContextMenuProps {
  */
 export function UserCardContextMenu({
   isTimerActive,
+  isPaused = false,
+  isOpenSession = false,
+  isExpired = false,
   editMode,
-  onStartTimer,
+  onApplyPreset,
+  onStartOpenSession,
   onAddTime,
   onOpenCustomDialog,
+  onOpenQuickEntry,
+  onStartForCustomer,
+  customers = [],
+  getCustomerAvailableMinutes,
+  reservationName,
+  onCheckIn,
   onOpenDetailsDialog,
+  onOpenTariffDialog,
   onClearTimer,
+  onTogglePause,
   onDeleteCard,
   onSwapCard,
   canSwapCard = false,
+  groupName,
+  onAddTimeToGroup,
+  onClearGroup,
+  onSelectGroup,
+  onLeaveGroup,
+  onDissolveGroup,
 }: UserCardContextMenuProps) {
-  const { t } = useI18n();
+  const { t, formatDuration } = useI18n();
+  const { settings } = useSettings();
+  // Preset dalle impostazioni, i primi nove con la scorciatoia Ctrl+1 ... Ctrl+9
+  const { presets } = usePresets();
+  const firstPreset = presets[0];
 
   return (
     <ContextMenuContent className="w-56">
       {/* Timer actions - different based on active state */}
       {!isTimerActive ? (
         <>
+          {/* Check-in della prossima prenotazione di oggi */}
+          {reservationName && onCheckIn && (
+            <ContextMenuItem onClick={onCheckIn}>
+              <LogIn className="h-4 w-4" />
+              <span className="truncate">{t("reservations.checkInName", { name: reservationName })}</span>
+            </ContextMenuItem>
+          )}
+
           {/* Solo durata personalizzata - i pulsanti rapidi sono già nella barra */}
           <ContextMenuItem onClick={onOpenCustomDialog}>
             <MoreHorizontal className="h-4 w-4" />
             <span>{t("contextMenu.startTimer.custom")}</span>
           </ContextMenuItem>
+
+          {/* Inserimento rapido: "1h30", "fino alle 23:30", "chiusura" */}
+          <ContextMenuItem onClick={onOpenQuickEntry}>
+            <TextCursorInput className="h-4 w-4" />
+            <span>{t("quickEntry.menuItem")}</span>
+          </ContextMenuItem>
+
+          {/* Avvio con un preset - i primi tre sono anche nella barra */}
+          {presets.length > 0 && (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger>
+                <Timer className="h-4 w-4 mr-2" />
+                <span>{t("contextMenu.startTimer.preset")}</span>
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent>
+                {presets.map(({ preset, label, shortcut }) => (
+                  <ContextMenuItem key={preset.id} onClick={() => onApplyPreset(preset)}>
+                    <Clock className="h-4 w-4" />
+                    <span>{label}</span>
+                    {shortcut && (
+                      <ContextMenuShortcut>
+                        <KbdGroup>
+                          <Kbd>Ctrl</Kbd>
+                          <Kbd>{shortcut}</Kbd>
+                        </KbdGroup>
+                      </ContextMenuShortcut>
+                    )}
+                  </ContextMenuItem>
+                ))}
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
+
+          {/* Sessione aperta: conta il tempo fino alla chiusura del conto */}
+          <ContextMenuItem onClick={onStartOpenSession}>
+            <InfinityIcon className="h-4 w-4" />
+            <span>{t("contextMenu.startTimer.openSession")}</span>
+          </ContextMenuItem>
+
+          {/* Avvio a carico del saldo prepagato di un cliente */}
+          {onStartForCustomer && customers.length > 0 && (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger>
+                <User className="h-4 w-4 mr-2" />
+                <span>{t("contextMenu.startTimer.forCustomer")}</span>
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent>
+                {customers.map((customer) => (
+                  <ContextMenuItem key={customer.id} onClick={() => onStartForCustomer(customer.id)}>
+                    <User className="h-4 w-4" />
+                    <span>{customer.name}</span>
+                    <ContextMenuShortcut>
+                      {formatBalance(getCustomerAvailableMinutes?.(customer.id) ?? customer.balanceMinutes)}
+                    </ContextMenuShortcut>
+                  </ContextMenuItem>
+                ))}
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
         </>
       ) : (
         <>
-          {/* Quick actions: Add 1 hour, Swap card, Reset timer */}
+          {/* Check-in anche con una sessione scaduta ancora sulla postazione: viene chiusa prima */}
+          {isExpired && reservationName && onCheckIn && (
+            <>
+              <ContextMenuItem onClick={onCheckIn}>
+                <LogIn className="h-4 w-4" />
+                <span className="truncate">{t("reservations.checkInName", { name: reservationName })}</span>
+              </ContextMenuItem>
+              <ContextMenuSeparator />
+            </>
+          )}
+
+          {/* Quick actions: Apply the first preset (Ctrl+1), Swap card, Reset timer */}
           <TooltipProvider>
             <div className="grid grid-cols-3">
               <Tooltip>
                 <TooltipTrigger asChild>
                   <ContextMenuItem
-                    onClick={() => onAddTime(60)}
+                    onClick={() => firstPreset && onApplyPreset(firstPreset.preset)}
+                    disabled={isOpenSession || !firstPreset}
                     className="flex flex-col items-center gap-2 cursor-pointer"
                   >
                     <ClockPlus className="h-4 w-4" />
@@ -98,7 +231,11 @@ export function UserCardContextMenu({
                   </ContextMenuItem>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>{t("contextMenu.timerActive.addOneHour")}</p>
+                  <p>
+                    {firstPreset?.preset.kind === "duration"
+                      ? t("contextMenu.timerActive.addDuration", { duration: firstPreset.label })
+                      : t("contextMenu.timerActive.applyPreset", { name: firstPreset?.label ?? "" })}
+                  </p>
                 </TooltipContent>
               </Tooltip>
               <Tooltip>
@@ -137,7 +274,7 @@ export function UserCardContextMenu({
                   </ContextMenuItem>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>{t("contextMenu.timerActive.reset")}</p>
+                  <p>{isOpenSession ? t("contextMenu.timerActive.checkout") : t("contextMenu.timerActive.reset")}</p>
                 </TooltipContent>
               </Tooltip>
             </div>
@@ -145,89 +282,76 @@ export function UserCardContextMenu({
 
           <ContextMenuSeparator />
 
-          {/* Add time submenu */}
-          <ContextMenuSub>
-            <ContextMenuSubTrigger>
-              <ClockPlus className="h-4 w-4 mr-2" />
-              <span>{t("contextMenu.timerActive.addTime")}</span>
-            </ContextMenuSubTrigger>
-            <ContextMenuSubContent>
-              <ContextMenuItem onClick={() => onAddTime(30)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.30min")}</span>
+          {/* An open session has no end: nothing to pause, add or remove until checkout */}
+          {!isOpenSession && (
+            <>
+              {/* Pause / resume */}
+              <ContextMenuItem onClick={onTogglePause}>
+                {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                <span>{isPaused ? t("contextMenu.timerActive.resume") : t("contextMenu.timerActive.pause")}</span>
                 <ContextMenuShortcut>
                   <KbdGroup>
                     <Kbd>Ctrl</Kbd>
-                    <Kbd>3</Kbd>
+                    <Kbd>P</Kbd>
                   </KbdGroup>
                 </ContextMenuShortcut>
               </ContextMenuItem>
-              <ContextMenuItem onClick={() => onAddTime(60)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.1hour")}</span>
-                <ContextMenuShortcut>
-                  <KbdGroup>
-                    <Kbd>Ctrl</Kbd>
-                    <Kbd>1</Kbd>
-                  </KbdGroup>
-                </ContextMenuShortcut>
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => onAddTime(120)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.2hours")}</span>
-                <ContextMenuShortcut>
-                  <KbdGroup>
-                    <Kbd>Ctrl</Kbd>
-                    <Kbd>2</Kbd>
-                  </KbdGroup>
-                </ContextMenuShortcut>
-              </ContextMenuItem>
-            </ContextMenuSubContent>
-          </ContextMenuSub>
 
-          {/* Remove time submenu */}
-          <ContextMenuSub>
-            <ContextMenuSubTrigger>
-              <ClockAlert className="h-4 w-4 mr-2" />
-              <span>{t("contextMenu.timerActive.removeTime")}</span>
-            </ContextMenuSubTrigger>
-            <ContextMenuSubContent>
-              <ContextMenuItem onClick={() => onAddTime(-5)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.5min")}</span>
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => onAddTime(-10)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.10min")}</span>
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => onAddTime(-15)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.15min")}</span>
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => onAddTime(-30)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.30min")}</span>
-                <ContextMenuShortcut>
-                  <KbdGroup>
-                    <Kbd>Ctrl</Kbd>
-                    <Kbd>3</Kbd>
-                  </KbdGroup>
-                </ContextMenuShortcut>
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => onAddTime(-60)}>
-                <Clock className="h-4 w-4" />
-                <span>{t("contextMenu.timerActive.durations.1hour")}</span>
+              {/* Add time submenu */}
+              <ContextMenuSub>
+                <ContextMenuSubTrigger>
+                  <ClockPlus className="h-4 w-4 mr-2" />
+                  <span>{t("contextMenu.timerActive.addTime")}</span>
+                </ContextMenuSubTrigger>
+                <ContextMenuSubContent>
+                  {presets.map(({ preset, label, shortcut }) => (
+                    <ContextMenuItem key={preset.id} onClick={() => onApplyPreset(preset)}>
+                      <Clock className="h-4 w-4" />
+                      <span>{label}</span>
+                      {shortcut && (
+                        <ContextMenuShortcut>
+                          <KbdGroup>
+                            <Kbd>Ctrl</Kbd>
+                            <Kbd>{shortcut}</Kbd>
+                          </KbdGroup>
+                        </ContextMenuShortcut>
+                      )}
+                    </ContextMenuItem>
+                  ))}
+                </ContextMenuSubContent>
+              </ContextMenuSub>
+
+              {/* Remove time submenu */}
+              <ContextMenuSub>
+                <ContextMenuSubTrigger>
+                  <ClockAlert className="h-4 w-4 mr-2" />
+                  <span>{t("contextMenu.timerActive.removeTime")}</span>
+                </ContextMenuSubTrigger>
+                <ContextMenuSubContent>
+                  {settings.removeDurations.map((minutes) => (
+                    <ContextMenuItem key={minutes} onClick={() => onAddTime(-minutes)}>
+                      <Clock className="h-4 w-4" />
+                      <span>{formatDuration(minutes)}</span>
+                    </ContextMenuItem>
+                  ))}
+                </ContextMenuSubContent>
+              </ContextMenuSub>
+
+              {/* Custom time */}
+              <ContextMenuItem onClick={onOpenCustomDialog}>
+                <MoreHorizontal className="h-4 w-4" />
+                <span>{t("contextMenu.timerActive.customTime")}</span>
               </ContextMenuItem>
-            </ContextMenuSubContent>
-          </ContextMenuSub>
 
-          {/* Custom time */}
-          <ContextMenuItem onClick={onOpenCustomDialog}>
-            <MoreHorizontal className="h-4 w-4" />
-            <span>{t("contextMenu.timerActive.customTime")}</span>
-          </ContextMenuItem>
+              {/* Quick entry: "+45m", "-10", "until 23:30" */}
+              <ContextMenuItem onClick={onOpenQuickEntry}>
+                <TextCursorInput className="h-4 w-4" />
+                <span>{t("quickEntry.menuItem")}</span>
+              </ContextMenuItem>
 
-          <ContextMenuSeparator />
+              <ContextMenuSeparator />
+            </>
+          )}
 
           {/* Timer information */}
           <ContextMenuItem onClick={onOpenDetailsDialog}>
@@ -235,30 +359,78 @@ export function UserCardContextMenu({
             <span>{t("contextMenu.timerActive.details")}</span>
           </ContextMenuItem>
 
-          <ContextMenuSeparator />
-
           {/* Scroll shortcut info */}
-          <ContextMenuLabel className="text-xs text-muted-foreground px-2 py-1.5 select-none">
-            <div className="flex flex-col gap-1">
-              <div className="flex items-center gap-2">
-                <KbdGroup>
-                  <Kbd>Ctrl</Kbd>
-                  <span>+</span>
-                  <span>{t("card.scrollAdjustTime.scroll")}</span>
-                </KbdGroup>
-                <span>= ±1 {t("common.minute")}</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <KbdGroup>
-                  <Kbd>Ctrl</Kbd>
-                  <Kbd>Shift</Kbd>
-                  <span>+</span>
-                  <span>{t("card.scrollAdjustTime.scroll")}</span>
-                </KbdGroup>
-                <span>= ±5 {t("common.minutes")}</span>
-              </div>
-            </div>
-          </ContextMenuLabel>
+          {!isOpenSession && (
+            <>
+              <ContextMenuSeparator />
+              <ContextMenuLabel className="text-xs text-muted-foreground px-2 py-1.5 select-none">
+                <div className="flex flex-col gap-1">
+                  <div className="flex items-center gap-2">
+                    <KbdGroup>
+                      <Kbd>Ctrl</Kbd>
+                      <span>+</span>
+                      <span>{t("card.scrollAdjustTime.scroll")}</span>
+                    </KbdGroup>
+                    <span>= ±1 {t("common.minute")}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <KbdGroup>
+                      <Kbd>Ctrl</Kbd>
+                      <Kbd>Shift</Kbd>
+                      <span>+</span>
+                      <span>{t("card.scrollAdjustTime.scroll")}</span>
+                    </KbdGroup>
+                    <span>= ±5 {t("common.minutes")}</span>
+                  </div>
+                </div>
+              </ContextMenuLabel>
+            </>
+          )}
+        </>
+      )}
+
+      {/* Azioni sul gruppo di postazioni */}
+      {groupName && !editMode && (
+        <>
+          <ContextMenuSeparator />
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <Link2 className="h-4 w-4 mr-2" />
+              <span className="truncate">{t("groups.menu", { name: groupName })}</span>
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent>
+              {isTimerActive && onAddTimeToGroup && (
+                <>
+                  {/* Solo le durate: una fascia oraria vale per la singola postazione */}
+                  {presets.map(({ preset }) =>
+                    preset.kind === "duration" && (
+                      <ContextMenuItem key={preset.id} onClick={() => onAddTimeToGroup(preset.minutes)}>
+                        <ClockPlus className="h-4 w-4" />
+                        <span>{t("groups.addTime", { duration: formatDuration(preset.minutes) })}</span>
+                      </ContextMenuItem>
+                    )
+                  )}
+                  <ContextMenuItem onClick={onClearGroup}>
+                    <ClockFading className="h-4 w-4" />
+                    <span>{t("groups.reset")}</span>
+                  </ContextMenuItem>
+                  <ContextMenuSeparator />
+                </>
+              )}
+              <ContextMenuItem onClick={onSelectGroup}>
+                <SquareDashedMousePointer className="h-4 w-4" />
+                <span>{t("groups.select")}</span>
+              </ContextMenuItem>
+              <ContextMenuItem onClick={onLeaveGroup}>
+                <Unlink className="h-4 w-4" />
+                <span>{t("groups.leave")}</span>
+              </ContextMenuItem>
+              <ContextMenuItem variant="destructive" onClick={onDissolveGroup}>
+                <Unlink className="h-4 w-4" />
+                <span>{t("groups.dissolve")}</span>
+              </ContextMenuItem>
+            </ContextMenuSubContent>
+          </ContextMenuSub>
         </>
       )}
 
@@ -266,6 +438,10 @@ export function UserCardContextMenu({
       {editMode && (
         <>
           <ContextMenuSeparator />
+          <ContextMenuItem onClick={onOpenTariffDialog}>
+            <Euro className="h-4 w-4" />
+            <span>{t("tariff.stationTariff")}</span>
+          </ContextMenuItem>
           <ContextMenuItem variant="destructive" onClick={onDeleteCard}>
             <Trash2 className="h-4 w-4" />
             <span>{t("card.delete")}</span>
@@ -12,13 +12,18 @@ import {
 } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { AddTimeDialog } from '@/components/cards/add-time-dialog';
-import { toTotalMinutes, TIMEZONE } from '@/lib/utils/time';
-import { Calendar, Clock, Timer, AlertCircle } from 'lucide-react';
+import { toTotalMinutes, getElapsedSeconds } from '@/lib/utils/time';
+import { Calendar, Clock, Timer, AlertCircle, Euro, User } from 'lucide-react';
 import { useI18n } from '@/hooks/use-i18n';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
-import type { TimerState } from '@/types';
+import type { Tariff, TimerState } from '@/types';
+import { calculateAmount, calculateTimerAmount, formatAmount } from '@/features/billing';
+import { getPlayedMinutes, getSessionMinutes } from '@/features/history';
+import { formatBalance } from '@/features/customers';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -28,13 +33,18 @@ interface UserCardDialogsProps {
   detailsDialogOpen: boolean;
   isTimerActive: boolean;
   timer?: TimerState;
+  tariff?: Tariff | null;
   remainingTime: string;
   isExpired: boolean;
+  isPaused?: boolean;
+  isOpenSession?: boolean;
+  addTimeCustomerId?: number;
   onAddTimeDialogChange: (open: boolean) => void;
   onDetailsDialogChange: (open: boolean) => void;
   onAddTime: (minutes: number) => void;
-  onStartTimer: (durationMinutes: number) => void;
-  onStartTimerWithDates: (startTime: string, endTime: string) => void;
+  onStartTimer: (durationMinutes: number, customerId?: number) => void;
+  onStartOpenTimer: (customerId?: number) => void;
+  onStartTimerWithDates: (startTime: string, endTime: string, customerId?: number) => void;
   onUpdateTimerDates: (startTime: string, endTime: string) => void;
 }
 
@@ -47,16 +57,27 @@ export function UserCardDialogs({
   detailsDialogOpen,
   isTimerActive,
   timer,
+  tariff = null,
   remainingTime,
   isExpired,
+  isPaused = false,
+  isOpenSession = false,
+  addTimeCustomerId,
   onAddTimeDialogChange,
   onDetailsDialogChange,
   onAddTime,
   onStartTimer,
+  onStartOpenTimer,
   onStartTimerWithDates,
   onUpdateTimerDates,
 }: UserCardDialogsProps) {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
+  const { customers, getCustomerAvailableMinutes } = useAppStore();
+  const { timezone } = useSettings();
+
+  const customer = timer?.customerId !== undefined
+    ? customers.find((c) => c.id === timer.customerId)
+    : undefined;
 
   /**
    * Handles adding time via custom dialog
@@ -64,14 +85,14 @@ export function UserCardDialogs({
    * If timer is not active and value is positive, starts timer
    * If timer is not active and value is negative, shows warning
    */
-  const handleAddTimeFromDialog = (hours: number, minutes: number) => {
+  const handleAddTimeFromDialog = (hours: number, minutes: number, customerId?: number) => {
     const totalMinutes = toTotalMinutes(hours, minutes);
     
     // If timer is not active
     if (!isTimerActive) {
       // If value is positive, start timer
       if (totalMinutes > 0) {
-        onStartTimer(totalMinutes);
+        onStartTimer(totalMinutes, customerId);
       }
       // If value is negative, warning is already shown in dialog
       // Do nothing here
@@ -85,11 +106,11 @@ export function UserCardDialogs({
    * Handles starting timer with specific dates/times
    * If the timer is already active, updates the dates instead of starting a new one
    */
-  const handleStartTimerWithDates = (startTime: string, endTime: string) => {
+  const handleStartTimerWithDates = (startTime: string, endTime: string, customerId?: number) => {
     if (isTimerActive) {
       onUpdateTimerDates(startTime, endTime);
     } else {
-      onStartTimerWithDates(startTime, endTime);
+      onStartTimerWithDates(startTime, endTime, customerId);
     }
   };
 
@@ -102,8 +123,12 @@ export function UserCardDialogs({
         onConfirmWithDates={handleStartTimerWithDates}
         isTimerActive={isTimerActive}
         onStartTimer={onStartTimer}
+        onStartOpenSession={onStartOpenTimer}
         currentStartTime={timer?.startTime ?? null}
         currentEndTime={timer?.endTime ?? null}
+        customers={customers}
+        initialCustomerId={addTimeCustomerId}
+        getCustomerAvailableMinutes={getCustomerAvailableMinutes}
       />
 
       {/* Timer details dialog */}
@@ -128,14 +153,22 @@ export function UserCardDialogs({
                 </h3>
                 <div className="bg-muted/50 rounded-lg p-4 border">
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">{t('timerDetails.fields.remainingTime')}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {isOpenSession ? t('timerDetails.fields.elapsedTime') : t('timerDetails.fields.remainingTime')}
+                    </span>
                     <span className={`text-lg font-semibold ${isExpired ? 'text-destructive' : 'text-foreground'}`}>
                       {remainingTime}
                     </span>
                   </div>
                   <div className="mt-2">
-                    <span className={`text-xs px-2 py-1 rounded-full ${isExpired ? 'bg-destructive/10 text-destructive' : 'bg-primary/10 text-primary'}`}>
-                      {isExpired ? t('common.expired') : t('common.active')}
+                    <span className={`text-xs px-2 py-1 rounded-full ${isExpired ? 'bg-destructive/10 text-destructive' : isPaused ? 'bg-muted text-muted-foreground' : 'bg-primary/10 text-primary'}`}>
+                      {isPaused
+                        ? t('common.paused')
+                        : isExpired
+                          ? t('common.expired')
+                          : isOpenSession
+                            ? t('card.openSession')
+                            : t('common.active')}
                     </span>
                   </div>
                 </div>
@@ -155,7 +188,7 @@ export function UserCardDialogs({
                       <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.startDateTime')}</div>
                       <div className="text-sm font-medium">
                         {timer.startTime
-                          ? dayjs(timer.startTime).tz(TIMEZONE).format('DD/MM/YYYY HH:mm')
+                          ? dayjs(timer.startTime).tz(timezone).format('DD/MM/YYYY HH:mm')
                           : 'N/A'}
                       </div>
                     </div>
@@ -165,8 +198,10 @@ export function UserCardDialogs({
                       <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.endDateTime')}</div>
                       <div className="text-sm font-medium">
                         {timer.endTime
-                          ? dayjs(timer.endTime).tz(TIMEZONE).format('DD/MM/YYYY HH:mm')
-                          : 'N/A'}
+                          ? dayjs(timer.endTime).tz(timezone).format('DD/MM/YYYY HH:mm')
+                          : isOpenSession
+                            ? t('timerDetails.fields.openEnd')
+                            : 'N/A'}
                       </div>
                     </div>
                   </div>
@@ -176,7 +211,7 @@ export function UserCardDialogs({
               <Separator />
 
               {/* Duration Section */}
-              {timer.startTime && timer.endTime && (
+              {timer.startTime && (timer.endTime || isOpenSession) && (
                 <div className="space-y-3">
                   <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
                     <Clock className="h-4 w-4" />
@@ -185,11 +220,76 @@ export function UserCardDialogs({
                   <div className="p-3 rounded-lg border bg-card">
                     <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.totalDuration')}</div>
                     <div className="text-base font-semibold">
-                      {dayjs(timer.endTime).diff(dayjs(timer.startTime), 'minute')} {t('common.min')}
+                      {isOpenSession
+                        ? Math.floor(getElapsedSeconds(timer.startTime) / 60)
+                        : dayjs(timer.endTime).diff(dayjs(timer.startTime), 'minute')}{' '}
+                      {t('common.min')}
                     </div>
                   </div>
                 </div>
               )}
+
+              {/* Customer Section */}
+              {customer && (
+                <>
+                  <Separator />
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      {t('timerDetails.sections.customer')}
+                    </h3>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="p-3 rounded-lg border bg-card">
+                        <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.customerName')}</div>
+                        <div className="text-base font-semibold">{customer.name}</div>
+                      </div>
+                      <div className="p-3 rounded-lg border bg-card">
+                        <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.liveBalance')}</div>
+                        <div className={`text-base font-semibold ${customer.balanceMinutes - getPlayedMinutes(timer) < 0 ? 'text-destructive' : ''}`}>
+                          {formatBalance(customer.balanceMinutes - getPlayedMinutes(timer))}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {/* Billing Section */}
+              {tariff && (
+                <>
+                  <Separator />
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                      <Euro className="h-4 w-4" />
+                      {t('timerDetails.sections.billing')}
+                    </h3>
+                    <div className="text-xs text-muted-foreground">
+                      {t('tariff.summary', {
+                        rate: formatAmount(tariff.hourlyRate, locale),
+                        minutes: tariff.roundingMinutes,
+                        minimum: formatAmount(tariff.minimumCharge, locale),
+                      })}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="p-3 rounded-lg border bg-card">
+                        <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.amountSoFar')}</div>
+                        <div className="text-base font-semibold">
+                          {formatAmount(calculateAmount(tariff, getSessionMinutes(timer)), locale)}
+                        </div>
+                      </div>
+                      {/* An open session is billed at checkout: there is no estimated total */}
+                      {!isOpenSession && (
+                        <div className="p-3 rounded-lg border bg-card">
+                          <div className="text-xs text-muted-foreground mb-1">{t('timerDetails.fields.estimatedAmount')}</div>
+                          <div className="text-base font-semibold">
+                            {formatAmount(calculateTimerAmount(timer, tariff) ?? 0, locale)}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )}
             </div>
           )}
         </DialogContent>
@@ -5,10 +5,12 @@
 
 import { CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Play, SkipForward } from 'lucide-react';
+import { Play, SkipForward, Link2, CalendarClock, InfinityIcon } from 'lucide-react';
 import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/store/settings-store';
 import { useEffect, useState } from 'react';
-import type { TimerState } from '@/types';
+import type { Reservation, TimerState } from '@/types';
+import { timestampToTimeString } from '@/lib/utils/time';
 import { useTimeInputs } from '@/hooks/use-time-inputs';
 import { TimeInputField } from '@/components/cards/time-input-field';
 
@@ -16,6 +18,8 @@ interface UserCardHeaderProps {
   name: string;
   editMode: boolean;
   timer?: TimerState;
+  group?: { name: string; size: number };
+  reservation?: Reservation;
   onNameChange: (name: string) => void;
   onTimeChange?: (startTime: string, endTime: string) => void;
 }
@@ -28,10 +32,13 @@ export function UserCardHeader({
   name,
   editMode,
   timer,
+  group,
+  reservation,
   onNameChange,
   onTimeChange,
 }: UserCardHeaderProps) {
   const { t } = useI18n();
+  const { timezone } = useSettings();
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
@@ -69,6 +76,26 @@ export function UserCardHeader({
         </CardTitle>
       )}
 
+      {group && (
+        <span
+          className="flex shrink-0 items-center gap-1 rounded-md bg-primary/10 px-1.5 py-0.5 text-xs font-medium text-primary select-none"
+          title={t('groups.badgeTitle', { name: group.name, count: group.size })}
+        >
+          <Link2 className="h-3 w-3" aria-hidden="true" />
+          <span className="max-w-20 truncate">{group.name}</span>
+        </span>
+      )}
+
+      {reservation && mounted && (
+        <span
+          className="flex shrink-0 items-center gap-1 rounded-md bg-muted px-1.5 py-0.5 text-xs font-medium text-muted-foreground select-none"
+          title={t('reservations.badgeTitle', { name: reservation.name })}
+        >
+          <CalendarClock className="h-3 w-3" aria-hidden="true" />
+          {timestampToTimeString(reservation.startTime, timezone)}
+        </span>
+      )}
+
       <div className="flex items-center gap-1">
         <Play className="text-muted-foreground" size={16} aria-hidden="true" />
         <TimeInputField
@@ -82,16 +109,21 @@ export function UserCardHeader({
           id={`${name}-start-time`}
         />
         <SkipForward className="text-muted-foreground" size={16} aria-hidden="true" />
-        <TimeInputField
-          value={endTimeValue}
-          onChange={handleEndTimeChange}
-          onBlur={handleEndTimeBlur}
-          displayValue={endTime}
-          mounted={mounted}
-          editable={!!onTimeChange}
-          label={t('card.endTimeLabel', { name })}
-          id={`${name}-end-time`}
-        />
+        {timer?.isActive && timer.openEnded ? (
+          // Open session: no end until checkout
+          <InfinityIcon className="text-muted-foreground mx-1" size={16} aria-label={t('card.openSession')} />
+        ) : (
+          <TimeInputField
+            value={endTimeValue}
+            onChange={handleEndTimeChange}
+            onBlur={handleEndTimeBlur}
+            displayValue={endTime}
+            mounted={mounted}
+            editable={!!onTimeChange}
+            label={t('card.endTimeLabel', { name })}
+            id={`${name}-end-time`}
+          />
+        )}
       </div>
     </CardHeader>
   );
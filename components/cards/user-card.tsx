@@ -6,19 +6,31 @@
 
 "use client"
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import {
   ContextMenu,
   ContextMenuTrigger,
 } from '@/components/ui/context-menu';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
 import { UserCardHeader } from '@/components/cards/user-card-header';
 import { UserCardContent } from '@/components/cards/user-card-content';
 import { UserCardContextMenu } from '@/components/cards/user-card-context-menu';
 import { UserCardDialogs } from '@/components/cards/user-card-dialogs';
+import { QuickTimeEntry } from '@/components/cards/quick-time-entry';
 import { SwapCardDialog } from '@/components/cards/swap-card-dialog';
+import { TariffDialog } from '@/components/billing/tariff-dialog';
 import { useTimerCalculations, useCardActions, useCardInteractions } from '@/hooks';
 import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
+import { useI18n } from '@/hooks/use-i18n';
+import { resolveTariff } from '@/features/billing';
+import { MIN_GROUP_SIZE } from '@/features/groups';
+import { getTodayReservation } from '@/features/reservations';
+import { toast } from 'sonner';
+import { DRAG_TYPES, setDragData, hasDragType, getDragData, type CardDragData } from '@/lib/utils/drag';
+import { isCtrlOrCmd } from '@/lib/utils/keyboard';
+import { showDesktopNotification } from '@/lib/utils/notifications';
 import type { UserCardProps } from '@/types';
 
 /**
@@ -30,28 +42,88 @@ export function UserCard({
   sectionId,
   id,
   name,
-  progressValue,
   editMode,
   timer,
+  tariffOverride,
+  groupId,
 }: UserCardProps) {
+  const { t } = useI18n();
+
   // Local state only for dialogs
   const [addTimeDialogOpen, setAddTimeDialogOpen] = useState(false);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
   const [swapCardDialogOpen, setSwapCardDialogOpen] = useState(false);
+  const [tariffDialogOpen, setTariffDialogOpen] = useState(false);
+  const [quickEntryOpen, setQuickEntryOpen] = useState(false);
+  const [addTimeCustomerId, setAddTimeCustomerId] = useState<number | undefined>(undefined);
+  const [isDragOver, setIsDragOver] = useState(false);
 
   // Hook for card actions (business logic)
   const {
     updateCardName,
+    updateCardTariff,
     deleteCard,
     startTimer,
+    startOpenTimer,
     startTimerWithDates,
     updateTimerDates,
     addTimeToTimer,
+    addTimeToGroup,
+    applyPreset,
+    applyTimeEntry,
+    pauseTimer,
+    resumeTimer,
     clearTimer,
+    clearGroup,
+    swapCard,
+    leaveGroup,
   } = useCardActions(sectionId, id);
 
   // Store per scambio postazioni
-  const { swapCardTimers, getAllCards } = useAppStore();
+  const {
+    moveCard,
+    getAllCards,
+    sections,
+    customers,
+    getCustomerAvailableMinutes,
+    isCardSelected,
+    toggleCardSelection,
+    selectCards,
+    groups,
+    getGroupMembers,
+    dissolveGroup,
+    reservations,
+    checkInReservation,
+    getAlertSettings,
+    highlightedCard,
+    cardDialogRequest,
+    clearCardDialogRequest,
+  } = useAppStore();
+  const { settings, timezone } = useSettings();
+  const isSelected = isCardSelected(sectionId, id);
+  const isHighlighted = highlightedCard?.sectionId === sectionId && highlightedCard.cardId === id;
+
+  // Porta in vista la postazione evidenziata (es. dopo il click su una notifica)
+  const cardRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (isHighlighted) {
+      cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [isHighlighted]);
+
+  // Gruppo di postazioni prenotate insieme, mostrato solo se ha ancora più membri
+  const group = useMemo(() => {
+    const found = groups.find((g) => g.id === groupId);
+    if (!found) return undefined;
+    const members = getGroupMembers(found.id);
+    return members.length >= MIN_GROUP_SIZE ? { ...found, members } : undefined;
+  }, [groups, groupId, getGroupMembers]);
+
+  // Tariffa effettiva: override della postazione o tariffa della sezione
+  const tariff = useMemo(
+    () => resolveTariff(sections.find((s) => s.id === sectionId), { tariffOverride }),
+    [sections, sectionId, tariffOverride]
+  );
 
   // Verifica se ci sono altre postazioni disponibili per lo scambio
   const canSwapCard = useMemo(() => {
@@ -61,22 +133,61 @@ export function UserCard({
     );
   }, [getAllCards, sectionId, id]);
 
-  // Handler per lo scambio postazioni
-  const handleSwapCard = useCallback(
-    (targetSectionId: number, targetCardId: number) => {
-      swapCardTimers(sectionId, id, targetSectionId, targetCardId);
-    },
-    [swapCardTimers, sectionId, id]
-  );
+  // Prossima prenotazione della postazione, mostrata solo se è per oggi
+  const todayReservation = getTodayReservation(reservations, sectionId, id, timezone);
+
+  const handleCheckIn = useCallback(() => {
+    if (!todayReservation) return;
+    if (checkInReservation(todayReservation.id)) {
+      toast.success(t('reservations.checkedIn', { name: todayReservation.name }));
+    } else {
+      toast.error(t('reservations.checkInFailed'), {
+        description: t('reservations.checkInFailedDescription'),
+      });
+    }
+  }, [todayReservation, checkInReservation, t]);
+
+  // Soglie e avvisi della sezione (o globali)
+  const alertSettings = getAlertSettings(sectionId);
+
+  // Avvisi: toast nell'app e notifica di sistema se la finestra non è in primo piano
+  const sectionName = sections.find((s) => s.id === sectionId)?.name ?? '';
+  const handlePreExpiry = useCallback((minutes: number) => {
+    toast.warning(t('alerts.preExpiry', { name, minutes }), {
+      description: sectionName || undefined,
+    });
+    showDesktopNotification({
+      kind: 'preExpiry',
+      title: t('notifications.preExpiryTitle', { name, minutes }),
+      body: t('notifications.body', { section: sectionName, name }),
+      sectionId,
+      cardId: id,
+    });
+  }, [t, name, sectionName, sectionId, id]);
+
+  const handleExpired = useCallback(() => {
+    showDesktopNotification({
+      kind: 'expired',
+      title: t('notifications.expiredTitle', { name }),
+      body: t('notifications.body', { section: sectionName, name }),
+      sectionId,
+      cardId: id,
+    });
+  }, [t, name, sectionName, sectionId, id]);
 
   // Hook for timer calculations (presentation logic)
-  const { remainingTime, isExpired, progressVariant } = useTimerCalculations(timer);
+  const { progress, remainingTime, isExpired, isPaused, isOpenEnded, progressVariant } = useTimerCalculations(timer, {
+    alertSettings,
+    onPreExpiry: handlePreExpiry,
+    onExpired: handleExpired,
+    alertKey: `${sectionId}-${id}`,
+  });
 
   const isTimerActive = timer?.isActive ?? false;
 
   // Handlers for timer actions
-  const handleStartTimer = useCallback((durationMinutes: number) => {
-    startTimer(durationMinutes);
+  const handleStartTimer = useCallback((durationMinutes: number, customerId?: number) => {
+    startTimer(durationMinutes, customerId);
   }, [startTimer]);
 
   const handleAddTime = useCallback((minutes: number) => {
@@ -84,16 +195,49 @@ export function UserCard({
   }, [addTimeToTimer]);
 
   /**
-   * Handler per aggiungere/avviare timer con durata specifica
-   * Se timer attivo: aggiunge tempo, altrimenti avvia timer
+   * Apre il dialog personalizzato, con un cliente eventualmente preselezionato
+   * Una sessione aperta non ha durata da modificare: mostra i dettagli
+   */
+  const handleOpenCustomDialog = useCallback((customerId?: number) => {
+    if (isOpenEnded) {
+      setDetailsDialogOpen(true);
+      return;
+    }
+    setAddTimeCustomerId(customerId);
+    setAddTimeDialogOpen(true);
+  }, [isOpenEnded]);
+
+  /**
+   * Apre i dialog richiesti dall'esterno della card (es. dalla palette dei comandi)
+   * Al frame successivo, quando la palette che li ha richiesti si è chiusa e ha restituito il focus
+   */
+  useEffect(() => {
+    if (cardDialogRequest?.ref.sectionId !== sectionId || cardDialogRequest.ref.cardId !== id) return;
+
+    const { dialog } = cardDialogRequest;
+    const frame = requestAnimationFrame(() => {
+      if (dialog === 'details') {
+        setDetailsDialogOpen(true);
+      } else if (dialog === 'quickEntry') {
+        setQuickEntryOpen(true);
+      } else {
+        handleOpenCustomDialog();
+      }
+      clearCardDialogRequest();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [cardDialogRequest, clearCardDialogRequest, sectionId, id, handleOpenCustomDialog]);
+
+  /**
+   * Handler per mettere in pausa o riprendere il timer
    */
-  const handleQuickAdd = useCallback((minutes: number) => {
-    if (isTimerActive) {
-      handleAddTime(minutes);
+  const handleTogglePause = useCallback(() => {
+    if (isPaused) {
+      resumeTimer();
     } else {
-      handleStartTimer(minutes);
+      pauseTimer();
     }
-  }, [isTimerActive, handleAddTime, handleStartTimer]);
+  }, [isPaused, pauseTimer, resumeTimer]);
 
   // Hook for interactions (hover, keyboard shortcuts, double click)
   const {
@@ -102,82 +246,180 @@ export function UserCard({
     handleMouseLeave,
   } = useCardInteractions({
     isTimerActive,
-    onStartTimer: handleStartTimer,
+    presets: settings.presets,
+    onApplyPreset: applyPreset,
     onAddTime: handleAddTime,
-    onOpenCustomDialog: () => setAddTimeDialogOpen(true),
+    onOpenCustomDialog: () => handleOpenCustomDialog(),
     onSwapCard: canSwapCard ? () => setSwapCardDialogOpen(true) : undefined,
     onClearTimer: clearTimer,
+    onTogglePause: handleTogglePause,
     canSwapCard,
   });
 
+  /**
+   * Drag and drop in edit mode: a station dropped on this card is placed before it
+   */
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!editMode || !hasDragType(e, DRAG_TYPES.card)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    const source = getDragData<CardDragData>(e, DRAG_TYPES.card);
+    if (!editMode || !source) return;
+    // Marks the drop as handled for the enclosing section
+    e.preventDefault();
+    moveCard(source.sectionId, source.cardId, sectionId, id);
+  };
+
+  /**
+   * Ctrl/Cmd + Click seleziona la postazione, Shift + Click seleziona un intervallo
+   * I click sui pulsanti interni mantengono il loro comportamento
+   */
+  const handleClick = (e: React.MouseEvent) => {
+    if (editMode || !(isCtrlOrCmd(e.nativeEvent) || e.shiftKey)) return;
+    if ((e.target as HTMLElement).closest('button, input')) return;
+    e.preventDefault();
+    toggleCardSelection({ sectionId, cardId: id }, e.shiftKey);
+  };
+
   return (
-    <ContextMenu>
-      <ContextMenuTrigger asChild>
-        <Card
-          className="p-3 gap-1"
-          onMouseEnter={handleMouseEnter}
-          onMouseLeave={handleMouseLeave}
-          onDoubleClick={handleDoubleClick}
-        >
-          <UserCardHeader
-            name={name}
-            editMode={editMode}
-            timer={timer}
-            onNameChange={updateCardName}
-            onTimeChange={isTimerActive ? updateTimerDates : startTimerWithDates}
-          />
-
-          <UserCardContent
-            progressValue={progressValue}
-            isExpired={isExpired}
-            progressVariant={progressVariant}
-            remainingTime={remainingTime}
-            isTimerActive={isTimerActive}
-            editMode={editMode}
-            cardName={name}
-            onQuickAdd={handleQuickAdd}
-            onClearTimer={clearTimer}
-            onDeleteCard={deleteCard}
-          />
-        </Card>
-      </ContextMenuTrigger>
-
-      <UserCardContextMenu
-        isTimerActive={isTimerActive}
-        editMode={editMode}
-        onStartTimer={handleStartTimer}
-        onAddTime={handleAddTime}
-        onOpenCustomDialog={() => setAddTimeDialogOpen(true)}
-        onOpenDetailsDialog={() => setDetailsDialogOpen(true)}
-        onClearTimer={clearTimer}
-        onDeleteCard={deleteCard}
-        onSwapCard={() => setSwapCardDialogOpen(true)}
-        canSwapCard={canSwapCard}
-      />
-
-      <UserCardDialogs
-        addTimeDialogOpen={addTimeDialogOpen}
-        detailsDialogOpen={detailsDialogOpen}
-        isTimerActive={isTimerActive}
-        timer={timer}
-        remainingTime={remainingTime}
-        isExpired={isExpired}
-        onAddTimeDialogChange={setAddTimeDialogOpen}
-        onDetailsDialogChange={setDetailsDialogOpen}
-        onAddTime={handleAddTime}
-        onStartTimer={handleStartTimer}
-        onStartTimerWithDates={startTimerWithDates}
-        onUpdateTimerDates={updateTimerDates}
-      />
-
-      <SwapCardDialog
-        open={swapCardDialogOpen}
-        onOpenChange={setSwapCardDialogOpen}
-        currentSectionId={sectionId}
-        currentCardId={id}
-        currentCardName={name}
-        onConfirm={handleSwapCard}
-      />
-    </ContextMenu>
+    <Popover open={quickEntryOpen} onOpenChange={setQuickEntryOpen} modal>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <PopoverAnchor asChild>
+            <Card
+              ref={cardRef}
+              className={`p-3 gap-1 ${editMode ? 'cursor-grab active:cursor-grabbing' : ''} ${isDragOver ? 'ring-2 ring-primary' : ''} ${isSelected ? 'ring-2 ring-primary bg-primary/5' : ''} ${isHighlighted ? 'ring-4 ring-primary animate-pulse' : ''}`}
+              aria-selected={isSelected}
+              onClick={handleClick}
+              onMouseEnter={handleMouseEnter}
+              onMouseLeave={handleMouseLeave}
+              onDoubleClick={handleDoubleClick}
+              draggable={editMode}
+              onDragStart={(e) => setDragData(e, DRAG_TYPES.card, { sectionId, cardId: id })}
+              onDragOver={handleDragOver}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragOver(false);
+              }}
+              onDrop={handleDrop}
+            >
+              <UserCardHeader
+                name={name}
+                editMode={editMode}
+                timer={timer}
+                group={group && { name: group.name, size: group.members.length }}
+                reservation={todayReservation}
+                onNameChange={updateCardName}
+                onTimeChange={isOpenEnded ? undefined : isTimerActive ? updateTimerDates : startTimerWithDates}
+              />
+
+              <UserCardContent
+                progressValue={progress}
+                isExpired={isExpired}
+                isPaused={isPaused}
+                isOpenSession={isOpenEnded}
+                progressVariant={progressVariant}
+                remainingTime={remainingTime}
+                isTimerActive={isTimerActive}
+                editMode={editMode}
+                cardName={name}
+                onApplyPreset={applyPreset}
+                onStartOpenSession={() => startOpenTimer()}
+                onOpenQuickEntry={() => setQuickEntryOpen(true)}
+                onClearTimer={clearTimer}
+                onDeleteCard={deleteCard}
+              />
+            </Card>
+          </PopoverAnchor>
+        </ContextMenuTrigger>
+
+        <UserCardContextMenu
+          isTimerActive={isTimerActive}
+          isPaused={isPaused}
+          isOpenSession={isOpenEnded}
+          isExpired={isExpired}
+          editMode={editMode}
+          onApplyPreset={applyPreset}
+          onStartOpenSession={() => startOpenTimer()}
+          onAddTime={handleAddTime}
+          onOpenCustomDialog={() => handleOpenCustomDialog()}
+          onOpenQuickEntry={() => setQuickEntryOpen(true)}
+          onStartForCustomer={handleOpenCustomDialog}
+          customers={customers}
+          getCustomerAvailableMinutes={getCustomerAvailableMinutes}
+          reservationName={todayReservation?.name}
+          onCheckIn={handleCheckIn}
+          onOpenDetailsDialog={() => setDetailsDialogOpen(true)}
+          onOpenTariffDialog={() => setTariffDialogOpen(true)}
+          onClearTimer={clearTimer}
+          onTogglePause={handleTogglePause}
+          onDeleteCard={deleteCard}
+          onSwapCard={() => setSwapCardDialogOpen(true)}
+          canSwapCard={canSwapCard}
+          groupName={group?.name}
+          onAddTimeToGroup={addTimeToGroup}
+          onClearGroup={clearGroup}
+          onSelectGroup={() => group && selectCards(group.members)}
+          onLeaveGroup={leaveGroup}
+          onDissolveGroup={() => group && dissolveGroup(group.id)}
+        />
+
+        <UserCardDialogs
+          addTimeDialogOpen={addTimeDialogOpen}
+          detailsDialogOpen={detailsDialogOpen}
+          isTimerActive={isTimerActive}
+          timer={timer}
+          tariff={tariff}
+          remainingTime={remainingTime}
+          isExpired={isExpired}
+          isPaused={isPaused}
+          isOpenSession={isOpenEnded}
+          addTimeCustomerId={addTimeCustomerId}
+          onAddTimeDialogChange={setAddTimeDialogOpen}
+          onDetailsDialogChange={setDetailsDialogOpen}
+          onAddTime={handleAddTime}
+          onStartTimer={handleStartTimer}
+          onStartOpenTimer={startOpenTimer}
+          onStartTimerWithDates={startTimerWithDates}
+          onUpdateTimerDates={updateTimerDates}
+        />
+
+        <SwapCardDialog
+          open={swapCardDialogOpen}
+          onOpenChange={setSwapCardDialogOpen}
+          currentSectionId={sectionId}
+          currentCardId={id}
+          currentCardName={name}
+          onConfirm={swapCard}
+        />
+
+        <TariffDialog
+          open={tariffDialogOpen}
+          onOpenChange={setTariffDialogOpen}
+          title={t('tariff.stationTitle')}
+          description={t('tariff.stationDescription', { name })}
+          tariff={tariffOverride}
+          removeLabel={t('tariff.useSectionTariff')}
+          onSave={updateCardTariff}
+          onRemove={() => updateCardTariff(undefined)}
+        />
+      </ContextMenu>
+
+      {/* Inserimento rapido: "1h30", "+45m", "fino alle 23:30" */}
+      <PopoverContent align="start" className="w-80">
+        <QuickTimeEntry
+          session={isTimerActive && timer ? timer : null}
+          onSubmit={(entry) => {
+            applyTimeEntry(entry);
+            setQuickEntryOpen(false);
+          }}
+        />
+      </PopoverContent>
+    </Popover>
   );
 }
@@ -0,0 +1,380 @@
+/**
+ * Keyboard command palette (Ctrl+K)
+ * Searches stations and sections, then runs a station action or a global one without the mouse
+ * Station actions go through useCardActions, so they behave exactly like the card's own controls
+ */
+
+"use client";
+
+import { useState, useMemo, useCallback } from 'react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Kbd, KbdGroup } from '@/components/ui/kbd';
+import {
+  ArrowLeftRight,
+  Check,
+  Clock,
+  ClockAlert,
+  FileDown,
+  Info,
+  Monitor,
+  Moon,
+  MoreHorizontal,
+  Pause,
+  PencilRuler,
+  Play,
+  RotateCcw,
+  Sun,
+  TextCursorInput,
+  Timer,
+  Volume2,
+  VolumeX,
+} from 'lucide-react';
+import { useTheme } from 'next-themes';
+import { useI18n } from '@/hooks/use-i18n';
+import { useCardActions } from '@/hooks/use-card-actions';
+import { usePresets } from '@/hooks/use-presets';
+import { useDataExport } from '@/hooks/use-data-export';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
+import { isOpenSession, isTimerPaused } from '@/features/timers';
+import type { CardDialog, CardRef, UserCard } from '@/types';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+type PalettePage = 'root' | 'station' | 'swap';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editMode: boolean;
+  onToggleEditMode: () => void;
+  muted: boolean;
+  onToggleAudio: () => void;
+}
+
+/**
+ * Short status of a station, shown next to its name
+ */
+function useStationStatus() {
+  const { t } = useI18n();
+  const { timezone } = useSettings();
+
+  return useCallback(
+    (card: UserCard): string => {
+      const timer = card.timer;
+      if (!timer?.isActive) return t('card.timerAvailable');
+      if (isOpenSession(timer)) return t('card.openSession');
+      if (isTimerPaused(timer)) return t('common.paused');
+      return timer.endTime
+        ? t('commandPalette.until', { time: dayjs(timer.endTime).tz(timezone).format('HH:mm') })
+        : t('common.active');
+    },
+    [t, timezone]
+  );
+}
+
+interface StationCommandsProps {
+  station: CardRef;
+  page: Exclude<PalettePage, 'root'>;
+  onShowSwap: () => void;
+  onOpenDialog: (dialog: CardDialog) => void;
+  onDone: () => void;
+}
+
+/**
+ * Actions for the chosen station, or the list of stations to swap it with
+ */
+function StationCommands({ station, page, onShowSwap, onOpenDialog, onDone }: StationCommandsProps) {
+  const { t, formatDuration } = useI18n();
+  const { settings } = useSettings();
+  const { getAllCards } = useAppStore();
+  const { presets } = usePresets();
+  const getStatus = useStationStatus();
+  const {
+    addTimeToTimer,
+    applyPreset,
+    startOpenTimer,
+    pauseTimer,
+    resumeTimer,
+    clearTimer,
+    swapCard,
+  } = useCardActions(station.sectionId, station.cardId);
+
+  const allCards = getAllCards();
+  const card = allCards.find(
+    (item) => item.sectionId === station.sectionId && item.card.id === station.cardId
+  )?.card;
+
+  // The station was deleted while the palette was open
+  if (!card) return null;
+
+  // Runs an action and closes the palette
+  const run = (action: () => void) => () => {
+    action();
+    onDone();
+  };
+
+  if (page === 'swap') {
+    return (
+      <CommandGroup heading={t('commandPalette.swapWith', { name: card.name })}>
+        {allCards
+          .filter((item) => !(item.sectionId === station.sectionId && item.card.id === station.cardId))
+          .map((item) => (
+            <CommandItem
+              key={`${item.sectionId}-${item.card.id}`}
+              value={`${item.card.name} ${item.sectionName}`}
+              onSelect={run(() => swapCard(item.sectionId, item.card.id))}
+            >
+              <ArrowLeftRight />
+              <span>{item.card.name}</span>
+              <span className="text-muted-foreground text-xs">{item.sectionName}</span>
+              <CommandShortcut>{getStatus(item.card)}</CommandShortcut>
+            </CommandItem>
+          ))}
+      </CommandGroup>
+    );
+  }
+
+  const isActive = !!card.timer?.isActive;
+  const isOpen = isOpenSession(card.timer);
+  const isPaused = isTimerPaused(card.timer);
+
+  return (
+    <>
+      {/* An open session has no end: nothing to add, remove or pause until checkout */}
+      {!isOpen && (
+        <CommandGroup heading={isActive ? t('contextMenu.timerActive.addTime') : t('contextMenu.startTimer.preset')}>
+          {presets.map(({ preset, label, detail }) => (
+            <CommandItem key={preset.id} value={`${label} ${detail}`} onSelect={run(() => applyPreset(preset))}>
+              <Clock />
+              <span>{label}</span>
+              {label !== detail && <span className="text-muted-foreground text-xs">{detail}</span>}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      )}
+
+      {isActive && !isOpen && (
+        <CommandGroup heading={t('contextMenu.timerActive.removeTime')}>
+          {settings.removeDurations.map((minutes) => (
+            <CommandItem key={minutes} value={`${t('contextMenu.timerActive.removeTime')} ${formatDuration(minutes)}`} onSelect={run(() => addTimeToTimer(-minutes))}>
+              <ClockAlert />
+              <span>-{formatDuration(minutes)}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      )}
+
+      <CommandGroup heading={card.name}>
+        {!isActive && (
+          <CommandItem value={t('card.startOpenSession')} onSelect={run(() => startOpenTimer())}>
+            <Timer />
+            <span>{t('card.startOpenSession')}</span>
+          </CommandItem>
+        )}
+        {isActive && !isOpen && (
+          <CommandItem value={isPaused ? t('contextMenu.timerActive.resume') : t('contextMenu.timerActive.pause')} onSelect={run(isPaused ? resumeTimer : pauseTimer)}>
+            {isPaused ? <Play /> : <Pause />}
+            <span>{isPaused ? t('contextMenu.timerActive.resume') : t('contextMenu.timerActive.pause')}</span>
+          </CommandItem>
+        )}
+        {!isOpen && (
+          <>
+            <CommandItem value={t('contextMenu.timerActive.customTime')} onSelect={() => onOpenDialog('addTime')}>
+              <MoreHorizontal />
+              <span>{isActive ? t('contextMenu.timerActive.customTime') : t('contextMenu.startTimer.custom')}</span>
+            </CommandItem>
+            <CommandItem value={t('quickEntry.menuItem')} onSelect={() => onOpenDialog('quickEntry')}>
+              <TextCursorInput />
+              <span>{t('quickEntry.menuItem')}</span>
+            </CommandItem>
+          </>
+        )}
+        {isActive && (
+          <>
+            <CommandItem value={t('contextMenu.timerActive.details')} onSelect={() => onOpenDialog('details')}>
+              <Info />
+              <span>{t('contextMenu.timerActive.details')}</span>
+            </CommandItem>
+            <CommandItem value={t('contextMenu.timerActive.swapCard')} onSelect={onShowSwap}>
+              <ArrowLeftRight />
+              <span>{t('contextMenu.timerActive.swapCard')}</span>
+            </CommandItem>
+            <CommandItem value={isOpen ? t('contextMenu.timerActive.checkout') : t('contextMenu.timerActive.reset')} onSelect={run(clearTimer)}>
+              <RotateCcw />
+              <span>{isOpen ? t('contextMenu.timerActive.checkout') : t('contextMenu.timerActive.reset')}</span>
+            </CommandItem>
+          </>
+        )}
+      </CommandGroup>
+    </>
+  );
+}
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  editMode,
+  onToggleEditMode,
+  muted,
+  onToggleAudio,
+}: CommandPaletteProps) {
+  const { t } = useI18n();
+  const { setTheme } = useTheme();
+  const { getAllCards, highlightCard, requestCardDialog } = useAppStore();
+  const exportData = useDataExport();
+  const getStatus = useStationStatus();
+  const [page, setPage] = useState<PalettePage>('root');
+  const [station, setStation] = useState<CardRef | null>(null);
+  const [search, setSearch] = useState('');
+
+  // Stations grouped by section, in board order
+  const sections = useMemo(() => {
+    const grouped = new Map<number, ReturnType<typeof getAllCards>>();
+    getAllCards().forEach((item) => {
+      grouped.set(item.sectionId, [...(grouped.get(item.sectionId) ?? []), item]);
+    });
+    return grouped;
+  }, [getAllCards]);
+
+  const goTo = (next: PalettePage) => {
+    setPage(next);
+    setSearch('');
+  };
+
+  // Every open starts again from the station list
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setPage('root');
+      setStation(null);
+      setSearch('');
+    }
+    onOpenChange(next);
+  };
+
+  const close = () => handleOpenChange(false);
+
+  const handleSelectStation = (ref: CardRef) => {
+    setStation(ref);
+    highlightCard(ref);
+    goTo('station');
+  };
+
+  // Backspace on an empty search goes back one page
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Backspace' || search || page === 'root') return;
+    e.preventDefault();
+    goTo(page === 'swap' ? 'station' : 'root');
+  };
+
+  // Runs a global action and closes the palette
+  const run = (action: () => void) => () => {
+    action();
+    close();
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={handleOpenChange}
+      title={t('commandPalette.title')}
+      description={t('commandPalette.description')}
+      showCloseButton={false}
+    >
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        onKeyDown={handleKeyDown}
+        placeholder={page === 'root' ? t('commandPalette.placeholder') : t('commandPalette.stationPlaceholder')}
+      />
+      <CommandList>
+        <CommandEmpty>{t('commandPalette.empty')}</CommandEmpty>
+
+        {page !== 'root' && station ? (
+          <StationCommands
+            station={station}
+            page={page}
+            onShowSwap={() => goTo('swap')}
+            onOpenDialog={(dialog) => {
+              close();
+              requestCardDialog(station, dialog);
+            }}
+            onDone={close}
+          />
+        ) : (
+          <>
+            {Array.from(sections.values()).map((items) => (
+              <CommandGroup key={items[0].sectionId} heading={items[0].sectionName}>
+                {items.map(({ sectionId, sectionName, card }) => (
+                  <CommandItem
+                    key={card.id}
+                    value={`${card.name} ${sectionName}`}
+                    onSelect={() => handleSelectStation({ sectionId, cardId: card.id })}
+                  >
+                    <Monitor />
+                    <span>{card.name}</span>
+                    <CommandShortcut>{getStatus(card)}</CommandShortcut>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+
+            <CommandSeparator />
+
+            <CommandGroup heading={t('commandPalette.global')}>
+              <CommandItem value={t('header.toggleEditMode')} onSelect={run(onToggleEditMode)}>
+                {editMode ? <Check /> : <PencilRuler />}
+                <span>{editMode ? t('header.saveChanges') : t('header.toggleEditMode')}</span>
+                <CommandShortcut>
+                  <KbdGroup>
+                    <Kbd>Ctrl</Kbd>
+                    <Kbd>E</Kbd>
+                  </KbdGroup>
+                </CommandShortcut>
+              </CommandItem>
+              <CommandItem value={t('header.toggleAudio')} keywords={[t('commandPalette.mute'), t('commandPalette.unmute')]} onSelect={run(onToggleAudio)}>
+                {muted ? <Volume2 /> : <VolumeX />}
+                <span>{muted ? t('commandPalette.unmute') : t('commandPalette.mute')}</span>
+                <CommandShortcut>
+                  <KbdGroup>
+                    <Kbd>Ctrl</Kbd>
+                    <Kbd>M</Kbd>
+                  </KbdGroup>
+                </CommandShortcut>
+              </CommandItem>
+              <CommandItem value={t('commandPalette.theme', { name: t('header.theme.light') })} onSelect={run(() => setTheme('light'))}>
+                <Sun />
+                <span>{t('commandPalette.theme', { name: t('header.theme.light') })}</span>
+              </CommandItem>
+              <CommandItem value={t('commandPalette.theme', { name: t('header.theme.dark') })} onSelect={run(() => setTheme('dark'))}>
+                <Moon />
+                <span>{t('commandPalette.theme', { name: t('header.theme.dark') })}</span>
+              </CommandItem>
+              <CommandItem value={t('commandPalette.theme', { name: t('header.theme.system') })} onSelect={run(() => setTheme('system'))}>
+                <Monitor />
+                <span>{t('commandPalette.theme', { name: t('header.theme.system') })}</span>
+              </CommandItem>
+              <CommandItem value={t('transfer.export')} onSelect={run(exportData)}>
+                <FileDown />
+                <span>{t('transfer.export')}</span>
+              </CommandItem>
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Dialog to manage customers and their prepaid balances
+ * Customers are created by name and topped up with prepaid packages
+ */
+
+"use client";
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { useAppStore } from '@/store/app-store';
+import { PREPAID_PACKAGES, formatBalance } from '@/features/customers';
+
+interface CustomersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CustomersDialog({ open, onOpenChange }: CustomersDialogProps) {
+  const { t } = useI18n();
+  const {
+    customers,
+    addCustomer,
+    updateCustomerName,
+    topUpCustomer,
+    deleteCustomer,
+    getCustomerAvailableMinutes,
+  } = useAppStore();
+  const [newName, setNewName] = useState('');
+
+  const handleAddCustomer = () => {
+    const name = newName.trim();
+    if (!name) return;
+    addCustomer(name);
+    setNewName('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {t('customers.title')}
+          </DialogTitle>
+          <DialogDescription>{t('customers.description')}</DialogDescription>
+        </DialogHeader>
+
+        {/* New customer */}
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAddCustomer();
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t('customers.namePlaceholder')}
+          />
+          <Button type="submit" disabled={!newName.trim()}>
+            <Plus />
+            {t('customers.add')}
+          </Button>
+        </form>
+
+        {/* Customer list */}
+        <div className="flex-1 overflow-y-auto grid gap-2 pr-1">
+          {customers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">{t('customers.empty')}</p>
+          ) : (
+            customers.map((customer) => {
+              const available = getCustomerAvailableMinutes(customer.id);
+              return (
+                <div key={customer.id} className="rounded-lg border bg-card p-3 grid gap-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={customer.name}
+                      onChange={(e) => updateCustomerName(customer.id, e.target.value)}
+                      className="h-8"
+                      aria-label={t('customers.name')}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteCustomer(customer.id)}
+                      aria-label={t('customers.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">{t('customers.balance')}: </span>
+                      <span className={`font-semibold ${customer.balanceMinutes < 0 ? 'text-destructive' : ''}`}>
+                        {formatBalance(customer.balanceMinutes)}
+                      </span>
+                      {available !== customer.balanceMinutes && (
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {t('customers.available', { balance: formatBalance(available) })}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      {PREPAID_PACKAGES.map((minutes) => (
+                        <Button
+                          key={minutes}
+                          variant="outline"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => topUpCustomer(customer.id, minutes)}
+                        >
+                          {t('customers.topUp', { hours: minutes / 60 })}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
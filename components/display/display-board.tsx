@@ -0,0 +1,109 @@
+/**
+ * Customer display board
+ * Large, high-contrast view of every station's remaining time, without controls
+ * Follows the operator window live, see AppStoreProvider readOnly
+ */
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Pause } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { useTimerCalculations } from '@/hooks/use-timer-calculations';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
+import { getCurrentTimeString } from '@/lib/utils/time';
+import type { AlertSettings, UserCard } from '@/types';
+import { Logo } from '@/components/layout/logo';
+
+// Tile colors for each progress variant of a running timer
+const VARIANT_STYLES = {
+  default: 'border-green-500 text-green-400',
+  warning: 'border-yellow-400 text-yellow-300',
+  orange: 'border-orange-500 text-orange-400',
+  destructive: 'border-red-500 text-red-400',
+} as const;
+
+interface DisplayStationProps {
+  card: UserCard;
+  alertSettings: AlertSettings;
+}
+
+function DisplayStation({ card, alertSettings }: DisplayStationProps) {
+  const { t } = useI18n();
+  const { remainingTime, isExpired, isPaused, progressVariant } = useTimerCalculations(card.timer, {
+    alertSettings,
+    silent: true,
+  });
+  const isRunning = !!card.timer?.isActive && (!!card.timer.endTime || !!card.timer.openEnded);
+
+  let style = 'border-neutral-700 text-neutral-400';
+  if (isExpired) {
+    style = 'border-red-500 bg-red-500/20 text-red-300 animate-pulse';
+  } else if (isPaused) {
+    style = 'border-sky-500 text-sky-300';
+  } else if (isRunning) {
+    style = VARIANT_STYLES[progressVariant ?? 'default'];
+  }
+
+  return (
+    <div className={`rounded-2xl border-4 p-5 flex flex-col gap-2 ${style}`}>
+      <span className="text-2xl font-bold text-white truncate">{card.name}</span>
+      {isRunning ? (
+        <span className="text-6xl font-mono font-bold tabular-nums flex items-center gap-3">
+          {isPaused && <Pause className="h-10 w-10 shrink-0" />}
+          {isExpired ? t('display.expired') : remainingTime}
+        </span>
+      ) : (
+        <span className="text-4xl font-bold uppercase">{t('display.free')}</span>
+      )}
+    </div>
+  );
+}
+
+export function DisplayBoard() {
+  const { t } = useI18n();
+  const { sections, getCardsBySection, getAlertSettings } = useAppStore();
+  const { timezone } = useSettings();
+  const [timeString, setTimeString] = useState(() => getCurrentTimeString(timezone));
+
+  useEffect(() => {
+    const interval = setInterval(() => setTimeString(getCurrentTimeString(timezone)), 1000);
+    return () => clearInterval(interval);
+  }, [timezone]);
+
+  const visibleSections = sections.filter((section) => getCardsBySection(section.id).length > 0);
+
+  return (
+    <main className="fixed inset-0 overflow-y-auto bg-black text-white p-8 flex flex-col gap-8 select-none cursor-none">
+      <header className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Logo className="w-16 h-16" />
+          <h1 className="text-4xl font-bold">{t('header.title')}</h1>
+        </div>
+        <span className="text-5xl font-mono font-bold tabular-nums" suppressHydrationWarning>
+          {timeString}
+        </span>
+      </header>
+
+      {visibleSections.length === 0 ? (
+        <p className="text-3xl text-neutral-400 text-center py-24">{t('display.empty')}</p>
+      ) : (
+        visibleSections.map((section) => (
+          <section key={section.id} className="flex flex-col gap-4">
+            <h2 className="text-3xl font-bold text-neutral-200">{section.name}</h2>
+            <div className="grid grid-cols-[repeat(auto-fill,minmax(18rem,1fr))] gap-4">
+              {getCardsBySection(section.id).map((card) => (
+                <DisplayStation
+                  key={card.id}
+                  card={card}
+                  alertSettings={getAlertSettings(section.id)}
+                />
+              ))}
+            </div>
+          </section>
+        ))
+      )}
+    </main>
+  );
+}
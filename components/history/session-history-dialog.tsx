@@ -0,0 +1,214 @@
+/**
+ * Dialog showing the session history ledger
+ * Filters sessions by day and station so the front desk can reconcile at closing time
+ */
+
+"use client";
+
+import { useState, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { History, Printer, Search } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
+import { filterSessionRecords, summarizeAdjustments } from '@/features/history';
+import { formatAmount } from '@/features/billing';
+import { printWindow } from '@/lib/ipc/electron-client';
+import type { SessionEndReason } from '@/types';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+interface SessionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const END_REASON_CLASSNAMES: Record<SessionEndReason, string> = {
+  expired: 'bg-destructive/10 text-destructive',
+  reset: 'bg-muted text-muted-foreground',
+  swapped: 'bg-primary/10 text-primary',
+  checkout: 'bg-green-500/10 text-green-600 dark:text-green-400',
+};
+
+/**
+ * Formats minutes as "Xh YYm"
+ */
+function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+}
+
+/**
+ * Session history with day and station filters
+ * Shows totals for the filtered sessions
+ */
+export function SessionHistoryDialog({ open, onOpenChange }: SessionHistoryDialogProps) {
+  const { t, locale } = useI18n();
+  const { sessionHistory } = useAppStore();
+  const { timezone } = useSettings();
+  const [day, setDay] = useState(() => dayjs().tz(timezone).format('YYYY-MM-DD'));
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const records = useMemo(
+    () => filterSessionRecords(sessionHistory, { day, query: searchQuery }, timezone),
+    [sessionHistory, day, searchQuery, timezone]
+  );
+
+  const totalPlayedMinutes = useMemo(
+    () => records.reduce((sum, record) => sum + record.playedMinutes, 0),
+    [records]
+  );
+
+  const totalAmount = useMemo(
+    () => records.reduce((sum, record) => sum + (record.amount ?? 0), 0),
+    [records]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t('sessionHistory.title')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('sessionHistory.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Filtri */}
+        <div className="grid grid-cols-2 gap-2 print:hidden">
+          <div className="grid gap-2">
+            <Label htmlFor="history-day" className="text-xs text-muted-foreground">
+              {t('sessionHistory.filters.day')}
+            </Label>
+            <div className="flex gap-1">
+              <Input
+                id="history-day"
+                type="date"
+                value={day}
+                onChange={(e) => setDay(e.target.value)}
+              />
+              <Button variant="ghost" size="sm" onClick={() => setDay('')} disabled={!day}>
+                {t('sessionHistory.filters.allDays')}
+              </Button>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="history-search" className="text-xs text-muted-foreground">
+              {t('sessionHistory.filters.station')}
+            </Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="history-search"
+                type="text"
+                placeholder={t('sessionHistory.filters.stationPlaceholder')}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Elenco sessioni */}
+        <div className="flex-1 overflow-y-auto min-h-0 space-y-2 print:overflow-visible">
+          {records.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              {t('sessionHistory.empty')}
+            </div>
+          ) : (
+            records.map((record) => {
+              const { added, removed } = summarizeAdjustments(record);
+              return (
+                <div key={record.id} className="p-3 rounded-lg border bg-card grid gap-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-medium truncate">
+                      {record.cardName}
+                      {record.sectionName && (
+                        <span className="text-xs text-muted-foreground uppercase ml-2">
+                          {record.sectionName}
+                        </span>
+                      )}
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded-full shrink-0 ${END_REASON_CLASSNAMES[record.endReason]}`}>
+                      {t(`sessionHistory.endReasons.${record.endReason}`)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>
+                      {dayjs(record.startTime).tz(timezone).format('DD/MM HH:mm')}
+                      {' – '}
+                      {dayjs(record.endTime).tz(timezone).format('HH:mm')}
+                    </span>
+                    <span className="font-semibold text-foreground">
+                      {formatMinutes(record.playedMinutes)}
+                      {record.amount != null && (
+                        <span className="ml-2">{formatAmount(record.amount, locale)}</span>
+                      )}
+                    </span>
+                  </div>
+                  {(added > 0 || removed > 0 || record.swappedWith || record.customerName) && (
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                      {record.customerName && (
+                        <span>{t('sessionHistory.fields.customer', { name: record.customerName })}</span>
+                      )}
+                      {added > 0 && <span>{t('sessionHistory.fields.added', { minutes: added })}</span>}
+                      {removed > 0 && <span>{t('sessionHistory.fields.removed', { minutes: removed })}</span>}
+                      {record.swappedWith && (
+                        <span>
+                          {t('sessionHistory.fields.swappedWith', {
+                            name: record.swappedWith.cardName,
+                          })}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Totali */}
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {t('sessionHistory.totals.sessions', { count: records.length })}
+          </span>
+          <span className="font-semibold">
+            {t('sessionHistory.totals.played', { duration: formatMinutes(totalPlayedMinutes) })}
+            {' · '}
+            {t('sessionHistory.totals.amount', { amount: formatAmount(totalAmount, locale) })}
+          </span>
+        </div>
+
+        {/* Stampa dell'elenco filtrato, per la chiusura cassa */}
+        <Button variant="outline" className="print:hidden" onClick={() => void printWindow()}>
+          <Printer className="h-4 w-4 mr-2" />
+          {t('sessionHistory.print')}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
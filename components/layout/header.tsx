@@ -15,23 +15,46 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { Kbd, KbdGroup } from '@/components/ui/kbd';
-import { PencilRuler, Moon, Sun, Check, Volume2, VolumeX, Play } from 'lucide-react';
+import { PencilRuler, Moon, Sun, Check, Volume2, VolumeX, Play, History, Users, CalendarDays, ListOrdered, Settings, MonitorPlay, CloudOff, Search } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { getCurrentTimeStringWithSeconds } from '@/lib/utils/time';
 import { useI18n } from '@/hooks/use-i18n';
 import { useAudio } from '@/hooks/use-audio';
 import { useGlobalShortcuts } from '@/hooks/use-global-shortcuts';
+import { useQueuePlan, useQueueAlerts } from '@/hooks/use-queue-plan';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
 import { toast } from 'sonner';
 import type { HeaderProps } from '@/types';
 import { Logo } from './logo';
+import { SessionHistoryDialog } from '@/components/history/session-history-dialog';
+import { CustomersDialog } from '@/components/customers/customers-dialog';
+import { ReservationsDialog } from '@/components/reservations/reservations-dialog';
+import { QueueDialog } from '@/components/queue/queue-dialog';
+import { SettingsDialog } from '@/components/settings/settings-dialog';
+import { DataTransferMenu } from '@/components/transfer/data-transfer-menu';
+import { CommandPalette } from '@/components/command/command-palette';
 import { initializeAudio, playTimerExpiredSound } from '@/lib/utils/sound';
+import { openDisplayWindow } from '@/lib/ipc/electron-client';
 
 export function Header({ editMode, toggleEditMode }: HeaderProps) {
   const { setTheme } = useTheme();
   const { t } = useI18n();
   const { muted, toggle: toggleAudio } = useAudio();
-  const [timeString, setTimeString] = useState(getCurrentTimeStringWithSeconds());
+  const { timezone } = useSettings();
+  const [timeString, setTimeString] = useState(() => getCurrentTimeStringWithSeconds(timezone));
   const [mounted, setMounted] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [customersDialogOpen, setCustomersDialogOpen] = useState(false);
+  const [reservationsDialogOpen, setReservationsDialogOpen] = useState(false);
+  const [queueDialogOpen, setQueueDialogOpen] = useState(false);
+  const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
+  const { queue, syncServerStatus } = useAppStore();
+
+  // Station suggestions for the waiting queue, with a toast when a party can be seated
+  const queuePlan = useQueuePlan();
+  useQueueAlerts(queuePlan);
 
   // Initialize audio on mount to unlock playback and set mounted flag
   useEffect(() => {
@@ -42,11 +65,11 @@ export function Header({ editMode, toggleEditMode }: HeaderProps) {
   // Update time every second
   useEffect(() => {
     const interval = setInterval(() => {
-      setTimeString(getCurrentTimeStringWithSeconds());
+      setTimeString(getCurrentTimeStringWithSeconds(timezone));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [timezone]);
 
   /**
    * Wrapper for toggleAudio that shows toast notification
@@ -59,9 +82,12 @@ export function Header({ editMode, toggleEditMode }: HeaderProps) {
     toggleAudio();
   }, [muted, toggleAudio, t]);
 
+  const handleOpenCommandPalette = useCallback(() => setCommandPaletteOpen(true), []);
+
   // Register global keyboard shortcuts
   useGlobalShortcuts({
     onToggleAudio: handleToggleAudio,
+    onOpenCommandPalette: handleOpenCommandPalette,
   });
 
   return (
@@ -79,6 +105,155 @@ export function Header({ editMode, toggleEditMode }: HeaderProps) {
         <span className="select-none px-2 text-center text-sm sm:block hidden">
           {mounted ? timeString : '00:00:00'}
         </span>
+        {syncServerStatus === 'offline' && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="px-2 text-destructive">
+                  <CloudOff className="h-[1.2rem] w-[1.2rem]" />
+                  <span className="sr-only">{t('header.syncOffline')}</span>
+                </span>
+              </TooltipTrigger>
+              <TooltipContent>
+                <span>{t('header.syncOffline')}</span>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleOpenCommandPalette}
+              >
+                <Search className="h-[1.2rem] w-[1.2rem]" />
+                <span className="sr-only">{t('commandPalette.open')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <div className="flex items-center gap-2">
+                <span>{t('commandPalette.open')}</span>
+                <KbdGroup>
+                  <Kbd>Ctrl</Kbd>
+                  <Kbd>K</Kbd>
+                </KbdGroup>
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+        <DataTransferMenu />
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setCustomersDialogOpen(true)}
+              >
+                <Users className="h-[1.2rem] w-[1.2rem]" />
+                <span className="sr-only">{t('header.customers')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span>{t('header.customers')}</span>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setReservationsDialogOpen(true)}
+              >
+                <CalendarDays className="h-[1.2rem] w-[1.2rem]" />
+                <span className="sr-only">{t('header.reservations')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span>{t('header.reservations')}</span>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className="relative"
+                onClick={() => setQueueDialogOpen(true)}
+              >
+                <ListOrdered className="h-[1.2rem] w-[1.2rem]" />
+                {queue.length > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold leading-4 text-center">
+                    {queue.length}
+                  </span>
+                )}
+                <span className="sr-only">{t('header.queue')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span>{t('header.queue')}</span>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setHistoryDialogOpen(true)}
+              >
+                <History className="h-[1.2rem] w-[1.2rem]" />
+                <span className="sr-only">{t('header.sessionHistory')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span>{t('header.sessionHistory')}</span>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => openDisplayWindow()}
+              >
+                <MonitorPlay className="h-[1.2rem] w-[1.2rem]" />
+                <span className="sr-only">{t('header.display')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span>{t('header.display')}</span>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setSettingsDialogOpen(true)}
+              >
+                <Settings className="h-[1.2rem] w-[1.2rem]" />
+                <span className="sr-only">{t('header.settings')}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span>{t('header.settings')}</span>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -146,6 +321,19 @@ export function Header({ editMode, toggleEditMode }: HeaderProps) {
           </Tooltip>
         </TooltipProvider>
       </div>
+      <SessionHistoryDialog open={historyDialogOpen} onOpenChange={setHistoryDialogOpen} />
+      <CustomersDialog open={customersDialogOpen} onOpenChange={setCustomersDialogOpen} />
+      <ReservationsDialog open={reservationsDialogOpen} onOpenChange={setReservationsDialogOpen} />
+      <QueueDialog open={queueDialogOpen} onOpenChange={setQueueDialogOpen} plan={queuePlan} />
+      <SettingsDialog open={settingsDialogOpen} onOpenChange={setSettingsDialogOpen} />
+      <CommandPalette
+        open={commandPaletteOpen}
+        onOpenChange={setCommandPaletteOpen}
+        editMode={editMode}
+        onToggleEditMode={toggleEditMode}
+        muted={muted}
+        onToggleAudio={handleToggleAudio}
+      />
     </header>
   );
 }
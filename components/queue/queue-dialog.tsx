@@ -0,0 +1,249 @@
+/**
+ * Waiting queue: parties waiting for a station, in arrival order
+ * Each party gets the next free or soonest-to-expire stations suggested and can be seated on them
+ */
+
+"use client";
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, Hourglass, ListOrdered, Plus, Trash2, Armchair } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/hooks/use-i18n';
+import { useAppStore } from '@/store/app-store';
+import type { QueueSuggestion } from '@/features/queue';
+import type { CardRef, QueueEntry } from '@/types';
+import dayjs from 'dayjs';
+
+const QUICK_DURATIONS = [30, 60, 120, 180];
+
+interface QueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: Map<number, QueueSuggestion>;
+}
+
+export function QueueDialog({ open, onOpenChange, plan }: QueueDialogProps) {
+  const { t } = useI18n();
+  const {
+    queue,
+    sections,
+    getAllCards,
+    addQueueEntry,
+    removeQueueEntry,
+    seatQueueEntry,
+  } = useAppStore();
+
+  // New party form
+  const [name, setName] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [partySize, setPartySize] = useState(1);
+  const [preferredSectionId, setPreferredSectionId] = useState<number | undefined>(undefined);
+
+  const allCards = getAllCards();
+
+  const stationNames = (stations: CardRef[]) =>
+    stations
+      .map((ref) => {
+        const item = allCards.find((i) => i.sectionId === ref.sectionId && i.card.id === ref.cardId);
+        return item ? `${item.sectionName} · ${item.card.name}` : '';
+      })
+      .join(', ');
+
+  const handleAdd = () => {
+    const trimmed = name.trim();
+    if (!trimmed || durationMinutes <= 0 || partySize < 1) return;
+
+    addQueueEntry({
+      name: trimmed,
+      durationMinutes,
+      partySize,
+      ...(preferredSectionId !== undefined ? { preferredSectionId } : {}),
+    });
+    setName('');
+    setPartySize(1);
+  };
+
+  const handleSeat = (entry: QueueEntry, suggestion: QueueSuggestion) => {
+    if (seatQueueEntry(entry.id, suggestion.stations)) {
+      toast.success(t('queue.seated', { name: entry.name }), {
+        description: stationNames(suggestion.stations),
+      });
+    } else {
+      toast.error(t('queue.seatFailed'));
+    }
+  };
+
+  const describeSuggestion = (suggestion: QueueSuggestion | undefined) => {
+    if (!suggestion) return t('queue.noStations');
+    const stations = stationNames(suggestion.stations);
+    return suggestion.waitSeconds === 0
+      ? t('queue.freeNow', { stations })
+      : t('queue.freeIn', { minutes: Math.ceil(suggestion.waitSeconds / 60), stations });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            {t('queue.title')}
+          </DialogTitle>
+          <DialogDescription>{t('queue.description')}</DialogDescription>
+        </DialogHeader>
+
+        {/* New party */}
+        <form
+          className="rounded-lg border bg-muted/50 p-3 grid gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <div className="grid grid-cols-[1fr_auto] gap-2">
+            <div className="grid gap-1">
+              <Label htmlFor="queue-name" className="text-xs text-muted-foreground">{t('queue.name')}</Label>
+              <Input
+                id="queue-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('queue.namePlaceholder')}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="queue-party-size" className="text-xs text-muted-foreground">{t('queue.partySize')}</Label>
+              <Input
+                id="queue-party-size"
+                type="number"
+                min={1}
+                className="w-20"
+                value={partySize}
+                onChange={(e) => setPartySize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-1">
+            <Label className="text-xs text-muted-foreground">{t('queue.duration')}</Label>
+            <div className="flex gap-2 items-center">
+              {QUICK_DURATIONS.map((minutes) => (
+                <Button
+                  key={minutes}
+                  type="button"
+                  size="sm"
+                  variant={durationMinutes === minutes ? 'default' : 'outline'}
+                  onClick={() => setDurationMinutes(minutes)}
+                >
+                  {t('bulk.duration', { minutes })}
+                </Button>
+              ))}
+              <Input
+                type="number"
+                min={1}
+                className="w-24"
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                aria-label={t('queue.durationMinutes')}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-1">
+            <Label className="text-xs text-muted-foreground">{t('queue.preferredSection')}</Label>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" className="justify-between font-normal">
+                  {sections.find((s) => s.id === preferredSectionId)?.name ?? t('queue.anySection')}
+                  <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => setPreferredSectionId(undefined)}>
+                  {t('queue.anySection')}
+                </DropdownMenuItem>
+                {sections.map((section) => (
+                  <DropdownMenuItem key={section.id} onClick={() => setPreferredSectionId(section.id)}>
+                    {section.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          <Button type="submit" disabled={!name.trim() || durationMinutes <= 0}>
+            <Plus />
+            {t('queue.add')}
+          </Button>
+        </form>
+
+        {/* Queue, in arrival order */}
+        <div className="flex-1 overflow-y-auto grid gap-2 pr-1">
+          {queue.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">{t('queue.empty')}</p>
+          ) : (
+            queue.map((entry, index) => {
+              const suggestion = plan.get(entry.id);
+              const canSeat = suggestion?.waitSeconds === 0;
+              return (
+                <div
+                  key={entry.id}
+                  className={`rounded-lg border p-3 flex items-center gap-3 ${canSeat ? 'border-primary/50 bg-primary/5' : 'bg-card'}`}
+                >
+                  <span className="text-lg font-bold text-muted-foreground w-6 text-center">{index + 1}</span>
+                  <div className="flex-1 min-w-0 grid gap-0.5">
+                    <span className="font-semibold truncate">
+                      {entry.name}
+                      <span className="text-xs text-muted-foreground font-normal ml-2">
+                        {t('queue.entryDetails', {
+                          count: entry.partySize,
+                          minutes: entry.durationMinutes,
+                          waited: dayjs().diff(dayjs(entry.addedAt), 'minute'),
+                        })}
+                      </span>
+                    </span>
+                    <span className={`text-xs flex items-center gap-1 ${canSeat ? 'text-primary' : 'text-muted-foreground'}`}>
+                      <Hourglass className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{describeSuggestion(suggestion)}</span>
+                    </span>
+                  </div>
+                  <Button
+                    size="sm"
+                    disabled={!canSeat}
+                    onClick={() => suggestion && handleSeat(entry, suggestion)}
+                  >
+                    <Armchair className="h-4 w-4" />
+                    {t('queue.seat')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeQueueEntry(entry.id)}
+                    aria-label={t('queue.remove')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,396 @@
+/**
+ * Booking calendar: day and week view of station reservations
+ * New reservations are checked against other bookings and running timers before saving
+ */
+
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { AlertTriangle, CalendarDays, ChevronDown, LogIn, Plus, Trash2, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/hooks/use-i18n';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
+import { zonedTimeToISO } from '@/lib/utils/time';
+import {
+  findReservationConflicts,
+  getReservationsInRange,
+  type NewReservation,
+  type ReservationConflict,
+} from '@/features/reservations';
+import type { CardRef, Reservation } from '@/types';
+import dayjs, { type Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+type CalendarView = 'day' | 'week';
+
+const CALENDAR_VIEWS: CalendarView[] = ['day', 'week'];
+
+interface ReservationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Converts a date picked in the calendar to the start of that day in a time zone
+ * Days are counted on the calendar date, so a DST change never moves midnight
+ */
+function toDayStart(date: Date, timezone: string, offsetDays = 0): Dayjs {
+  return dayjs.tz(dayjs(date).add(offsetDays, 'day').format('YYYY-MM-DD'), timezone);
+}
+
+/**
+ * Converts a timestamp to a local date for calendar modifiers
+ */
+function toCalendarDate(timestamp: string, timezone: string): Date {
+  const day = dayjs(timestamp).tz(timezone);
+  return new Date(day.year(), day.month(), day.date());
+}
+
+export function ReservationsDialog({ open, onOpenChange }: ReservationsDialogProps) {
+  const { t, locale } = useI18n();
+  const {
+    reservations,
+    addReservation,
+    deleteReservation,
+    checkInReservation,
+    getAllCards,
+    customers,
+  } = useAppStore();
+  const { timezone } = useSettings();
+
+  const [selectedDate, setSelectedDate] = useState<Date>(() => new Date());
+  const [view, setView] = useState<CalendarView>('day');
+
+  // New reservation form
+  const [name, setName] = useState('');
+  const [station, setStation] = useState<CardRef | null>(null);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [customerId, setCustomerId] = useState<number | undefined>(undefined);
+
+  const allCards = getAllCards();
+
+  const findStation = (sectionId: number, cardId: number) =>
+    allCards.find((item) => item.sectionId === sectionId && item.card.id === cardId);
+
+  // Days shown by the current view (the week starts on Monday), each with the start of the next one
+  // (a DST day lasts 23 or 25 hours)
+  const days = useMemo(() => {
+    const firstOffset = view === 'day' ? 0 : -((selectedDate.getDay() + 6) % 7);
+    return Array.from({ length: view === 'day' ? 1 : 7 }, (_, index) => ({
+      start: toDayStart(selectedDate, timezone, firstOffset + index),
+      end: toDayStart(selectedDate, timezone, firstOffset + index + 1),
+    }));
+  }, [selectedDate, view, timezone]);
+
+  const bookedDays = useMemo(
+    () => reservations.map((reservation) => toCalendarDate(reservation.startTime, timezone)),
+    [reservations, timezone]
+  );
+
+  // Reservation described by the form, once complete
+  const draft = useMemo((): NewReservation | null => {
+    if (!name.trim() || !station || !startTime || !endTime) return null;
+
+    const day = dayjs(selectedDate).format('YYYY-MM-DD');
+    const start = zonedTimeToISO(day, startTime, timezone);
+    let end = zonedTimeToISO(day, endTime, timezone);
+    if (!start || !end) return null;
+    // An end time before the start means the booking ends after midnight
+    if (!dayjs(end).isAfter(start)) {
+      end = zonedTimeToISO(dayjs(selectedDate).add(1, 'day').format('YYYY-MM-DD'), endTime, timezone);
+    }
+
+    return {
+      name: name.trim(),
+      sectionId: station.sectionId,
+      cardId: station.cardId,
+      startTime: start,
+      endTime: end,
+      ...(customerId !== undefined ? { customerId } : {}),
+    };
+  }, [name, station, startTime, endTime, selectedDate, customerId, timezone]);
+
+  const getConflicts = (reservation: NewReservation & { id?: number }): ReservationConflict[] =>
+    findReservationConflicts(
+      reservation,
+      reservations,
+      findStation(reservation.sectionId, reservation.cardId)?.card.timer
+    );
+
+  const draftConflicts = draft ? getConflicts(draft) : [];
+
+  const describeConflict = (conflict: ReservationConflict) =>
+    conflict.kind === 'reservation'
+      ? t('reservations.conflicts.reservation', {
+          name: conflict.reservation.name,
+          start: dayjs(conflict.reservation.startTime).tz(timezone).format('DD/MM HH:mm'),
+          end: dayjs(conflict.reservation.endTime).tz(timezone).format('HH:mm'),
+        })
+      : conflict.endTime
+        ? t('reservations.conflicts.timer', {
+            end: dayjs(conflict.endTime).tz(timezone).format('DD/MM HH:mm'),
+          })
+        : t('reservations.conflicts.timerOpen');
+
+  const handleAdd = () => {
+    if (!draft || draftConflicts.length > 0) return;
+    addReservation(draft);
+    toast.success(t('reservations.added', { name: draft.name }));
+    setName('');
+    setStartTime('');
+    setEndTime('');
+    setCustomerId(undefined);
+  };
+
+  const handleCheckIn = (reservation: Reservation) => {
+    if (checkInReservation(reservation.id)) {
+      toast.success(t('reservations.checkedIn', { name: reservation.name }));
+    } else {
+      toast.error(t('reservations.checkInFailed'), {
+        description: t('reservations.checkInFailedDescription'),
+      });
+    }
+  };
+
+  const stationLabel = (ref: CardRef) => {
+    const item = findStation(ref.sectionId, ref.cardId);
+    return item ? `${item.sectionName} · ${item.card.name}` : t('reservations.unknownStation');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            {t('reservations.title')}
+          </DialogTitle>
+          <DialogDescription>{t('reservations.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[auto_1fr] min-h-0 flex-1 overflow-y-auto">
+          {/* Calendar and view */}
+          <div className="grid gap-2 content-start">
+            <Calendar
+              mode="single"
+              required
+              selected={selectedDate}
+              onSelect={setSelectedDate}
+              modifiers={{ booked: bookedDays }}
+              modifiersClassNames={{ booked: 'font-bold underline' }}
+              className="rounded-lg border"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              {CALENDAR_VIEWS.map((value) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={view === value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setView(value)}
+                >
+                  {t(`reservations.views.${value}`)}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 content-start min-w-0">
+            {/* Agenda */}
+            <div className="grid gap-3">
+              {days.map((day) => {
+                const dayReservations = getReservationsInRange(
+                  reservations,
+                  day.start.toISOString(),
+                  day.end.toISOString()
+                );
+                return (
+                  <div key={day.start.valueOf()} className="grid gap-1">
+                    <span className="text-sm font-semibold capitalize">
+                      {day.start.toDate().toLocaleDateString(locale, {
+                        weekday: 'long',
+                        day: '2-digit',
+                        month: '2-digit',
+                        timeZone: timezone,
+                      })}
+                    </span>
+                    {dayReservations.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">{t('reservations.emptyDay')}</p>
+                    ) : (
+                      dayReservations.map((reservation) => {
+                        const conflicts = getConflicts(reservation);
+                        const customer = customers.find((c) => c.id === reservation.customerId);
+                        return (
+                          <div
+                            key={reservation.id}
+                            className={`rounded-lg border p-2 flex items-center gap-2 text-sm ${conflicts.length > 0 ? 'border-destructive/40 bg-destructive/5' : 'bg-card'}`}
+                          >
+                            <span className="font-mono text-xs whitespace-nowrap">
+                              {dayjs(reservation.startTime).tz(timezone).format('HH:mm')}–
+                              {dayjs(reservation.endTime).tz(timezone).format('HH:mm')}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                              <div className="font-medium truncate">
+                                {reservation.name}
+                                {customer && (
+                                  <span className="text-xs text-muted-foreground ml-2">
+                                    <User className="inline h-3 w-3" /> {customer.name}
+                                  </span>
+                                )}
+                              </div>
+                              <div className="text-xs text-muted-foreground truncate">{stationLabel(reservation)}</div>
+                              {conflicts.map((conflict, index) => (
+                                <div key={index} className="text-xs text-destructive flex items-center gap-1">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {describeConflict(conflict)}
+                                </div>
+                              ))}
+                            </div>
+                            <Button variant="outline" size="sm" onClick={() => handleCheckIn(reservation)}>
+                              <LogIn className="h-4 w-4" />
+                              {t('reservations.checkIn')}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteReservation(reservation.id)}
+                              aria-label={t('reservations.delete')}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        );
+                      })
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* New reservation on the selected day */}
+            <form
+              className="rounded-lg border bg-muted/50 p-3 grid gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAdd();
+              }}
+            >
+              <span className="text-sm font-semibold">
+                {t('reservations.newTitle', { date: dayjs(selectedDate).format('DD/MM/YYYY') })}
+              </span>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-1">
+                  <Label htmlFor="reservation-name" className="text-xs text-muted-foreground">{t('reservations.name')}</Label>
+                  <Input
+                    id="reservation-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={t('reservations.namePlaceholder')}
+                  />
+                </div>
+                <div className="grid gap-1">
+                  <Label className="text-xs text-muted-foreground">{t('reservations.station')}</Label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button type="button" variant="outline" className="justify-between font-normal">
+                        <span className="truncate">
+                          {station ? stationLabel(station) : t('reservations.chooseStation')}
+                        </span>
+                        <ChevronDown className="h-4 w-4 opacity-50" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+                      {allCards.map((item) => (
+                        <DropdownMenuItem
+                          key={`${item.sectionId}-${item.card.id}`}
+                          onClick={() => setStation({ sectionId: item.sectionId, cardId: item.card.id })}
+                        >
+                          {item.sectionName} · {item.card.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor="reservation-start" className="text-xs text-muted-foreground">{t('reservations.start')}</Label>
+                  <Input id="reservation-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+                </div>
+                <div className="grid gap-1">
+                  <Label htmlFor="reservation-end" className="text-xs text-muted-foreground">{t('reservations.end')}</Label>
+                  <Input id="reservation-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+                </div>
+              </div>
+
+              {customers.length > 0 && (
+                <div className="grid gap-1">
+                  <Label className="text-xs text-muted-foreground">{t('reservations.customer')}</Label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button type="button" variant="outline" className="justify-between font-normal">
+                        <span className="flex items-center gap-2">
+                          <User className="h-4 w-4" />
+                          {customers.find((c) => c.id === customerId)?.name ?? t('addTimeDialog.labels.noCustomer')}
+                        </span>
+                        <ChevronDown className="h-4 w-4 opacity-50" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuItem onClick={() => setCustomerId(undefined)}>
+                        {t('addTimeDialog.labels.noCustomer')}
+                      </DropdownMenuItem>
+                      {customers.map((customer) => (
+                        <DropdownMenuItem key={customer.id} onClick={() => setCustomerId(customer.id)}>
+                          {customer.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
+
+              {draftConflicts.length > 0 && (
+                <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-2 grid gap-1">
+                  <span className="text-sm font-semibold flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {t('reservations.conflictsTitle')}
+                  </span>
+                  {draftConflicts.map((conflict, index) => (
+                    <span key={index} className="text-xs">{describeConflict(conflict)}</span>
+                  ))}
+                </div>
+              )}
+
+              <Button type="submit" disabled={!draft || draftConflicts.length > 0}>
+                <Plus />
+                {t('reservations.add')}
+              </Button>
+            </form>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 "use client"
 
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -13,15 +14,25 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { ListX, Plus } from 'lucide-react';
+import { BellRing, Euro, GripVertical, ListX, Plus } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { UserCard } from '@/components/cards/user-card';
+import { TariffDialog } from '@/components/billing/tariff-dialog';
+import { AlertSettingsDialog } from '@/components/alerts/alert-settings-dialog';
 import { useAppStore } from '@/store';
-import { useSectionCards } from '@/hooks';
+import { useSectionCards, useUndoToast } from '@/hooks';
 import { useI18n } from '@/hooks/use-i18n';
 import type { SectionItemProps } from '@/types';
-import { toast } from 'sonner';
 import { parseShiftTooltip, parseEditButtonTooltip } from '@/lib/utils/text-parser';
+import { formatAmount } from '@/features/billing';
+import {
+  DRAG_TYPES,
+  setDragData,
+  hasDragType,
+  getDragData,
+  type CardDragData,
+  type SectionDragData,
+} from '@/lib/utils/drag';
 
 export function SectionItem({
   editMode,
@@ -29,12 +40,20 @@ export function SectionItem({
   sectionName,
   totalSections,
   hasCards,
+  tariff,
+  alertSettings,
   onSectionNameChange,
+  onSectionTariffChange,
+  onSectionAlertSettingsChange,
   onDeleteSection,
 }: SectionItemProps) {
-  const { addCard, deleteCard } = useAppStore();
+  const { addCard, deleteCard, moveCard, reorderSection, getAlertSettings } = useAppStore();
   const cards = useSectionCards(sectionId);
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
+  const [tariffDialogOpen, setTariffDialogOpen] = useState(false);
+  const [alertsDialogOpen, setAlertsDialogOpen] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const notifyUndoable = useUndoToast();
 
   // Show header only if in editMode or if there's a title to display
   const showHeader = editMode || sectionName !== '';
@@ -42,13 +61,83 @@ export function SectionItem({
   // If last section, "delete section" will delete stations instead of the section
   const isLastSection = totalSections === 1;
 
+  /**
+   * Deletes the section, or its stations if it's the last section
+   * The change is announced with an "Undo" toast
+   */
+  const handleDeleteSection = () => {
+    // If last section with stations, delete all stations
+    if (isLastSection && hasCards) {
+      cards.forEach((card) => {
+        deleteCard(sectionId, card.id);
+      });
+      notifyUndoable(t('section.lastSectionStationsDeleted'), {
+        description: t('section.lastSectionStationsDeletedDescription'),
+      });
+    } else if (!isLastSection && onDeleteSection) {
+      // Otherwise delete section if not the last one
+      onDeleteSection();
+      notifyUndoable(t('undo.sectionDeleted', { name: sectionName }));
+    }
+  };
+
+  /**
+   * Accepts stations (appended to this section) and sections (moved to this position)
+   * Drag and drop is only active in edit mode
+   */
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!editMode) return;
+    if (!hasDragType(e, DRAG_TYPES.card) && !hasDragType(e, DRAG_TYPES.section)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leaving towards a child element
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    // Already handled by a station
+    if (!editMode || e.defaultPrevented) return;
+    e.preventDefault();
+
+    const card = getDragData<CardDragData>(e, DRAG_TYPES.card);
+    if (card) {
+      moveCard(card.sectionId, card.cardId, sectionId);
+      return;
+    }
+
+    const section = getDragData<SectionDragData>(e, DRAG_TYPES.section);
+    if (section) {
+      reorderSection(section.sectionId, sectionId);
+    }
+  };
+
   return (
     <section
-      className="grid gap-2 items-center"
+      className={`grid gap-2 items-center rounded-lg transition-colors ${isDragOver ? 'bg-muted/50 outline-2 outline-dashed outline-primary/50' : ''}`}
       style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(20rem, 1fr))' }}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
     >
       {showHeader && (
         <div className="col-span-full flex items-center justify-between h-10 gap-2">
+          {editMode && (
+            <div
+              draggable
+              onDragStart={(e) => setDragData(e, DRAG_TYPES.section, { sectionId })}
+              className="cursor-grab active:cursor-grabbing text-muted-foreground"
+              aria-label={t('section.dragHandle')}
+              title={t('section.dragHandle')}
+            >
+              <GripVertical className="h-5 w-5" />
+            </div>
+          )}
           {editMode ? (
             <Input
               value={sectionName}
@@ -57,7 +146,32 @@ export function SectionItem({
               placeholder={t('section.name')}
             />
           ) : (
-            sectionName !== '' && <h2 className="font-bold uppercase">{sectionName}</h2>
+            sectionName !== '' && (
+              <h2 className="font-bold uppercase flex items-center gap-2">
+                {sectionName}
+                {tariff && (
+                  <span className="text-xs font-normal normal-case text-muted-foreground">
+                    {t('tariff.perHour', { amount: formatAmount(tariff.hourlyRate, locale) })}
+                  </span>
+                )}
+              </h2>
+            )
+          )}
+
+          {editMode && (
+            <Button variant="outline" className="ml-auto" onClick={() => setTariffDialogOpen(true)}>
+              <Euro className="w-fit" />
+              {tariff
+                ? t('tariff.perHour', { amount: formatAmount(tariff.hourlyRate, locale) })
+                : t('tariff.sectionTariff')}
+            </Button>
+          )}
+
+          {editMode && (
+            <Button variant="outline" onClick={() => setAlertsDialogOpen(true)}>
+              <BellRing className="w-fit" />
+              {alertSettings ? t('alerts.sectionCustom') : t('alerts.sectionAlerts')}
+            </Button>
           )}
 
           {editMode && (
@@ -73,18 +187,7 @@ export function SectionItem({
                           if (e.shiftKey) {
                             e.preventDefault();
                             e.stopPropagation();
-                            // If last section with stations, delete all stations
-                            if (isLastSection && hasCards) {
-                              cards.forEach((card) => {
-                                deleteCard(sectionId, card.id);
-                              });
-                              toast.info(t('section.lastSectionStationsDeleted'), {
-                                description: t('section.lastSectionStationsDeletedDescription'),
-                              });
-                            } else if (!isLastSection && onDeleteSection) {
-                              // Otherwise delete section if not the last one
-                              onDeleteSection();
-                            }
+                            handleDeleteSection();
                           }
                         }}
                       >
@@ -107,20 +210,7 @@ export function SectionItem({
                 <AlertDialogFooter>
                   <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
                   <AlertDialogAction
-                    onClick={() => {
-                      // If last section with stations, delete all stations
-                      if (isLastSection && hasCards) {
-                        cards.forEach((card) => {
-                          deleteCard(sectionId, card.id);
-                        });
-                        toast.info(t('section.lastSectionStationsDeleted'), {
-                          description: t('section.lastSectionStationsDeletedDescription'),
-                        });
-                      } else if (!isLastSection && onDeleteSection) {
-                        // Otherwise delete section if not the last one
-                        onDeleteSection();
-                      }
-                    }}
+                    onClick={handleDeleteSection}
                     className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                   >
                     {t('common.delete')}
@@ -133,6 +223,28 @@ export function SectionItem({
         </div>
       )}
 
+      <TariffDialog
+        open={tariffDialogOpen}
+        onOpenChange={setTariffDialogOpen}
+        title={t('tariff.sectionTitle')}
+        description={t('tariff.sectionDescription', { name: sectionName })}
+        tariff={tariff}
+        removeLabel={t('tariff.remove')}
+        onSave={(value) => onSectionTariffChange?.(value)}
+        onRemove={() => onSectionTariffChange?.(undefined)}
+      />
+
+      <AlertSettingsDialog
+        open={alertsDialogOpen}
+        onOpenChange={setAlertsDialogOpen}
+        title={t('alerts.sectionTitle')}
+        description={t('alerts.sectionDescription', { name: sectionName })}
+        settings={getAlertSettings(sectionId)}
+        removeLabel={t('alerts.useGlobal')}
+        onSave={(value) => onSectionAlertSettingsChange?.(value)}
+        onRemove={alertSettings ? () => onSectionAlertSettingsChange?.(undefined) : undefined}
+      />
+
       {cards.length === 0 ? (
         <div className="col-span-full flex flex-col items-center justify-center py-8 px-4 text-center">
           <p className="text-base font-semibold text-muted-foreground mb-1">
@@ -154,6 +266,8 @@ export function SectionItem({
             progressValue={card.progressValue}
             editMode={editMode}
             timer={card.timer}
+            tariffOverride={card.tariffOverride}
+            groupId={card.groupId}
           />
         ))
       )}
@@ -0,0 +1,387 @@
+/**
+ * Dialog with the application preferences
+ * Language, time zone, the timer presets offered by quick buttons, shortcuts and menus, and the sync server
+ */
+
+"use client";
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Kbd, KbdGroup } from '@/components/ui/kbd';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BellRing, ChevronDown, ChevronUp, Monitor, Plus, Settings, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/hooks/use-i18n';
+import { usePresets } from '@/hooks/use-presets';
+import { useSettings } from '@/store/settings-store';
+import { useAppStore } from '@/store/app-store';
+import { AlertSettingsDialog } from '@/components/alerts/alert-settings-dialog';
+import {
+  SUPPORTED_LOCALES,
+  getAvailableTimezones,
+  getSystemTimezone,
+  isValidTimezone,
+  isValidSyncServerUrl,
+  resolveTimezone,
+} from '@/features/settings';
+import { MAX_PRESET_SHORTCUTS, PRESET_KINDS, createPreset, isValidPreset, withPresetKind } from '@/features/presets';
+import { isValidTimeString } from '@/lib/utils/time';
+import type { AppSettings, TimerPreset } from '@/types';
+import dayjs from 'dayjs';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const REMOVE_DURATION_CHOICES = [5, 10, 15, 20, 30, 45, 60, 90, 120] as const;
+
+/**
+ * Helper to convert string to whole minutes (default 0 if empty/invalid)
+ */
+const parseMinutes = (value: string): number => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+/**
+ * Settings dialog
+ * The form is mounted only while the dialog is open, so it always starts from the current settings
+ */
+export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+  const [alertsDialogOpen, setAlertsDialogOpen] = useState(false);
+  const { t } = useI18n();
+  const { alertSettings, updateAlertSettings } = useAppStore();
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <SettingsForm
+            onClose={() => onOpenChange(false)}
+            onOpenAlerts={() => setAlertsDialogOpen(true)}
+          />
+        </DialogContent>
+      </Dialog>
+      <AlertSettingsDialog
+        open={alertsDialogOpen}
+        onOpenChange={setAlertsDialogOpen}
+        title={t('alerts.globalTitle')}
+        description={t('alerts.globalDescription')}
+        settings={alertSettings}
+        onSave={updateAlertSettings}
+      />
+    </>
+  );
+}
+
+function SettingsForm({ onClose, onOpenAlerts }: { onClose: () => void; onOpenAlerts: () => void }) {
+  const { t, formatDuration } = useI18n();
+  const { settings, updateSettings } = useSettings();
+  const { describePreset } = usePresets();
+  const { syncServerStatus } = useAppStore();
+  const [locale, setLocale] = useState<AppSettings['locale']>(settings.locale);
+  const [timezone, setTimezone] = useState(settings.timezone);
+  const [presets, setPresets] = useState<TimerPreset[]>(settings.presets);
+  const [closingTime, setClosingTime] = useState(settings.closingTime);
+  const [removeDurations, setRemoveDurations] = useState<number[]>(settings.removeDurations);
+  const [syncServerUrl, setSyncServerUrl] = useState(settings.syncServerUrl);
+  const [timezones] = useState(getAvailableTimezones);
+  const systemTimezone = getSystemTimezone();
+
+  // Empty time zone follows this computer
+  const timezoneValid = !timezone || isValidTimezone(timezone);
+  const previewTimezone = resolveTimezone({ ...settings, timezone });
+  const presetsValid = presets.every(isValidPreset) && isValidTimeString(closingTime);
+  const syncServerUrlValid = !syncServerUrl.trim() || isValidSyncServerUrl(syncServerUrl.trim());
+
+  const toggleRemoveDuration = (minutes: number) => {
+    setRemoveDurations((prev) =>
+      prev.includes(minutes) ? prev.filter((m) => m !== minutes) : [...prev, minutes]
+    );
+  };
+
+  const updatePreset = (index: number, preset: TimerPreset) => {
+    setPresets((prev) => prev.map((p, i) => (i === index ? preset : p)));
+  };
+
+  // Moving a preset up also gives it the previous shortcut
+  const movePresetUp = (index: number) => {
+    setPresets((prev) =>
+      prev.map((p, i) => (i === index - 1 ? prev[index] : i === index ? prev[index - 1] : p))
+    );
+  };
+
+  const handleSave = () => {
+    updateSettings({
+      locale,
+      timezone,
+      presets: presets.map((preset) => ({ ...preset, name: preset.name.trim() })),
+      closingTime,
+      removeDurations,
+      syncServerUrl: syncServerUrl.trim(),
+    });
+    toast.success(t('settings.saved'));
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Settings className="h-5 w-5" />
+          {t('settings.title')}
+        </DialogTitle>
+        <DialogDescription>{t('settings.description')}</DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-2">
+        {/* Language */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('settings.labels.language')}</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {SUPPORTED_LOCALES.map((value) => (
+              <Button
+                key={value}
+                type="button"
+                variant={locale === value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLocale(value)}
+              >
+                {t(`settings.languages.${value}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Time zone */}
+        <div className="grid gap-2">
+          <Label htmlFor="settings-timezone" className="text-sm font-medium">
+            {t('settings.labels.timezone')}
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="settings-timezone"
+              list="settings-timezones"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value.trim())}
+              placeholder={previewTimezone}
+              aria-invalid={!timezoneValid}
+            />
+            <datalist id="settings-timezones">
+              {timezones.map((value) => (
+                <option key={value} value={value} />
+              ))}
+            </datalist>
+            {systemTimezone && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setTimezone('')}
+                disabled={!timezone}
+              >
+                <Monitor />
+                {t('settings.useSystemTimezone')}
+              </Button>
+            )}
+          </div>
+          <p className={`text-xs ${timezoneValid ? 'text-muted-foreground' : 'text-destructive'}`}>
+            {!timezoneValid
+              ? t('settings.invalidTimezone')
+              : timezone
+                ? t('settings.timezonePreview', { time: dayjs().tz(previewTimezone).format('HH:mm') })
+                : t('settings.systemTimezonePreview', {
+                    timezone: previewTimezone,
+                    time: dayjs().tz(previewTimezone).format('HH:mm'),
+                  })}
+          </p>
+        </div>
+
+        {/* Timer presets */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('settings.labels.presets')}</Label>
+          {presets.map((preset, index) => (
+            <div key={preset.id} className="flex items-center gap-2">
+              <KbdGroup className="w-16 shrink-0">
+                {index < MAX_PRESET_SHORTCUTS && (
+                  <>
+                    <Kbd>Ctrl</Kbd>
+                    <Kbd>{index + 1}</Kbd>
+                  </>
+                )}
+              </KbdGroup>
+              <Input
+                value={preset.name}
+                onChange={(e) => updatePreset(index, { ...preset, name: e.target.value })}
+                placeholder={describePreset(preset)}
+                aria-label={t('settings.presetName')}
+                className="min-w-0 flex-1"
+              />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button type="button" variant="outline" size="sm" className="w-28 justify-between">
+                    {t(`settings.presetKinds.${preset.kind}`)}
+                    <ChevronDown className="opacity-50" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {PRESET_KINDS.map((kind) => (
+                    <DropdownMenuItem key={kind} onClick={() => updatePreset(index, withPresetKind(preset, kind))}>
+                      {t(`settings.presetKinds.${kind}`)}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {preset.kind === 'duration' && (
+                <Input
+                  type="number"
+                  min="1"
+                  value={preset.minutes || ''}
+                  onChange={(e) => updatePreset(index, { ...preset, minutes: parseMinutes(e.target.value) })}
+                  aria-label={t('settings.presetMinutes')}
+                  aria-invalid={!isValidPreset(preset)}
+                  className="w-[12.5rem]"
+                />
+              )}
+              {preset.kind === 'clock' && (
+                <div className="flex w-[12.5rem] gap-1">
+                  <Input
+                    type="time"
+                    value={preset.startTime ?? ''}
+                    onChange={(e) => updatePreset(index, { ...preset, startTime: e.target.value || undefined })}
+                    aria-label={t('settings.presetStart')}
+                    aria-invalid={!isValidPreset(preset)}
+                  />
+                  <Input
+                    type="time"
+                    value={preset.endTime}
+                    onChange={(e) => updatePreset(index, { ...preset, endTime: e.target.value })}
+                    aria-label={t('settings.presetEnd')}
+                    aria-invalid={!isValidPreset(preset)}
+                  />
+                </div>
+              )}
+              {preset.kind === 'closing' && (
+                <span className="w-[12.5rem] text-sm text-muted-foreground">{closingTime}</span>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => movePresetUp(index)}
+                disabled={index === 0}
+                aria-label={t('settings.movePresetUp')}
+              >
+                <ChevronUp />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setPresets((prev) => prev.filter((p) => p.id !== preset.id))}
+                aria-label={t('settings.removePreset')}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="justify-self-start"
+            onClick={() => setPresets((prev) => [...prev, createPreset(prev)])}
+          >
+            <Plus />
+            {t('settings.addPreset')}
+          </Button>
+          <p className="text-xs text-muted-foreground">{t('settings.presetsHint')}</p>
+        </div>
+
+        {/* Closing time, used by "until closing" presets */}
+        <div className="grid gap-2">
+          <Label htmlFor="settings-closing-time" className="text-sm font-medium">
+            {t('settings.labels.closingTime')}
+          </Label>
+          <Input
+            id="settings-closing-time"
+            type="time"
+            value={closingTime}
+            onChange={(e) => setClosingTime(e.target.value)}
+            aria-invalid={!isValidTimeString(closingTime)}
+            className="w-32"
+          />
+        </div>
+
+        {/* Remove time menu */}
+        <div className="grid gap-2">
+          <Label className="text-sm font-medium">{t('settings.labels.removeDurations')}</Label>
+          <div className="flex flex-wrap gap-2">
+            {REMOVE_DURATION_CHOICES.map((minutes) => (
+              <Button
+                key={minutes}
+                type="button"
+                variant={removeDurations.includes(minutes) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => toggleRemoveDuration(minutes)}
+                className="text-xs"
+              >
+                {formatDuration(minutes)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* LAN sync server */}
+        <div className="grid gap-2">
+          <Label htmlFor="settings-sync-server" className="text-sm font-medium">
+            {t('settings.labels.syncServer')}
+          </Label>
+          <Input
+            id="settings-sync-server"
+            value={syncServerUrl}
+            onChange={(e) => setSyncServerUrl(e.target.value)}
+            placeholder="ws://192.168.1.10:4000"
+            aria-invalid={!syncServerUrlValid}
+          />
+          <p className={`text-xs ${syncServerUrlValid ? 'text-muted-foreground' : 'text-destructive'}`}>
+            {!syncServerUrlValid
+              ? t('settings.invalidSyncServer')
+              : syncServerUrl.trim() && syncServerUrl.trim() === settings.syncServerUrl
+                ? t(`settings.syncStatus.${syncServerStatus}`)
+                : t('settings.syncServerHint')}
+          </p>
+        </div>
+
+        <Button type="button" variant="outline" className="justify-start" onClick={onOpenAlerts}>
+          <BellRing />
+          {t('settings.openAlerts')}
+        </Button>
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Button onClick={handleSave} disabled={!timezoneValid || !presetsValid || !syncServerUrlValid}>
+          {t('common.confirm')}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
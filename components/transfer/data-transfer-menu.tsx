@@ -0,0 +1,228 @@
+/**
+ * Header menu to export the den to a file and import it back
+ * Import shows a preview with the chosen mode and any conflicting ids before applying
+ */
+
+"use client";
+
+import { useState, useRef, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DatabaseBackup, FileDown, FileUp, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/hooks/use-i18n';
+import { useAppStore } from '@/store/app-store';
+import { useSettings } from '@/store/settings-store';
+import { useDataExport } from '@/hooks/use-data-export';
+import {
+  parseImportFile,
+  mergeAppState,
+  type ImportMode,
+} from '@/features/transfer';
+import type { AppState } from '@/lib/storage/persistence.service';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+
+interface PendingImport {
+  fileName: string;
+  state: AppState;
+  exportedAt: string | null;
+}
+
+/**
+ * Counts the items in a state, for previews and summaries
+ */
+function countState(state: AppState) {
+  const cards = Array.from(state.cardsBySection.values()).flat();
+  return {
+    sections: state.sections.length,
+    stations: cards.length,
+    activeTimers: cards.filter((card) => card.timer?.isActive).length,
+    customers: state.customers.length,
+    sessions: state.sessionHistory.length,
+  };
+}
+
+export function DataTransferMenu() {
+  const { t } = useI18n();
+  const { getAppState, replaceState } = useAppStore();
+  const { timezone } = useSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const handleExport = useDataExport();
+
+  /**
+   * Reads the chosen file and opens the preview
+   */
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so the same file can be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseImportFile(await file.text());
+    if (!result.ok) {
+      toast.error(t('transfer.invalidFile'), { description: result.reason });
+      return;
+    }
+
+    setMode('merge');
+    setPendingImport({ fileName: file.name, state: result.state, exportedAt: result.exportedAt });
+  }, [t]);
+
+  // Merge preview, recomputed if the current state changes while the dialog is open
+  const merge = useMemo(
+    () => (pendingImport ? mergeAppState(getAppState(), pendingImport.state) : null),
+    [pendingImport, getAppState]
+  );
+
+  const handleConfirmImport = () => {
+    if (!pendingImport || !merge) return;
+
+    replaceState(mode === 'merge' ? merge.state : pendingImport.state);
+    toast.success(t('transfer.imported'), {
+      description: mode === 'merge' && merge.conflicts.length > 0
+        ? t('transfer.importedWithConflicts', { count: merge.conflicts.length })
+        : pendingImport.fileName,
+    });
+    setPendingImport(null);
+  };
+
+  const counts = pendingImport ? countState(pendingImport.state) : null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon">
+            <DatabaseBackup className="h-[1.2rem] w-[1.2rem]" />
+            <span className="sr-only">{t('transfer.menu')}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={handleExport}>
+            <FileDown className="h-4 w-4" />
+            {t('transfer.export')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4" />
+            {t('transfer.import')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      <Dialog open={pendingImport !== null} onOpenChange={(open) => !open && setPendingImport(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5" />
+              {t('transfer.importTitle')}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingImport?.exportedAt
+                ? t('transfer.importDescription', {
+                    name: pendingImport.fileName,
+                    date: dayjs(pendingImport.exportedAt).tz(timezone).format('DD/MM/YYYY HH:mm'),
+                  })
+                : pendingImport?.fileName}
+            </DialogDescription>
+          </DialogHeader>
+
+          {counts && merge && (
+            <div className="grid gap-4 py-2">
+              {/* File contents */}
+              <div className="bg-muted/50 rounded-lg p-3 border grid grid-cols-2 gap-1 text-sm">
+                <span className="text-muted-foreground">{t('transfer.counts.sections')}</span>
+                <span className="font-semibold text-right">{counts.sections}</span>
+                <span className="text-muted-foreground">{t('transfer.counts.stations')}</span>
+                <span className="font-semibold text-right">{counts.stations}</span>
+                <span className="text-muted-foreground">{t('transfer.counts.activeTimers')}</span>
+                <span className="font-semibold text-right">{counts.activeTimers}</span>
+                <span className="text-muted-foreground">{t('transfer.counts.customers')}</span>
+                <span className="font-semibold text-right">{counts.customers}</span>
+                <span className="text-muted-foreground">{t('transfer.counts.sessions')}</span>
+                <span className="font-semibold text-right">{counts.sessions}</span>
+              </div>
+
+              {/* Import mode */}
+              <div className="grid grid-cols-2 gap-2">
+                {IMPORT_MODES.map((value) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    variant={mode === value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setMode(value)}
+                  >
+                    {t(`transfer.modes.${value}`)}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">{t(`transfer.modeDescriptions.${mode}`)}</p>
+
+              {/* Conflicting ids, only relevant when merging */}
+              {mode === 'merge' && merge.conflicts.length > 0 && (
+                <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 grid gap-2">
+                  <span className="text-sm font-semibold flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {t('transfer.conflictsTitle', { count: merge.conflicts.length })}
+                  </span>
+                  <ul className="grid gap-1 text-xs max-h-40 overflow-y-auto">
+                    {merge.conflicts.map((conflict) => (
+                      <li key={`${conflict.kind}-${conflict.importedId}`}>
+                        {t(`transfer.conflicts.${conflict.kind}`, {
+                          id: conflict.importedId,
+                          imported: conflict.importedName,
+                          existing: conflict.existingName,
+                          newId: conflict.newId,
+                        })}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingImport(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant={mode === 'replace' ? 'destructive' : 'default'} onClick={handleConfirmImport}>
+              {t(`transfer.confirm.${mode}`)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -19,10 +19,10 @@ function Progress({
   
   // Determine colors based on variant:
   // Primary (undefined): timer not started or empty bar
-  // Green (default): active timer with > 30 minutes
-  // Yellow (warning): <= 30 minutes
-  // Orange: <= 20 minutes
-  // Red (destructive): <= 10 minutes or expired
+  // Green (default): active timer above the warning threshold
+  // Yellow (warning): <= warning threshold (30 minutes by default)
+  // Orange: <= orange threshold (20 minutes by default)
+  // Red (destructive): <= critical threshold (10 minutes by default) or expired
   const getColors = () => {
     switch (variant) {
       case "destructive":
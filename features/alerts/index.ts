@@ -0,0 +1,6 @@
+/**
+ * Alerts Feature - Barrel Export
+ * Exports all services for timer thresholds and pre-expiry alerts
+ */
+
+export * from './services/alert.service';
@@ -0,0 +1,80 @@
+/**
+ * Alert Service
+ * Business logic for timer color thresholds and pre-expiry alerts
+ * Settings are global, with optional per-section overrides
+ */
+
+import type { AlertSettings, Section } from '@/types';
+import type { AlertTone } from '@/lib/utils/sound';
+
+/**
+ * Settings used until the staff changes them
+ */
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  warningMinutes: 30,
+  orangeMinutes: 20,
+  criticalMinutes: 10,
+  progressWindowMinutes: 60,
+  preExpiryMinutes: [10],
+};
+
+/**
+ * Resolves the alert settings applied to a section
+ * The section override wins over the global settings
+ */
+export function resolveAlertSettings(
+  global: AlertSettings,
+  section: Pick<Section, 'alertSettings'> | undefined
+): AlertSettings {
+  return section?.alertSettings ?? global;
+}
+
+/**
+ * Cleans up settings entered by the user
+ * Thresholds are non-negative whole minutes, ordered warning ≥ orange ≥ critical;
+ * pre-expiry alerts are unique, positive and sorted from the furthest
+ */
+export function normalizeAlertSettings(settings: AlertSettings): AlertSettings {
+  const toMinutes = (value: number) => (Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0);
+  const criticalMinutes = toMinutes(settings.criticalMinutes);
+  const orangeMinutes = Math.max(criticalMinutes, toMinutes(settings.orangeMinutes));
+  const warningMinutes = Math.max(orangeMinutes, toMinutes(settings.warningMinutes));
+
+  return {
+    warningMinutes,
+    orangeMinutes,
+    criticalMinutes,
+    progressWindowMinutes: Math.max(1, toMinutes(settings.progressWindowMinutes)),
+    preExpiryMinutes: Array.from(new Set(settings.preExpiryMinutes.map(toMinutes)))
+      .filter((minutes) => minutes > 0)
+      .sort((a, b) => b - a),
+  };
+}
+
+/**
+ * Returns the pre-expiry alert crossed between two readings of the remaining time
+ * If several were crossed at once (e.g. after a reload), only the closest to expiry is returned
+ * Returns null if no alert is due
+ */
+export function getCrossedPreExpiryAlert(
+  previousSeconds: number,
+  remainingSeconds: number,
+  settings: AlertSettings
+): number | null {
+  // Expiry has its own sound
+  if (remainingSeconds < 0) return null;
+
+  const crossed = settings.preExpiryMinutes.filter(
+    (minutes) => previousSeconds > minutes * 60 && remainingSeconds <= minutes * 60
+  );
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+}
+
+/**
+ * Returns the tone of a pre-expiry alert, matching the color of the bar at that moment
+ */
+export function getPreExpiryTone(minutes: number, settings: AlertSettings): AlertTone {
+  if (minutes <= settings.criticalMinutes) return 'critical';
+  if (minutes <= settings.orangeMinutes) return 'orange';
+  return 'warning';
+}
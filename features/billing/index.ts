@@ -0,0 +1,6 @@
+/**
+ * Billing Feature - Barrel Export
+ * Exports all services for tariffs and session pricing
+ */
+
+export * from './services/billing.service';
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Tariff, UserCard } from '@/types';
+import { calculateAmount, calculateTimerAmount, getBillableMinutes } from './billing.service';
+import { moveTimerToStation } from '@/features/timers';
+import { createSessionRecord, getPlayedMinutes } from '@/features/history';
+
+const TARIFF: Tariff = {
+  hourlyRate: 6,
+  minimumCharge: 2,
+  roundingMinutes: 15,
+  roundingMode: 'up',
+};
+
+describe('getBillableMinutes', () => {
+  it('rounds to the billing increment with each rounding mode', () => {
+    expect(getBillableMinutes(31, TARIFF)).toBe(45);
+    expect(getBillableMinutes(31, { ...TARIFF, roundingMode: 'down' })).toBe(30);
+    expect(getBillableMinutes(38, { ...TARIFF, roundingMode: 'nearest' })).toBe(45);
+    expect(getBillableMinutes(37, { ...TARIFF, roundingMode: 'nearest' })).toBe(30);
+  });
+
+  it('bills whole minutes when there is no increment', () => {
+    expect(getBillableMinutes(12.2, { ...TARIFF, roundingMinutes: 1 })).toBe(13);
+  });
+
+  it('bills nothing for no time', () => {
+    expect(getBillableMinutes(0, TARIFF)).toBe(0);
+    expect(getBillableMinutes(-5, TARIFF)).toBe(0);
+  });
+});
+
+describe('calculateAmount', () => {
+  it('charges the hourly rate on the rounded minutes', () => {
+    expect(calculateAmount(TARIFF, 60)).toBe(6);
+    expect(calculateAmount(TARIFF, 61)).toBe(7.5);
+  });
+
+  it('applies the minimum charge', () => {
+    expect(calculateAmount(TARIFF, 5)).toBe(2);
+  });
+
+  it('rounds to cents', () => {
+    expect(calculateAmount({ ...TARIFF, hourlyRate: 5, minimumCharge: 0, roundingMinutes: 1 }, 7)).toBe(0.58);
+  });
+
+  it('charges nothing when nothing was played', () => {
+    expect(calculateAmount(TARIFF, 0)).toBe(0);
+  });
+});
+
+describe('billing a swapped session', () => {
+  const START = '2025-03-10T18:00:00.000Z';
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(START));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const card = (timer: UserCard['timer']): UserCard => ({ id: 1, name: 'PC 1', order: 0, progressValue: 0, timer });
+
+  it('bills the whole session once, not each station it ran on', () => {
+    const timer = {
+      startTime: START,
+      endTime: '2025-03-10T20:00:00.000Z',
+      initialDurationMinutes: 120,
+      isActive: true,
+    };
+
+    // 10 minutes on the first station, then 10 on the second one
+    vi.setSystemTime(new Date('2025-03-10T18:10:00.000Z'));
+    const swapped = createSessionRecord({
+      sectionId: 1, sectionName: 'Main', card: card(timer), endReason: 'swapped', tariff: TARIFF,
+    });
+    const moved = moveTimerToStation(timer, getPlayedMinutes(timer));
+
+    vi.setSystemTime(new Date('2025-03-10T18:20:00.000Z'));
+    const ended = createSessionRecord({
+      sectionId: 1, sectionName: 'Main', card: card(moved), endReason: 'reset', tariff: TARIFF,
+    });
+
+    expect(swapped?.amount).toBeNull();
+    expect(ended?.playedMinutes).toBe(10);
+    // 20 minutes rounded to 30: 3, where two 10-minute segments would have cost twice the minimum
+    expect(ended?.amount).toBe(3);
+    expect(calculateTimerAmount(moved, TARIFF)).toBe(calculateAmount(TARIFF, 120));
+  });
+});
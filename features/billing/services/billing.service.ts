@@ -0,0 +1,95 @@
+/**
+ * Billing Service
+ * Business logic for tariffs and session pricing
+ * Tariffs are set per section, with optional per-station overrides
+ */
+
+import dayjs from 'dayjs';
+import type { Section, Tariff, TimerState, UserCard } from '@/types';
+
+export const CURRENCY = 'EUR';
+
+/**
+ * Tariff used as a starting point when configuring a new one
+ */
+export const DEFAULT_TARIFF: Tariff = {
+  hourlyRate: 0,
+  minimumCharge: 0,
+  roundingMinutes: 15,
+  roundingMode: 'up',
+};
+
+/**
+ * Resolves the tariff applied to a station
+ * The station override wins over the section tariff
+ * Returns null if no tariff is configured
+ */
+export function resolveTariff(
+  section: Pick<Section, 'tariff'> | undefined,
+  card: Pick<UserCard, 'tariffOverride'>
+): Tariff | null {
+  return card.tariffOverride ?? section?.tariff ?? null;
+}
+
+/**
+ * Rounds minutes to the tariff billing increment
+ */
+export function getBillableMinutes(minutes: number, tariff: Tariff): number {
+  if (minutes <= 0) return 0;
+  if (tariff.roundingMinutes <= 1) return Math.ceil(minutes);
+
+  const blocks = minutes / tariff.roundingMinutes;
+  const roundedBlocks =
+    tariff.roundingMode === 'up'
+      ? Math.ceil(blocks)
+      : tariff.roundingMode === 'down'
+        ? Math.floor(blocks)
+        : Math.round(blocks);
+
+  return roundedBlocks * tariff.roundingMinutes;
+}
+
+/**
+ * Calculates the amount for a given duration
+ * Applies rounding rules and the minimum charge, rounded to cents
+ */
+export function calculateAmount(tariff: Tariff, minutes: number): number {
+  if (minutes <= 0) return 0;
+
+  const billableMinutes = getBillableMinutes(minutes, tariff);
+  const amount = Math.max(tariff.minimumCharge, (billableMinutes / 60) * tariff.hourlyRate);
+
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Returns the minutes booked on the current station
+ * After a swap, only the part from the arrival on the station is counted
+ * An open session has booked the time elapsed so far
+ */
+export function getBookedMinutes(timer: TimerState): number {
+  const start = timer.segmentStartTime ?? timer.startTime;
+  const end = timer.openEnded ? dayjs().toISOString() : timer.endTime;
+  if (!start || !end) return 0;
+
+  const bookedSeconds =
+    dayjs(end).diff(dayjs(start), 'second') - (timer.pausedSeconds ?? 0);
+
+  return Math.max(0, Math.round(bookedSeconds / 60));
+}
+
+/**
+ * Calculates the estimated amount of a running session on its booked duration
+ * Includes the minutes played on the stations it was swapped from
+ */
+export function calculateTimerAmount(timer: TimerState | undefined, tariff: Tariff | null): number | null {
+  if (!timer?.isActive || !tariff) return null;
+  return calculateAmount(tariff, (timer.carriedMinutes ?? 0) + getBookedMinutes(timer));
+}
+
+/**
+ * Formats an amount in the configured currency
+ */
+export function formatAmount(amount: number, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: CURRENCY }).format(amount);
+}
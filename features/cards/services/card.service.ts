@@ -3,8 +3,9 @@
  * Business logic for card management
  */
 
-import type { UserCard } from '@/types';
+import type { Tariff, UserCard } from '@/types';
 import { generateNextId } from '@/lib/utils/id';
+import { getNextOrder, moveToIndex, withSequentialOrder } from '@/lib/utils/order';
 
 /**
  * Creates a new card
@@ -14,6 +15,7 @@ export function createCard(existingCards: UserCard[]): UserCard {
   return {
     id: newId,
     name: String(newId),
+    order: getNextOrder(existingCards),
     progressValue: 0,
   };
 }
@@ -25,6 +27,61 @@ export function updateCardName(cards: UserCard[], cardId: number, name: string):
   return cards.map((card) => (card.id === cardId ? { ...card, name } : card));
 }
 
+/**
+ * Updates a card's tariff override
+ * Passing undefined falls back to the section tariff
+ */
+export function updateCardTariff(
+  cards: UserCard[],
+  cardId: number,
+  tariff: Tariff | undefined
+): UserCard[] {
+  return cards.map((card) => (card.id === cardId ? { ...card, tariffOverride: tariff } : card));
+}
+
+/**
+ * Moves a card to the position of another card in the same section
+ * Without a target card, moves it to the end
+ */
+export function reorderCards(cards: UserCard[], cardId: number, targetCardId?: number): UserCard[] {
+  const fromIndex = cards.findIndex((card) => card.id === cardId);
+  const toIndex = targetCardId !== undefined
+    ? cards.findIndex((card) => card.id === targetCardId)
+    : cards.length - 1;
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return cards;
+  return moveToIndex(cards, fromIndex, toIndex);
+}
+
+/**
+ * Moves a card, with its timer, to another section
+ * It is inserted before the target card, or at the end without one
+ * Card ids are unique per section, so the card gets a new id if its own is taken (returned as movedCardId)
+ */
+export function moveCardToSection(
+  sourceCards: UserCard[],
+  targetCards: UserCard[],
+  cardId: number,
+  targetCardId?: number
+): { sourceCards: UserCard[]; targetCards: UserCard[]; movedCardId: number } {
+  const card = sourceCards.find((c) => c.id === cardId);
+  if (!card) return { sourceCards, targetCards, movedCardId: cardId };
+
+  const idTaken = targetCards.some((c) => c.id === card.id);
+  const moved = idTaken ? { ...card, id: generateNextId(targetCards.map((c) => c.id)) } : card;
+
+  const insertIndex = targetCardId !== undefined
+    ? targetCards.findIndex((c) => c.id === targetCardId)
+    : -1;
+  const updatedTarget = [...targetCards];
+  updatedTarget.splice(insertIndex === -1 ? targetCards.length : insertIndex, 0, moved);
+
+  return {
+    sourceCards: withSequentialOrder(sourceCards.filter((c) => c.id !== cardId)),
+    targetCards: withSequentialOrder(updatedTarget),
+    movedCardId: moved.id,
+  };
+}
+
 /**
  * Deletes a card
  */
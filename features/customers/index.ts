@@ -0,0 +1,6 @@
+/**
+ * Customers Feature - Barrel Export
+ * Exports all services for customer accounts and prepaid balances
+ */
+
+export * from './services/customer.service';
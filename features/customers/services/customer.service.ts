@@ -0,0 +1,101 @@
+/**
+ * Customer Service
+ * Business logic for customer accounts and prepaid time balances
+ */
+
+import type { Customer, UserCard } from '@/types';
+import { generateNextId } from '@/lib/utils/id';
+import { getBookedMinutes } from '@/features/billing';
+
+/**
+ * Prepaid packages offered at the desk (in minutes)
+ */
+export const PREPAID_PACKAGES = [60, 300, 600] as const;
+
+/**
+ * Creates a new customer with an empty balance
+ */
+export function createCustomer(existingCustomers: Customer[], name: string): Customer {
+  return {
+    id: generateNextId(existingCustomers.map((c) => c.id)),
+    name,
+    balanceMinutes: 0,
+  };
+}
+
+/**
+ * Updates a customer's name
+ */
+export function updateCustomerName(customers: Customer[], customerId: number, name: string): Customer[] {
+  return customers.map((customer) => (customer.id === customerId ? { ...customer, name } : customer));
+}
+
+/**
+ * Adds prepaid minutes to a customer's balance
+ */
+export function topUpCustomer(customers: Customer[], customerId: number, minutes: number): Customer[] {
+  return customers.map((customer) =>
+    customer.id === customerId
+      ? { ...customer, balanceMinutes: customer.balanceMinutes + minutes }
+      : customer
+  );
+}
+
+/**
+ * Debits played minutes from a customer's balance
+ */
+export function debitCustomer(customers: Customer[], customerId: number, minutes: number): Customer[] {
+  return topUpCustomer(customers, customerId, -minutes);
+}
+
+/**
+ * Deletes a customer
+ */
+export function deleteCustomer(customers: Customer[], customerId: number): Customer[] {
+  return customers.filter((customer) => customer.id !== customerId);
+}
+
+/**
+ * Returns the minutes reserved by running sessions linked to the customer
+ * Balances are debited when sessions end, so booked time is held until then
+ */
+export function getCommittedMinutes(customerId: number, cards: UserCard[]): number {
+  return cards.reduce((sum, card) => {
+    if (card.timer?.isActive && card.timer.customerId === customerId) {
+      return sum + getBookedMinutes(card.timer);
+    }
+    return sum;
+  }, 0);
+}
+
+/**
+ * Returns the minutes the customer can still book
+ */
+export function getAvailableMinutes(customer: Customer, cards: UserCard[]): number {
+  return customer.balanceMinutes - getCommittedMinutes(customer.id, cards);
+}
+
+/**
+ * Finds a customer whose running sessions would book more than the balance after a change of the stations
+ * Only customers whose booked minutes grow are reported, so shortening or ending a session is always allowed
+ */
+export function findOverdrawnCustomer(
+  customers: Customer[],
+  before: UserCard[],
+  after: UserCard[]
+): Customer | undefined {
+  return customers.find((customer) => {
+    const committed = getCommittedMinutes(customer.id, after);
+    return committed > getCommittedMinutes(customer.id, before) && committed > customer.balanceMinutes;
+  });
+}
+
+/**
+ * Formats a balance in minutes as "Xh YYm"
+ */
+export function formatBalance(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '';
+  const absMinutes = Math.abs(minutes);
+  const hours = Math.floor(absMinutes / 60);
+  return `${sign}${hours}h ${String(absMinutes % 60).padStart(2, '0')}m`;
+}
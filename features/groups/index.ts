@@ -0,0 +1,6 @@
+/**
+ * Groups Feature - Barrel Export
+ * Exports all services for station groups
+ */
+
+export * from './services/group.service';
@@ -0,0 +1,78 @@
+/**
+ * Group Service
+ * Business logic for groups of stations booked together by a party
+ */
+
+import type { CardRef, StationGroup, UserCard } from '@/types';
+import { generateNextId } from '@/lib/utils/id';
+
+/**
+ * Minimum number of stations in a group
+ */
+export const MIN_GROUP_SIZE = 2;
+
+/**
+ * Creates a new group
+ */
+export function createGroup(existingGroups: StationGroup[], name: string): StationGroup {
+  return {
+    id: generateNextId(existingGroups.map((g) => g.id)),
+    name,
+  };
+}
+
+/**
+ * Returns the stations belonging to a group, in display order
+ */
+export function getGroupMembers(
+  cardsBySection: Map<number, UserCard[]>,
+  groupId: number
+): CardRef[] {
+  return Array.from(cardsBySection.entries()).flatMap(([sectionId, cards]) =>
+    cards.filter((card) => card.groupId === groupId).map((card) => ({ sectionId, cardId: card.id }))
+  );
+}
+
+/**
+ * Removes groups left with fewer than MIN_GROUP_SIZE stations
+ * Returns the remaining groups (the same list if none was removed) and the ids of those removed
+ */
+export function pruneGroups(
+  groups: StationGroup[],
+  cardsBySection: Map<number, UserCard[]>
+): { groups: StationGroup[]; removedIds: number[] } {
+  const removedIds = groups
+    .filter((group) => getGroupMembers(cardsBySection, group.id).length < MIN_GROUP_SIZE)
+    .map((group) => group.id);
+
+  return {
+    groups: removedIds.length > 0 ? groups.filter((group) => !removedIds.includes(group.id)) : groups,
+    removedIds,
+  };
+}
+
+/**
+ * Releases the stations of groups left with fewer than MIN_GROUP_SIZE members
+ * Returns the same map if no station had to be released
+ */
+export function releaseLoneMembers(cardsBySection: Map<number, UserCard[]>): Map<number, UserCard[]> {
+  const memberCounts = new Map<number, number>();
+  cardsBySection.forEach((cards) =>
+    cards.forEach((card) => {
+      if (card.groupId !== undefined) {
+        memberCounts.set(card.groupId, (memberCounts.get(card.groupId) ?? 0) + 1);
+      }
+    })
+  );
+
+  const isLone = (card: UserCard) =>
+    card.groupId !== undefined && (memberCounts.get(card.groupId) ?? 0) < MIN_GROUP_SIZE;
+  if (![...cardsBySection.values()].some((cards) => cards.some(isLone))) return cardsBySection;
+
+  return new Map(
+    Array.from(cardsBySection, ([sectionId, cards]) => [
+      sectionId,
+      cards.map((card) => (isLone(card) ? { ...card, groupId: undefined } : card)),
+    ])
+  );
+}
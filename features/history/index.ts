@@ -0,0 +1,6 @@
+/**
+ * History Feature - Barrel Export
+ * Exports all services for the session history ledger
+ */
+
+export * from './services/history.service';
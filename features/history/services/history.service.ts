@@ -0,0 +1,205 @@
+/**
+ * History Service
+ * Business logic for the session history ledger
+ * Every finished, reset or swapped timer becomes a record
+ */
+
+import dayjs from 'dayjs';
+import type { Customer, SessionEndReason, SessionRecord, Tariff, TimerState, UserCard } from '@/types';
+import { generateNextId } from '@/lib/utils/id';
+import { getRemainingSeconds, isTimerExpired } from '@/lib/utils/time';
+import { calculateAmount } from '@/features/billing';
+
+/**
+ * Maximum number of records kept in the ledger
+ * Oldest records are dropped first to keep storage usage under control
+ */
+export const MAX_SESSION_HISTORY = 5000;
+
+interface CreateSessionRecordParams {
+  sectionId: number;
+  sectionName: string;
+  card: UserCard;
+  endReason: SessionEndReason;
+  swappedWith?: { sectionName: string; cardName: string };
+  tariff?: Tariff | null;
+  customer?: Customer;
+}
+
+/**
+ * A ledger record not yet written (ids are assigned when appending)
+ */
+export type NewSessionRecord = Omit<SessionRecord, 'id'>;
+
+export interface SessionHistoryFilter {
+  day?: string;   // YYYY-MM-DD in the time zone passed when filtering (empty for all days)
+  query?: string; // Matches station or section name
+}
+
+/**
+ * Returns the ISO timestamp from which the timer has been running on its current station
+ */
+function getSegmentStart(timer: TimerState): string | null {
+  return timer.segmentStartTime ?? timer.startTime;
+}
+
+/**
+ * Checks whether the timer has actually started (not scheduled in the future)
+ */
+export function hasSessionStarted(timer: TimerState | undefined): boolean {
+  if (!timer?.isActive) return false;
+
+  const segmentStart = getSegmentStart(timer);
+  return !segmentStart || !dayjs().isBefore(dayjs(segmentStart));
+}
+
+/**
+ * Determines why a timer is being cleared
+ * An open session ends at "checkout", an expired timer as "expired", otherwise it is a manual "reset"
+ */
+export function resolveEndReason(timer: TimerState): Exclude<SessionEndReason, 'swapped'> {
+  if (timer.openEnded) return 'checkout';
+
+  const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime, timer.pausedAt);
+  return isTimerExpired(remainingSeconds) ? 'expired' : 'reset';
+}
+
+/**
+ * Returns the moment the session actually stopped on the station
+ * Play stops at the pause moment if paused, and never goes beyond the scheduled end
+ */
+function getPlayEnd(timer: TimerState): dayjs.Dayjs {
+  const segmentStart = getSegmentStart(timer);
+  let stopAt = timer.pausedAt ? dayjs(timer.pausedAt) : dayjs();
+
+  if (segmentStart && stopAt.isBefore(dayjs(segmentStart))) {
+    stopAt = dayjs(segmentStart);
+  }
+
+  if (timer.endTime && stopAt.isAfter(dayjs(timer.endTime))) {
+    return dayjs(timer.endTime);
+  }
+
+  return stopAt;
+}
+
+/**
+ * Calculates the minutes actually played on the current station
+ * Excludes time spent in pause
+ */
+export function getPlayedMinutes(timer: TimerState): number {
+  const segmentStart = getSegmentStart(timer);
+  if (!segmentStart) return 0;
+
+  const playedSeconds =
+    getPlayEnd(timer).diff(dayjs(segmentStart), 'second') - (timer.pausedSeconds ?? 0);
+
+  return Math.max(0, Math.round(playedSeconds / 60));
+}
+
+/**
+ * Calculates the minutes played over the whole session, on every station it ran on
+ * This is what the session is billed on
+ */
+export function getSessionMinutes(timer: TimerState): number {
+  return (timer.carriedMinutes ?? 0) + getPlayedMinutes(timer);
+}
+
+/**
+ * Creates a ledger record for the session running on a card
+ * The amount is computed on the whole session with the tariff in effect at the end
+ * A swapped session goes on elsewhere, so its record has no amount: it is billed once, when it ends
+ * Returns null if the card has no timer or the timer never started
+ */
+export function createSessionRecord({
+  sectionId,
+  sectionName,
+  card,
+  endReason,
+  swappedWith,
+  tariff,
+  customer,
+}: CreateSessionRecordParams): NewSessionRecord | null {
+  const timer = card.timer;
+  if (!timer || !hasSessionStarted(timer)) {
+    return null;
+  }
+
+  const startTime = getSegmentStart(timer) ?? dayjs().toISOString();
+  const playedMinutes = getPlayedMinutes(timer);
+
+  return {
+    sectionId,
+    sectionName,
+    cardId: card.id,
+    cardName: card.name,
+    startTime,
+    endTime: getPlayEnd(timer).toISOString(),
+    scheduledEndTime: timer.endTime,
+    // An open session books exactly what was played
+    bookedMinutes: timer.openEnded ? playedMinutes : timer.initialDurationMinutes,
+    playedMinutes,
+    amount: tariff && endReason !== 'swapped' ? calculateAmount(tariff, getSessionMinutes(timer)) : null,
+    adjustments: timer.adjustments ?? [],
+    endReason,
+    ...(swappedWith ? { swappedWith } : {}),
+    ...(customer ? { customerId: customer.id, customerName: customer.name } : {}),
+  };
+}
+
+/**
+ * Appends records to the ledger, dropping the oldest ones beyond the limit
+ * Ids are assigned here so records created in the same tick never collide
+ */
+export function appendSessionRecords(
+  history: SessionRecord[],
+  records: NewSessionRecord[]
+): SessionRecord[] {
+  const nextId = generateNextId(history.map((r) => r.id));
+  const updated = [...history, ...records.map((record, index) => ({ ...record, id: nextId + index }))];
+  return updated.length > MAX_SESSION_HISTORY
+    ? updated.slice(updated.length - MAX_SESSION_HISTORY)
+    : updated;
+}
+
+/**
+ * Filters ledger records by day and station/section name
+ * Days are read in the given time zone; results are sorted from the most recent
+ */
+export function filterSessionRecords(
+  history: SessionRecord[],
+  { day, query }: SessionHistoryFilter,
+  timezone: string
+): SessionRecord[] {
+  const searchLower = query?.trim().toLowerCase() ?? '';
+
+  return history
+    .filter((record) => {
+      if (day && dayjs(record.startTime).tz(timezone).format('YYYY-MM-DD') !== day) {
+        return false;
+      }
+      if (!searchLower) return true;
+      return (
+        record.cardName.toLowerCase().includes(searchLower) ||
+        record.sectionName.toLowerCase().includes(searchLower)
+      );
+    })
+    .sort((a, b) => dayjs(b.endTime).valueOf() - dayjs(a.endTime).valueOf());
+}
+
+/**
+ * Sums minutes added and removed over the session
+ */
+export function summarizeAdjustments(record: SessionRecord): { added: number; removed: number } {
+  return record.adjustments.reduce(
+    (acc, adjustment) => {
+      if (adjustment.minutes > 0) {
+        acc.added += adjustment.minutes;
+      } else {
+        acc.removed += Math.abs(adjustment.minutes);
+      }
+      return acc;
+    },
+    { added: 0, removed: 0 }
+  );
+}
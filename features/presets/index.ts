@@ -0,0 +1,6 @@
+/**
+ * Presets Feature - Barrel Export
+ * Exports all services for named timer presets
+ */
+
+export * from './services/preset.service';
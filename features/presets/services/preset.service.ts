@@ -0,0 +1,190 @@
+/**
+ * Preset Service
+ * Business logic for named timer presets: defaults, shortcuts, cleanup and the times they resolve to
+ */
+
+import dayjs from 'dayjs';
+import type { TimerPreset, TimerPresetKind } from '@/types';
+import { addMinutesToCurrentTime, getNextWallTime, isValidTimeString } from '@/lib/utils/time';
+import { generateNextId } from '@/lib/utils/id';
+
+/**
+ * Presets reachable from the keyboard, Ctrl+1 ... Ctrl+9 in list order
+ */
+export const MAX_PRESET_SHORTCUTS = 9;
+
+export const PRESET_KINDS: TimerPresetKind[] = ['duration', 'clock', 'closing'];
+
+export const DEFAULT_CLOSING_TIME = '02:00';
+
+/**
+ * Presets used until the staff changes them
+ * Same durations and shortcuts as the quick durations they replace
+ */
+export const DEFAULT_PRESETS: TimerPreset[] = [
+  { id: 1, name: '', kind: 'duration', minutes: 60 },
+  { id: 2, name: '', kind: 'duration', minutes: 120 },
+  { id: 3, name: '', kind: 'duration', minutes: 30 },
+];
+
+/**
+ * Returns the presets in display order, each with its shortcut number if it has one
+ */
+export function getPresetShortcuts(presets: TimerPreset[]): Array<{ preset: TimerPreset; shortcut?: number }> {
+  return presets.map((preset, index) => ({
+    preset,
+    shortcut: index < MAX_PRESET_SHORTCUTS ? index + 1 : undefined,
+  }));
+}
+
+/**
+ * Returns the preset bound to a shortcut number (1-9), if any
+ */
+export function getPresetByShortcut(presets: TimerPreset[], shortcut: number): TimerPreset | undefined {
+  return shortcut >= 1 && shortcut <= MAX_PRESET_SHORTCUTS ? presets[shortcut - 1] : undefined;
+}
+
+/**
+ * Returns the wall-clock time (HH:mm) a preset ends at, or null for relative durations
+ */
+export function getPresetEndClock(preset: TimerPreset, closingTime: string): string | null {
+  switch (preset.kind) {
+    case 'duration':
+      return null;
+    case 'clock':
+      return preset.endTime;
+    case 'closing':
+      return closingTime;
+  }
+}
+
+/**
+ * Returns start and end of a session started now with a preset
+ * A clock window that has not opened yet starts at its next opening
+ * (e.g. a 22:00-06:00 night pass sold at 20:00 runs from 22:00), one that is open starts now
+ */
+export function resolvePresetStart(
+  preset: TimerPreset,
+  timezone: string,
+  closingTime: string
+): { startTime: string; endTime: string } {
+  const now = dayjs().toISOString();
+
+  if (preset.kind === 'duration') {
+    return { startTime: now, endTime: addMinutesToCurrentTime(preset.minutes) };
+  }
+
+  const endClock = getPresetEndClock(preset, closingTime) ?? closingTime;
+  const nextEnd = getNextWallTime(endClock, timezone, now);
+  if (preset.kind === 'closing' || !preset.startTime) {
+    return { startTime: now, endTime: nextEnd };
+  }
+
+  // The window is open if it ends before it opens again
+  const nextStart = getNextWallTime(preset.startTime, timezone, now);
+  if (dayjs(nextEnd).isBefore(nextStart)) {
+    return { startTime: now, endTime: nextEnd };
+  }
+  return { startTime: nextStart, endTime: getNextWallTime(endClock, timezone, nextStart) };
+}
+
+/**
+ * Returns the new end of a running session a clock or closing preset is applied to
+ * The first occurrence of the preset's end after now, or after the start of a session not begun yet
+ * @returns ISO timestamp, or null for relative durations (they add minutes instead)
+ */
+export function resolvePresetEnd(
+  preset: TimerPreset,
+  startTime: string | null,
+  timezone: string,
+  closingTime: string
+): string | null {
+  const endClock = getPresetEndClock(preset, closingTime);
+  if (endClock === null) return null;
+
+  const from = startTime && dayjs(startTime).isAfter(dayjs()) ? startTime : null;
+  return getNextWallTime(endClock, timezone, from);
+}
+
+/**
+ * Returns the minutes of a relative duration preset, or null for the other kinds
+ */
+export function getPresetMinutes(preset: TimerPreset): number | null {
+  return preset.kind === 'duration' ? preset.minutes : null;
+}
+
+/**
+ * Creates an empty duration preset with an id not used by the others
+ */
+export function createPreset(presets: TimerPreset[], minutes = 60): TimerPreset {
+  return { id: generateNextId(presets.map((p) => p.id)), name: '', kind: 'duration', minutes };
+}
+
+/**
+ * Turns a preset into another kind, keeping its id and name
+ */
+export function withPresetKind(preset: TimerPreset, kind: TimerPresetKind): TimerPreset {
+  if (preset.kind === kind) return preset;
+
+  const { id, name } = preset;
+  switch (kind) {
+    case 'duration':
+      return { id, name, kind, minutes: 60 };
+    case 'clock':
+      return { id, name, kind, endTime: DEFAULT_CLOSING_TIME };
+    case 'closing':
+      return { id, name, kind };
+  }
+}
+
+/**
+ * Checks that a preset can be applied: positive duration or valid clock times
+ */
+export function isValidPreset(preset: TimerPreset): boolean {
+  switch (preset.kind) {
+    case 'duration':
+      return Number.isFinite(preset.minutes) && preset.minutes > 0;
+    case 'clock':
+      return (
+        isValidTimeString(preset.endTime) &&
+        (preset.startTime === undefined || (isValidTimeString(preset.startTime) && preset.startTime !== preset.endTime))
+      );
+    case 'closing':
+      return true;
+  }
+}
+
+/**
+ * Turns a possibly invalid list of presets into a clean one
+ * Malformed entries are dropped, duplicate ids are renumbered; a missing list falls back to the defaults
+ */
+export function normalizePresets(value: unknown): TimerPreset[] {
+  if (!Array.isArray(value)) return DEFAULT_PRESETS;
+
+  const presets: TimerPreset[] = [];
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) continue;
+    const raw = item as Record<string, unknown>;
+    const id =
+      typeof raw.id === 'number' && Number.isInteger(raw.id) && !presets.some((p) => p.id === raw.id)
+        ? raw.id
+        : generateNextId(presets.map((p) => p.id));
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+
+    let preset: TimerPreset | null = null;
+    if (raw.kind === 'duration' && typeof raw.minutes === 'number') {
+      preset = { id, name, kind: 'duration', minutes: Math.round(raw.minutes) };
+    } else if (raw.kind === 'clock' && typeof raw.endTime === 'string') {
+      preset = typeof raw.startTime === 'string' && raw.startTime
+        ? { id, name, kind: 'clock', startTime: raw.startTime, endTime: raw.endTime }
+        : { id, name, kind: 'clock', endTime: raw.endTime };
+    } else if (raw.kind === 'closing') {
+      preset = { id, name, kind: 'closing' };
+    }
+
+    if (preset && isValidPreset(preset)) {
+      presets.push(preset);
+    }
+  }
+  return presets;
+}
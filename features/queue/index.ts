@@ -0,0 +1,6 @@
+/**
+ * Queue Feature - Barrel Export
+ * Exports all services for the waiting queue
+ */
+
+export * from './services/queue.service';
@@ -0,0 +1,125 @@
+/**
+ * Queue Service
+ * Business logic for parties waiting for a station and the stations suggested to them
+ */
+
+import dayjs from 'dayjs';
+import type { CardRef, QueueEntry, Reservation, Section, UserCard } from '@/types';
+import { generateNextId } from '@/lib/utils/id';
+import { getRemainingSeconds } from '@/lib/utils/time';
+import { findReservationConflicts } from '@/features/reservations';
+import { getCardKey } from '@/features/selection';
+
+export type NewQueueEntry = Omit<QueueEntry, 'id' | 'addedAt'>;
+
+/**
+ * Stations suggested to a queued party
+ * waitSeconds is 0 when the party can be seated right away
+ */
+export interface QueueSuggestion {
+  stations: CardRef[];
+  waitSeconds: number;
+}
+
+interface StationAvailability {
+  ref: CardRef;
+  waitSeconds: number;
+}
+
+/**
+ * Adds a party at the end of the queue
+ */
+export function createQueueEntry(existingEntries: QueueEntry[], entry: NewQueueEntry): QueueEntry {
+  return {
+    ...entry,
+    id: generateNextId(existingEntries.map((e) => e.id)),
+    addedAt: dayjs().toISOString(),
+  };
+}
+
+/**
+ * Removes a party from the queue
+ */
+export function removeQueueEntry(entries: QueueEntry[], id: number): QueueEntry[] {
+  return entries.filter((e) => e.id !== id);
+}
+
+/**
+ * Returns the seconds until a station is free
+ * Running timers free the station when they expire; expired timers free it right away
+ * Returns null for stations that never free up on their own (timers without an end)
+ */
+export function getStationWaitSeconds(card: UserCard): number | null {
+  if (!card.timer?.isActive) return 0;
+  if (!card.timer.endTime) return null;
+  return Math.max(0, getRemainingSeconds(card.timer.endTime, null, card.timer.pausedAt));
+}
+
+/**
+ * Lists the stations that could host a session of the given duration, soonest free first
+ * Stations booked by a reservation during the session are left out
+ */
+function getStationAvailability(
+  sections: Section[],
+  cardsBySection: Map<number, UserCard[]>,
+  reservations: Reservation[],
+  durationMinutes: number
+): StationAvailability[] {
+  const now = dayjs();
+
+  return sections
+    .flatMap((section) =>
+      (cardsBySection.get(section.id) || []).map((card) => {
+        const waitSeconds = getStationWaitSeconds(card);
+        if (waitSeconds === null) return null;
+
+        const start = now.add(waitSeconds, 'second');
+        const conflicts = findReservationConflicts(
+          {
+            name: '',
+            sectionId: section.id,
+            cardId: card.id,
+            startTime: start.toISOString(),
+            endTime: start.add(durationMinutes, 'minute').toISOString(),
+          },
+          reservations
+        );
+        return conflicts.length === 0 ? { ref: { sectionId: section.id, cardId: card.id }, waitSeconds } : null;
+      })
+    )
+    .filter((item): item is StationAvailability => item !== null)
+    .sort((a, b) => a.waitSeconds - b.waitSeconds);
+}
+
+/**
+ * Suggests stations to every party in queue order
+ * Stations suggested to a party are not offered to the ones behind it
+ * The preferred section is used when it has enough stations for the party
+ * Parties that cannot fit anywhere get no suggestion
+ */
+export function planQueue(
+  entries: QueueEntry[],
+  sections: Section[],
+  cardsBySection: Map<number, UserCard[]>,
+  reservations: Reservation[]
+): Map<number, QueueSuggestion> {
+  const taken = new Set<string>();
+  const plan = new Map<number, QueueSuggestion>();
+
+  entries.forEach((entry) => {
+    const available = getStationAvailability(sections, cardsBySection, reservations, entry.durationMinutes)
+      .filter((item) => !taken.has(getCardKey(item.ref)));
+    const preferred = available.filter((item) => item.ref.sectionId === entry.preferredSectionId);
+    const pool = preferred.length >= entry.partySize ? preferred : available;
+    if (pool.length < entry.partySize) return;
+
+    const chosen = pool.slice(0, entry.partySize);
+    chosen.forEach((item) => taken.add(getCardKey(item.ref)));
+    plan.set(entry.id, {
+      stations: chosen.map((item) => item.ref),
+      waitSeconds: Math.max(...chosen.map((item) => item.waitSeconds)),
+    });
+  });
+
+  return plan;
+}
@@ -0,0 +1,6 @@
+/**
+ * Reservations Feature - Barrel Export
+ * Exports all services for station reservations
+ */
+
+export * from './services/reservation.service';
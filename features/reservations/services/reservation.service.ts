@@ -0,0 +1,158 @@
+/**
+ * Reservation Service
+ * Business logic for booking stations ahead of time and detecting overlapping bookings
+ */
+
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import type { CardRef, Reservation, TimerState } from '@/types';
+import { generateNextId } from '@/lib/utils/id';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type NewReservation = Omit<Reservation, 'id'>;
+
+/**
+ * Something already occupying a station during a requested slot
+ */
+export type ReservationConflict =
+  | { kind: 'reservation'; reservation: Reservation }
+  | { kind: 'timer'; endTime: string | null };
+
+/**
+ * Creates a new reservation
+ */
+export function createReservation(
+  existingReservations: Reservation[],
+  reservation: NewReservation
+): Reservation {
+  return {
+    ...reservation,
+    id: generateNextId(existingReservations.map((r) => r.id)),
+  };
+}
+
+/**
+ * Deletes a reservation
+ */
+export function deleteReservation(reservations: Reservation[], id: number): Reservation[] {
+  return reservations.filter((r) => r.id !== id);
+}
+
+/**
+ * Deletes the reservations of a station, or of a whole section without cardId
+ */
+export function deleteStationReservations(
+  reservations: Reservation[],
+  sectionId: number,
+  cardId?: number
+): Reservation[] {
+  return reservations.filter(
+    (r) => r.sectionId !== sectionId || (cardId !== undefined && r.cardId !== cardId)
+  );
+}
+
+/**
+ * Moves the reservations of a station to its new place (after moving the station)
+ */
+export function moveStationReservations(
+  reservations: Reservation[],
+  from: CardRef,
+  to: CardRef
+): Reservation[] {
+  return reservations.map((r) =>
+    r.sectionId === from.sectionId && r.cardId === from.cardId
+      ? { ...r, sectionId: to.sectionId, cardId: to.cardId }
+      : r
+  );
+}
+
+/**
+ * Returns the booked duration in minutes
+ */
+export function getReservationMinutes(reservation: Pick<Reservation, 'startTime' | 'endTime'>): number {
+  return dayjs(reservation.endTime).diff(dayjs(reservation.startTime), 'minute');
+}
+
+/**
+ * Checks if two time ranges overlap (touching ends do not overlap)
+ */
+function rangesOverlap(startA: string, endA: string, startB: string, endB: string): boolean {
+  return dayjs(startA).isBefore(dayjs(endB)) && dayjs(startB).isBefore(dayjs(endA));
+}
+
+/**
+ * Finds what already occupies the station during the requested slot:
+ * other reservations of the station and its running timer
+ * A timer without an end time occupies the station indefinitely
+ */
+export function findReservationConflicts(
+  reservation: NewReservation & { id?: number },
+  reservations: Reservation[],
+  stationTimer?: TimerState
+): ReservationConflict[] {
+  const conflicts: ReservationConflict[] = reservations
+    .filter(
+      (r) =>
+        r.id !== reservation.id &&
+        r.sectionId === reservation.sectionId &&
+        r.cardId === reservation.cardId &&
+        rangesOverlap(r.startTime, r.endTime, reservation.startTime, reservation.endTime)
+    )
+    .map((r) => ({ kind: 'reservation', reservation: r }));
+
+  if (stationTimer?.isActive) {
+    const timerStart = stationTimer.startTime ?? dayjs().toISOString();
+    const overlapsTimer = stationTimer.endTime
+      ? rangesOverlap(timerStart, stationTimer.endTime, reservation.startTime, reservation.endTime)
+      : dayjs(reservation.endTime).isAfter(dayjs(timerStart));
+    if (overlapsTimer) {
+      conflicts.push({ kind: 'timer', endTime: stationTimer.endTime });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Returns the reservations overlapping a time range, sorted by start time
+ */
+export function getReservationsInRange(
+  reservations: Reservation[],
+  from: string,
+  to: string
+): Reservation[] {
+  return reservations
+    .filter((r) => rangesOverlap(r.startTime, r.endTime, from, to))
+    .sort((a, b) => dayjs(a.startTime).valueOf() - dayjs(b.startTime).valueOf());
+}
+
+/**
+ * Returns the station's next reservation that has not ended yet, if any
+ */
+export function getNextReservation(
+  reservations: Reservation[],
+  sectionId: number,
+  cardId: number,
+  now = dayjs()
+): Reservation | undefined {
+  return reservations
+    .filter((r) => r.sectionId === sectionId && r.cardId === cardId && dayjs(r.endTime).isAfter(now))
+    .sort((a, b) => dayjs(a.startTime).valueOf() - dayjs(b.startTime).valueOf())[0];
+}
+
+/**
+ * Returns the station's next reservation if it starts today (in the given time zone)
+ */
+export function getTodayReservation(
+  reservations: Reservation[],
+  sectionId: number,
+  cardId: number,
+  timezone: string
+): Reservation | undefined {
+  const now = dayjs().tz(timezone);
+  const next = getNextReservation(reservations, sectionId, cardId, now);
+  return next && dayjs(next.startTime).tz(timezone).isSame(now, 'day') ? next : undefined;
+}
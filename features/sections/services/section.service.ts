@@ -3,8 +3,9 @@
  * Business logic for section management
  */
 
-import type { Section } from '@/types';
+import type { AlertSettings, Section, Tariff } from '@/types';
 import { generateNextId } from '@/lib/utils/id';
+import { getNextOrder, moveToIndex } from '@/lib/utils/order';
 
 /**
  * Creates a new section
@@ -14,6 +15,7 @@ export function createSection(existingSections: Section[]): Section {
   return {
     id: newId,
     name: '',
+    order: getNextOrder(existingSections),
   };
 }
 
@@ -30,6 +32,48 @@ export function updateSectionName(
   );
 }
 
+/**
+ * Updates a section's tariff
+ * Passing undefined removes the tariff
+ */
+export function updateSectionTariff(
+  sections: Section[],
+  sectionId: number,
+  tariff: Tariff | undefined
+): Section[] {
+  return sections.map((section) =>
+    section.id === sectionId ? { ...section, tariff } : section
+  );
+}
+
+/**
+ * Updates a section's alert settings
+ * Passing undefined makes the section use the global settings again
+ */
+export function updateSectionAlertSettings(
+  sections: Section[],
+  sectionId: number,
+  alertSettings: AlertSettings | undefined
+): Section[] {
+  return sections.map((section) =>
+    section.id === sectionId ? { ...section, alertSettings } : section
+  );
+}
+
+/**
+ * Moves a section to the position of another one
+ */
+export function reorderSections(
+  sections: Section[],
+  sectionId: number,
+  targetSectionId: number
+): Section[] {
+  const fromIndex = sections.findIndex((section) => section.id === sectionId);
+  const toIndex = sections.findIndex((section) => section.id === targetSectionId);
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return sections;
+  return moveToIndex(sections, fromIndex, toIndex);
+}
+
 /**
  * Deletes a section
  */
@@ -0,0 +1,6 @@
+/**
+ * Selection Feature - Barrel Export
+ * Exports all services for multi-station selection
+ */
+
+export * from './services/selection.service';
@@ -0,0 +1,87 @@
+/**
+ * Selection Service
+ * Business logic for selecting several stations and picking targets for group actions
+ */
+
+import type { CardRef, UserCard } from '@/types';
+
+/**
+ * Returns a key identifying a station across sections
+ */
+export function getCardKey(ref: CardRef): string {
+  return `${ref.sectionId}:${ref.cardId}`;
+}
+
+/**
+ * Checks if two references point to the same station
+ */
+export function isSameCard(a: CardRef, b: CardRef): boolean {
+  return a.sectionId === b.sectionId && a.cardId === b.cardId;
+}
+
+/**
+ * Adds a station to the selection, or removes it if already selected
+ */
+export function toggleCardRef(selection: CardRef[], ref: CardRef): CardRef[] {
+  return selection.some((item) => isSameCard(item, ref))
+    ? selection.filter((item) => !isSameCard(item, ref))
+    : [...selection, ref];
+}
+
+/**
+ * Adds every station between anchor and ref (both included) to the selection
+ * orderedCards is the display order of all stations
+ */
+export function selectCardRange(
+  selection: CardRef[],
+  orderedCards: CardRef[],
+  anchor: CardRef,
+  ref: CardRef
+): CardRef[] {
+  const from = orderedCards.findIndex((item) => isSameCard(item, anchor));
+  const to = orderedCards.findIndex((item) => isSameCard(item, ref));
+  if (from === -1 || to === -1) return toggleCardRef(selection, ref);
+
+  const range = orderedCards.slice(Math.min(from, to), Math.max(from, to) + 1);
+  return [...selection, ...range.filter((item) => !selection.some((s) => isSameCard(s, item)))];
+}
+
+/**
+ * Picks the stations of a section that a selection can be moved to
+ * Free stations come first, then occupied ones; selected stations are never picked
+ * Returns null if the section doesn't have enough stations
+ */
+export function pickSwapTargets(
+  selection: CardRef[],
+  sectionId: number,
+  sectionCards: UserCard[]
+): CardRef[] | null {
+  const candidates = sectionCards
+    .map((card) => ({ ref: { sectionId, cardId: card.id }, isFree: !card.timer?.isActive }))
+    .filter(({ ref }) => !selection.some((item) => isSameCard(item, ref)));
+
+  const ordered = [
+    ...candidates.filter((c) => c.isFree),
+    ...candidates.filter((c) => !c.isFree),
+  ];
+  if (ordered.length < selection.length) return null;
+
+  return ordered.slice(0, selection.length).map((c) => c.ref);
+}
+
+/**
+ * Applies per-station updates, keyed by getCardKey, across all sections
+ * Sections without updated stations keep their array
+ */
+export function applyCardUpdates(
+  cardsBySection: Map<number, UserCard[]>,
+  updaters: Map<string, (card: UserCard) => UserCard>
+): Map<number, UserCard[]> {
+  const updated = new Map(cardsBySection);
+  cardsBySection.forEach((cards, sectionId) => {
+    const updaterFor = (card: UserCard) => updaters.get(getCardKey({ sectionId, cardId: card.id }));
+    if (!cards.some(updaterFor)) return;
+    updated.set(sectionId, cards.map((card) => updaterFor(card)?.(card) ?? card));
+  });
+  return updated;
+}
@@ -0,0 +1,6 @@
+/**
+ * Settings Feature - Barrel Export
+ * Exports all services for application preferences
+ */
+
+export * from './services/settings.service';
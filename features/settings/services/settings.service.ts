@@ -0,0 +1,112 @@
+/**
+ * Settings Service
+ * Business logic for application preferences: defaults, validation and cleanup
+ */
+
+import type { AppSettings } from '@/types';
+import { defaultLocale } from '@/i18n';
+import { DEFAULT_TIMEZONE, isValidTimeString } from '@/lib/utils/time';
+import { DEFAULT_CLOSING_TIME, DEFAULT_PRESETS, normalizePresets } from '@/features/presets';
+
+export const SUPPORTED_LOCALES: AppSettings['locale'][] = ['it', 'en'];
+
+/**
+ * Settings used until the staff changes them
+ * Same values that used to be hardcoded
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  locale: defaultLocale,
+  timezone: '', // Follow the time zone of this computer
+  presets: DEFAULT_PRESETS,
+  closingTime: DEFAULT_CLOSING_TIME,
+  removeDurations: [5, 10, 15, 30, 60],
+  syncServerUrl: '',
+};
+
+/**
+ * Checks that a time zone is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the time zone of this computer, or null if it cannot be read
+ */
+export function getSystemTimezone(): string | null {
+  try {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return isValidTimezone(timezone) ? timezone : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the time zone times are read and shown in
+ * The configured one, otherwise this computer's, otherwise the historical default
+ */
+export function resolveTimezone(settings: AppSettings): string {
+  return settings.timezone || getSystemTimezone() || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Returns the time zones the user can choose from
+ */
+export function getAvailableTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [DEFAULT_TIMEZONE];
+}
+
+/**
+ * Checks that a sync server address can be used (ws:// or wss://)
+ */
+export function isValidSyncServerUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'ws:' || protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+const toPositiveMinutes = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+
+/**
+ * Turns possibly partial or invalid settings into complete ones
+ * Missing or invalid values fall back to the defaults
+ */
+export function normalizeSettings(settings: Partial<Record<keyof AppSettings, unknown>>): AppSettings {
+  const locale = SUPPORTED_LOCALES.find((l) => l === settings.locale) ?? DEFAULT_SETTINGS.locale;
+  // Empty time zone means "this computer"
+  const timezone =
+    typeof settings.timezone === 'string' && isValidTimezone(settings.timezone)
+      ? settings.timezone
+      : DEFAULT_SETTINGS.timezone;
+
+  const presets = normalizePresets(settings.presets);
+  const closingTime =
+    typeof settings.closingTime === 'string' && isValidTimeString(settings.closingTime)
+      ? settings.closingTime
+      : DEFAULT_SETTINGS.closingTime;
+
+  const removeDurations = Array.isArray(settings.removeDurations)
+    ? Array.from(new Set(settings.removeDurations.map(toPositiveMinutes)))
+        .filter((minutes): minutes is number => minutes !== null)
+        .sort((a, b) => a - b)
+    : DEFAULT_SETTINGS.removeDurations;
+
+  const syncServerUrl =
+    typeof settings.syncServerUrl === 'string' && isValidSyncServerUrl(settings.syncServerUrl)
+      ? settings.syncServerUrl
+      : DEFAULT_SETTINGS.syncServerUrl;
+
+  return { locale, timezone, presets, closingTime, removeDurations, syncServerUrl };
+}
@@ -0,0 +1,6 @@
+/**
+ * Sync Feature - Barrel Export
+ * Exports all services for keeping several windows in sync
+ */
+
+export * from './services/sync.service';
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { AppState } from '@/lib/storage/persistence.service';
+import type { SessionRecord, UserCard } from '@/types';
+import { DEFAULT_ALERT_SETTINGS } from '@/features/alerts';
+import { getStateFingerprint, isNewerVersion, mergeStates } from './sync.service';
+
+const card = (id: number, name: string): UserCard => ({ id, name, order: id, progressValue: 0 });
+
+const record = (id: number, cardName: string): SessionRecord => ({
+  id,
+  sectionId: 1,
+  sectionName: 'Main',
+  cardId: 1,
+  cardName,
+  startTime: '2025-03-10T18:00:00.000Z',
+  endTime: '2025-03-10T19:00:00.000Z',
+  scheduledEndTime: '2025-03-10T19:00:00.000Z',
+  bookedMinutes: 60,
+  playedMinutes: 60,
+  amount: null,
+  adjustments: [],
+  endReason: 'expired',
+});
+
+const BASE: AppState = {
+  sections: [{ id: 1, name: 'Main', order: 0 }],
+  cardsBySection: new Map([[1, [card(1, 'PC 1'), card(2, 'PC 2')]]]),
+  sessionHistory: [],
+  customers: [{ id: 1, name: 'Anna', balanceMinutes: 120 }],
+  groups: [],
+  reservations: [],
+  queue: [],
+  alertSettings: DEFAULT_ALERT_SETTINGS,
+};
+
+const renameCard = (state: AppState, id: number, name: string): AppState => ({
+  ...state,
+  cardsBySection: new Map([
+    [1, state.cardsBySection.get(1)!.map((item) => (item.id === id ? { ...item, name } : item))],
+  ]),
+});
+
+describe('isNewerVersion', () => {
+  it('compares stamps, then origins on a tie', () => {
+    expect(isNewerVersion({ origin: 'a', stamp: 2 }, { origin: 'b', stamp: 1 })).toBe(true);
+    expect(isNewerVersion({ origin: 'b', stamp: 1 }, { origin: 'a', stamp: 1 })).toBe(true);
+    expect(isNewerVersion({ origin: 'a', stamp: 1 }, { origin: 'b', stamp: 1 })).toBe(false);
+  });
+});
+
+describe('mergeStates', () => {
+  it('keeps edits made to different items on each side', () => {
+    const local = renameCard(BASE, 1, 'Local');
+    const remote = { ...BASE, customers: [{ id: 1, name: 'Anna', balanceMinutes: 60 }] };
+
+    const merged = mergeStates(BASE, local, remote, false);
+
+    expect(merged.cardsBySection.get(1)!.map((item) => item.name)).toEqual(['Local', 'PC 2']);
+    expect(merged.customers[0].balanceMinutes).toBe(60);
+  });
+
+  it('keeps the preferred side when both edited the same item', () => {
+    const local = renameCard(BASE, 1, 'Local');
+    const remote = renameCard(BASE, 1, 'Remote');
+
+    expect(mergeStates(BASE, local, remote, true).cardsBySection.get(1)![0].name).toBe('Local');
+    expect(mergeStates(BASE, local, remote, false).cardsBySection.get(1)![0].name).toBe('Remote');
+  });
+
+  it('drops an item deleted on one side and left untouched on the other', () => {
+    const remote = { ...BASE, customers: [] };
+    expect(mergeStates(BASE, BASE, remote, true).customers).toEqual([]);
+  });
+
+  it('drops the stations of a deleted section', () => {
+    const remote = { ...BASE, sections: [], cardsBySection: new Map() };
+    const merged = mergeStates(BASE, renameCard(BASE, 1, 'Local'), remote, true);
+
+    expect(merged.sections).toEqual([]);
+    expect(merged.cardsBySection.size).toBe(0);
+  });
+
+  it('keeps both sessions recorded under the same id', () => {
+    const local = { ...BASE, sessionHistory: [record(1, 'PC 1')] };
+    const remote = { ...BASE, sessionHistory: [record(1, 'PC 2')] };
+
+    const merged = mergeStates(BASE, local, remote, true);
+
+    expect(merged.sessionHistory.map((item) => [item.id, item.cardName])).toEqual([
+      [1, 'PC 1'],
+      [2, 'PC 2'],
+    ]);
+  });
+
+  it('keeps both stations added under the same id, with the reservations referring to them', () => {
+    const local = { ...BASE, cardsBySection: new Map([[1, [...BASE.cardsBySection.get(1)!, card(3, 'PS5')]]]) };
+    const remote = {
+      ...BASE,
+      cardsBySection: new Map([[1, [...BASE.cardsBySection.get(1)!, card(3, 'PC 3')]]]),
+      reservations: [
+        { id: 1, sectionId: 1, cardId: 3, name: 'Bruno', startTime: '2025-03-10T18:00:00.000Z', endTime: '2025-03-10T19:00:00.000Z' },
+      ],
+    };
+
+    const merged = mergeStates(BASE, local, remote, true);
+
+    expect(merged.cardsBySection.get(1)!.map((item) => [item.id, item.name])).toEqual([
+      [1, 'PC 1'],
+      [2, 'PC 2'],
+      [3, 'PS5'],
+      [4, 'PC 3'],
+    ]);
+    expect(merged.reservations[0].cardId).toBe(4);
+  });
+
+  it('keeps both customers added under the same id', () => {
+    const local = { ...BASE, customers: [...BASE.customers, { id: 2, name: 'Bruno', balanceMinutes: 60 }] };
+    const remote = { ...BASE, customers: [...BASE.customers, { id: 2, name: 'Carla', balanceMinutes: 30 }] };
+
+    expect(mergeStates(BASE, local, remote, false).customers.map((item) => [item.id, item.name])).toEqual([
+      [1, 'Anna'],
+      [2, 'Carla'],
+      [3, 'Bruno'],
+    ]);
+  });
+
+  it('adds up the balance changes made on both sides', () => {
+    const local = { ...BASE, customers: [{ id: 1, name: 'Anna', balanceMinutes: 90 }] };
+    const remote = { ...BASE, customers: [{ id: 1, name: 'Anna R.', balanceMinutes: 100 }] };
+
+    expect(mergeStates(BASE, local, remote, false).customers).toEqual([{ id: 1, name: 'Anna R.', balanceMinutes: 70 }]);
+  });
+
+  it('ignores progress when comparing stations', () => {
+    const remote = {
+      ...BASE,
+      cardsBySection: new Map([[1, BASE.cardsBySection.get(1)!.map((item) => ({ ...item, progressValue: 50 }))]]),
+    };
+
+    expect(getStateFingerprint(remote)).toBe(getStateFingerprint(BASE));
+    expect(mergeStates(BASE, renameCard(BASE, 2, 'Local'), remote, false).cardsBySection.get(1)![1].name).toBe('Local');
+  });
+});
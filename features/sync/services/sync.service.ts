@@ -0,0 +1,251 @@
+/**
+ * Sync Service
+ * Business logic to reconcile windows editing the den at the same time
+ * Each window merges the states it receives with its own, item by item
+ */
+
+import type { Customer, Reservation, UserCard } from '@/types';
+import type { AppState } from '@/lib/storage/persistence.service';
+import { serializeState } from '@/lib/storage/persistence.service';
+import { appendSessionRecords } from '@/features/history';
+import { generateNextId } from '@/lib/utils/id';
+
+/**
+ * Who made the latest edit of a state, and when
+ */
+export interface SyncVersion {
+  origin: string; // Id of the window that published the state
+  stamp: number;  // Milliseconds timestamp of the edit
+}
+
+/**
+ * Key of a version, to look up the state it names
+ */
+export function getVersionKey({ origin, stamp }: SyncVersion): string {
+  return `${origin}:${stamp}`;
+}
+
+/**
+ * Returns true if version a is more recent than version b
+ * Ties are broken by origin, so every window takes the same decision
+ */
+export function isNewerVersion(a: SyncVersion, b: SyncVersion): boolean {
+  return a.stamp !== b.stamp ? a.stamp > b.stamp : a.origin > b.origin;
+}
+
+/**
+ * Clears the station progress, which changes every second without any edit
+ */
+function withoutProgress<T>(value: T): T {
+  return typeof value === 'object' && value !== null && 'progressValue' in value
+    ? { ...value, progressValue: 0 }
+    : value;
+}
+
+/**
+ * Comparable form of a state, ignoring values derived from the clock
+ */
+export function getStateFingerprint(state: AppState): string {
+  const { cardsBySection, ...serialized } = serializeState(state);
+  return JSON.stringify({
+    ...serialized,
+    cardsBySection: cardsBySection.map(([sectionId, cards]) => [sectionId, cards.map(withoutProgress)]),
+  });
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === undefined || b === undefined) return false;
+  return JSON.stringify(withoutProgress(a)) === JSON.stringify(withoutProgress(b));
+}
+
+/**
+ * Three-way merge of a single item (undefined if missing on that side)
+ * A change made on one side only wins; when both sides changed it, the preferred side wins
+ */
+function mergeItem<T>(base: T | undefined, local: T | undefined, remote: T | undefined, preferLocal: boolean): T | undefined {
+  if (isSame(local, remote)) return local;
+  if (isSame(base, local)) return remote;
+  if (isSame(base, remote)) return local;
+  return preferLocal ? local : remote;
+}
+
+/**
+ * Merges lists of items with an id
+ * The result follows the order of the preferred side, so every window ends with the same list
+ */
+function mergeById<T extends { id: number }>(base: T[], local: T[], remote: T[], preferLocal: boolean): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+  const [primary, secondary] = preferLocal ? [local, remote] : [remote, local];
+  const ids = new Set([...primary.map((item) => item.id), ...secondary.map((item) => item.id)]);
+
+  return [...ids].flatMap((id) => {
+    const item = mergeItem(baseById.get(id), localById.get(id), remoteById.get(id), preferLocal);
+    return item ? [item] : [];
+  });
+}
+
+/**
+ * Merges customers one by one, adding up the balance changes of both sides
+ * so debits made at the same time in two windows all count
+ */
+function mergeCustomers(base: Customer[], local: Customer[], remote: Customer[], preferLocal: boolean): Customer[] {
+  const baseById = new Map(base.map((customer) => [customer.id, customer]));
+  const localById = new Map(local.map((customer) => [customer.id, customer]));
+  const remoteById = new Map(remote.map((customer) => [customer.id, customer]));
+
+  return mergeById(base, local, remote, preferLocal).map((customer) => {
+    const baseCustomer = baseById.get(customer.id);
+    const localCustomer = localById.get(customer.id);
+    const remoteCustomer = remoteById.get(customer.id);
+    // Equal balances on both sides already carry the same changes
+    if (!baseCustomer || !localCustomer || !remoteCustomer || localCustomer.balanceMinutes === remoteCustomer.balanceMinutes) {
+      return customer;
+    }
+    return {
+      ...customer,
+      balanceMinutes: baseCustomer.balanceMinutes
+        + (localCustomer.balanceMinutes - baseCustomer.balanceMinutes)
+        + (remoteCustomer.balanceMinutes - baseCustomer.balanceMinutes),
+    };
+  });
+}
+
+/**
+ * New ids for the items added on both sides under the same id, with different content
+ * Maps the secondary side's id to the next ids free on either side
+ */
+function findIdClashes<T extends { id: number }>(base: T[], primary: T[], secondary: T[]): Map<number, number> {
+  const baseIds = new Set(base.map((item) => item.id));
+  const primaryById = new Map(primary.map((item) => [item.id, item]));
+  const clashing = secondary.filter(
+    (item) => !baseIds.has(item.id) && primaryById.has(item.id) && !isSame(primaryById.get(item.id), item)
+  );
+  const nextId = generateNextId([...primary, ...secondary].map((item) => item.id));
+  return new Map(clashing.map((item, index) => [item.id, nextId + index]));
+}
+
+function renumber<T extends { id: number }>(items: T[], ids: Map<number, number>): T[] {
+  return ids.size === 0 ? items : items.map((item) => ({ ...item, id: ids.get(item.id) ?? item.id }));
+}
+
+/**
+ * Gives new ids to the items the secondary side added under an id the primary side added too
+ * Ids are generated as the highest plus one, so two windows adding an item at once pick the same
+ * Stations, reservations and queued parties follow the new ids of what they refer to
+ */
+function resolveIdClashes(base: AppState, primary: AppState, secondary: AppState): AppState {
+  const sectionIds = findIdClashes(base.sections, primary.sections, secondary.sections);
+  const customerIds = findIdClashes(base.customers, primary.customers, secondary.customers);
+  const groupIds = findIdClashes(base.groups, primary.groups, secondary.groups);
+  const toSectionId = (id: number) => sectionIds.get(id) ?? id;
+
+  const cardIdsBySection = new Map<number, Map<number, number>>();
+  const cardsBySection = new Map<number, UserCard[]>();
+  secondary.cardsBySection.forEach((cards, sectionId) => {
+    const id = toSectionId(sectionId);
+    const cardIds = findIdClashes(base.cardsBySection.get(id) ?? [], primary.cardsBySection.get(id) ?? [], cards);
+    cardIdsBySection.set(id, cardIds);
+    cardsBySection.set(
+      id,
+      renumber(cards, cardIds).map((card) => {
+        const groupId = card.groupId !== undefined ? groupIds.get(card.groupId) : undefined;
+        const customerId = card.timer?.customerId !== undefined ? customerIds.get(card.timer.customerId) : undefined;
+        return {
+          ...card,
+          ...(groupId !== undefined && { groupId }),
+          ...(card.timer && customerId !== undefined && { timer: { ...card.timer, customerId } }),
+        };
+      })
+    );
+  });
+
+  const reservations = secondary.reservations.map((reservation): Reservation => {
+    const sectionId = toSectionId(reservation.sectionId);
+    const customerId = reservation.customerId !== undefined ? customerIds.get(reservation.customerId) : undefined;
+    return {
+      ...reservation,
+      sectionId,
+      cardId: cardIdsBySection.get(sectionId)?.get(reservation.cardId) ?? reservation.cardId,
+      ...(customerId !== undefined && { customerId }),
+    };
+  });
+
+  const queue = secondary.queue.map((entry) =>
+    entry.preferredSectionId !== undefined ? { ...entry, preferredSectionId: toSectionId(entry.preferredSectionId) } : entry
+  );
+
+  return {
+    ...secondary,
+    sections: renumber(secondary.sections, sectionIds),
+    cardsBySection,
+    customers: renumber(secondary.customers, customerIds),
+    groups: renumber(secondary.groups, groupIds),
+    reservations: renumber(reservations, findIdClashes(base.reservations, primary.reservations, reservations)),
+    queue: renumber(queue, findIdClashes(base.queue, primary.queue, queue)),
+  };
+}
+
+/**
+ * Merges a state received from another window into the local one
+ * - Stations, sections, customers, groups, reservations and queued parties are merged one by one:
+ *   edits to different items all survive, an item edited on both sides keeps the most recent edit
+ * - Items added on both sides under the same id are all kept, the older side's get new ids
+ * - Customer balances add up the minutes topped up or debited on each side
+ * @param base - State the remote one was built on, the common ancestor of local and remote
+ * @param preferLocal - True if the local edits are more recent than the remote ones
+ */
+export function mergeStates(base: AppState, localState: AppState, remoteState: AppState, preferLocal: boolean): AppState {
+  const local = preferLocal ? localState : resolveIdClashes(base, remoteState, localState);
+  const remote = preferLocal ? resolveIdClashes(base, localState, remoteState) : remoteState;
+
+  const sections = mergeById(base.sections, local.sections, remote.sections, preferLocal);
+  const sectionIds = new Set(sections.map((section) => section.id));
+
+  const cardsBySection = new Map<number, UserCard[]>();
+  const [primaryCards, secondaryCards] = preferLocal
+    ? [local.cardsBySection, remote.cardsBySection]
+    : [remote.cardsBySection, local.cardsBySection];
+  new Set([...primaryCards.keys(), ...secondaryCards.keys()]).forEach((sectionId) => {
+    if (!sectionIds.has(sectionId)) return;
+    cardsBySection.set(
+      sectionId,
+      mergeById(
+        base.cardsBySection.get(sectionId) ?? [],
+        local.cardsBySection.get(sectionId) ?? [],
+        remote.cardsBySection.get(sectionId) ?? [],
+        preferLocal
+      )
+    );
+  });
+
+  // A record is never edited: same id with different content means two different sessions
+  const [primaryHistory, secondaryHistory] = preferLocal
+    ? [local.sessionHistory, remote.sessionHistory]
+    : [remote.sessionHistory, local.sessionHistory];
+  const baseHistoryIds = new Set(base.sessionHistory.map((record) => record.id));
+  const primaryHistoryById = new Map(primaryHistory.map((record) => [record.id, record]));
+  const clashingRecords = secondaryHistory.filter(
+    (record) =>
+      !baseHistoryIds.has(record.id) &&
+      primaryHistoryById.has(record.id) &&
+      !isSame(primaryHistoryById.get(record.id), record)
+  );
+  const sessionHistory = appendSessionRecords(
+    mergeById(base.sessionHistory, local.sessionHistory, remote.sessionHistory, preferLocal),
+    clashingRecords
+  );
+
+  return {
+    sections,
+    cardsBySection,
+    sessionHistory,
+    customers: mergeCustomers(base.customers, local.customers, remote.customers, preferLocal),
+    groups: mergeById(base.groups, local.groups, remote.groups, preferLocal),
+    reservations: mergeById(base.reservations, local.reservations, remote.reservations, preferLocal),
+    queue: mergeById(base.queue, local.queue, remote.queue, preferLocal),
+    alertSettings: mergeItem(base.alertSettings, local.alertSettings, remote.alertSettings, preferLocal) ?? local.alertSettings,
+  };
+}
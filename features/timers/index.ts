@@ -4,4 +4,4 @@
  */
 
 export * from './services/timer.service';
-
+export * from './services/time-entry.service';
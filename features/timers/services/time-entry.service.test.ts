@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseTimeEntry, resolveTimeEntry } from './time-entry.service';
+
+const duration = (minutes: number) => ({ kind: 'duration', minutes });
+const until = (time: string) => ({ kind: 'until', time });
+
+describe('parseTimeEntry', () => {
+  it('reads a plain number as minutes', () => {
+    expect(parseTimeEntry('90')).toEqual(duration(90));
+  });
+
+  it('reads hours and minutes with units', () => {
+    expect(parseTimeEntry('1h30')).toEqual(duration(90));
+    expect(parseTimeEntry('2 hours')).toEqual(duration(120));
+    expect(parseTimeEntry('45m')).toEqual(duration(45));
+    expect(parseTimeEntry('1.5h')).toEqual(duration(90));
+    expect(parseTimeEntry('1,5 ore')).toEqual(duration(90));
+  });
+
+  it('understands Italian and English joined durations', () => {
+    expect(parseTimeEntry('1 ora e 15')).toEqual(duration(75));
+    expect(parseTimeEntry('1 hour and 15 minutes')).toEqual(duration(75));
+  });
+
+  it('keeps the sign of time added or removed', () => {
+    expect(parseTimeEntry('+45m')).toEqual(duration(45));
+    expect(parseTimeEntry('-10')).toEqual(duration(-10));
+  });
+
+  it('reads clock ends', () => {
+    expect(parseTimeEntry('until 23:30')).toEqual(until('23:30'));
+    expect(parseTimeEntry('fino alle 23')).toEqual(until('23:00'));
+    expect(parseTimeEntry('alle 9.15')).toEqual(until('09:15'));
+    expect(parseTimeEntry('21:45')).toEqual(until('21:45'));
+  });
+
+  it('reads the closing time', () => {
+    expect(parseTimeEntry('till closing')).toEqual({ kind: 'closing' });
+    expect(parseTimeEntry('fino alla chiusura')).toEqual({ kind: 'closing' });
+  });
+
+  it('ignores case and extra spaces', () => {
+    expect(parseTimeEntry('  UNTIL   23:30 ')).toEqual(until('23:30'));
+  });
+
+  it('rejects what it does not understand', () => {
+    expect(parseTimeEntry('')).toBeNull();
+    expect(parseTimeEntry('soon')).toBeNull();
+    expect(parseTimeEntry('until 25:00')).toBeNull();
+    expect(parseTimeEntry('1.5m')).toBeNull();
+    expect(parseTimeEntry('0')).toBeNull();
+  });
+});
+
+describe('resolveTimeEntry', () => {
+  const ROME = 'Europe/Rome';
+  const session = { startTime: '2025-01-15T20:00:00.000Z', endTime: '2025-01-15T21:00:00.000Z' };
+
+  it('moves the end of a running timer by a duration', () => {
+    expect(resolveTimeEntry({ kind: 'duration', minutes: 30 }, session, ROME, '02:00')).toEqual({
+      startTime: session.startTime,
+      endTime: '2025-01-15T21:30:00.000Z',
+    });
+  });
+
+  it('puts a clock end after midnight on the next day', () => {
+    expect(resolveTimeEntry({ kind: 'until', time: '01:00' }, session, ROME, '02:00')?.endTime).toBe(
+      '2025-01-16T00:00:00.000Z'
+    );
+  });
+
+  it('refuses an end before the start', () => {
+    expect(resolveTimeEntry({ kind: 'duration', minutes: -90 }, session, ROME, '02:00')).toBeNull();
+    expect(resolveTimeEntry({ kind: 'duration', minutes: -10 }, null, ROME, '02:00')).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Time Entry Service
+ * Parses the quick time entry field ("1h30", "+45m", "-10", "until 23:30", "till closing", "2 ore")
+ * and resolves it to the start and end of a session
+ * Italian and English keywords are both understood, whatever the interface language
+ */
+
+import dayjs from 'dayjs';
+import type { TimerState } from '@/types';
+import {
+  addMinutesToTimestamp,
+  adjustEndTimeForMidnightCrossing,
+  normalizeTime,
+  toTotalMinutes,
+} from '@/lib/utils/time';
+
+/**
+ * What the staff asked for in the quick entry field
+ * duration: signed minutes, added to a running timer or the length of a new one
+ * until: a wall-clock end (HH:mm); closing: the closing time in the settings
+ */
+export type TimeEntry =
+  | { kind: 'duration'; minutes: number }
+  | { kind: 'until'; time: string }
+  | { kind: 'closing' };
+
+const HOUR_UNITS = ['h', 'hr', 'hrs', 'hour', 'hours', 'ora', 'ore'];
+const MINUTE_UNITS = ['m', 'min', 'mins', 'minute', 'minutes', 'minuto', 'minuti', "'"];
+
+const CLOSING_PATTERN = /^(?:(?:until|till|til|to) )?closing(?: time)?$|^(?:fino (?:alla|a) )?chiusura$/;
+const UNTIL_PATTERN = /^(?:until|till|til|to|fino alle|fino all'|fino a|alle|entro le) ?(\d{1,2})(?:[:.h](\d{2}))?$/;
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Formats hours and minutes as HH:mm, or returns null if they are not a time of day
+ */
+const toClockTime = (hours: number, minutes: number): string | null =>
+  hours < 24 && minutes < 60 ? `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}` : null;
+
+/**
+ * Parses an unsigned duration made of numbers and units ("1h30", "2 hours", "1 ora e 15", "90")
+ * A number without unit is minutes; decimals are only accepted for hours ("1.5h")
+ * @returns Total minutes, or null if the text is not a duration
+ */
+function parseDuration(text: string): number | null {
+  const tokenPattern = /\s*(\d+(?:[.,]\d+)?)\s*([a-z']*)/y;
+  let hours = 0;
+  let minutes = 0;
+  let lastUnit: 'hours' | 'minutes' | null = null;
+
+  while (tokenPattern.lastIndex < text.length) {
+    const match = tokenPattern.exec(text);
+    if (!match) return null;
+
+    const value = parseFloat(match[1].replace(',', '.'));
+    const unit = match[2];
+    if (HOUR_UNITS.includes(unit)) {
+      hours += value;
+      lastUnit = 'hours';
+    } else if ((MINUTE_UNITS.includes(unit) || (unit === '' && lastUnit !== 'minutes')) && Number.isInteger(value)) {
+      minutes += value;
+      lastUnit = 'minutes';
+    } else {
+      return null;
+    }
+  }
+  if (lastUnit === null) return null;
+
+  // Fractions of an hour become minutes, then carry-over is handled as in the dialog fields
+  const normalized = normalizeTime(Math.trunc(hours), minutes + Math.round((hours % 1) * 60));
+  return toTotalMinutes(normalized.hours, normalized.minutes);
+}
+
+/**
+ * Parses the text of the quick entry field
+ * @returns The entry, or null if the text is empty or not understood
+ */
+export function parseTimeEntry(input: string): TimeEntry | null {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  if (CLOSING_PATTERN.test(text)) {
+    return { kind: 'closing' };
+  }
+
+  const until = UNTIL_PATTERN.exec(text) ?? CLOCK_PATTERN.exec(text);
+  if (until) {
+    const time = toClockTime(Number(until[1]), Number(until[2] ?? 0));
+    return time ? { kind: 'until', time } : null;
+  }
+
+  const sign = text.startsWith('-') ? -1 : 1;
+  const body = text.replace(/^[+-] ?/, '').replace(/\b(?:and|e)\b/g, ' ');
+  const minutes = parseDuration(body);
+  return minutes ? { kind: 'duration', minutes: sign * minutes } : null;
+}
+
+/**
+ * Resolves an entry to the session it produces
+ * A running timer keeps its start and a duration moves its end; a new session starts now
+ * Clock ends after midnight fall on the next day (e.g. "until 01:00" at 23:00)
+ * @param session - Times of the running timer, or null for a free station
+ * @returns Start and end ISO timestamps, or null if the entry cannot be applied
+ * (time removed from a free station, an end before the start, an open session)
+ */
+export function resolveTimeEntry(
+  entry: TimeEntry,
+  session: Pick<TimerState, 'startTime' | 'endTime'> | null,
+  timezone: string,
+  closingTime: string
+): { startTime: string; endTime: string } | null {
+  if (session && (!session.startTime || !session.endTime)) return null;
+
+  const startTime = session?.startTime ?? dayjs().toISOString();
+  let endTime: string;
+  switch (entry.kind) {
+    case 'duration':
+      if (!session && entry.minutes <= 0) return null;
+      endTime = addMinutesToTimestamp(session?.endTime ?? startTime, entry.minutes);
+      break;
+    case 'until':
+      endTime = adjustEndTimeForMidnightCrossing(startTime, entry.time, timezone);
+      break;
+    case 'closing':
+      endTime = adjustEndTimeForMidnightCrossing(startTime, closingTime, timezone);
+      break;
+  }
+
+  return endTime && dayjs(endTime).isAfter(startTime) ? { startTime, endTime } : null;
+}
@@ -28,6 +28,26 @@ export function createTimer(durationMinutes: number): TimerState {
   };
 }
 
+/**
+ * Creates an open session: counts up from now with no end, until checkout
+ */
+export function createOpenTimer(): TimerState {
+  return {
+    startTime: addMinutesToCurrentTime(0),
+    endTime: null,
+    initialDurationMinutes: 0,
+    isActive: true,
+    openEnded: true,
+  };
+}
+
+/**
+ * Checks whether a timer is an open session
+ */
+export function isOpenSession(timer: TimerState | undefined): boolean {
+  return !!timer?.isActive && !!timer.openEnded;
+}
+
 /**
  * Creates a timer with specific dates/times
  */
@@ -46,6 +66,7 @@ export function createTimerWithDates(startTime: string, endTime: string): TimerS
 
 /**
  * Updates the dates/times of an existing timer
+ * Giving an open session an end turns it into a regular timer, without logging an adjustment
  */
 export function updateTimerDates(
   timer: TimerState,
@@ -55,15 +76,25 @@ export function updateTimerDates(
   const start = dayjs(startTime);
   const end = dayjs(endTime);
   const durationMinutes = end.diff(start, 'minute');
+  const delta = timer.openEnded ? 0 : durationMinutes - timer.initialDurationMinutes;
 
   return {
     ...timer,
     startTime,
     endTime,
     initialDurationMinutes: durationMinutes,
+    openEnded: undefined,
+    adjustments: delta !== 0 ? appendAdjustment(timer, delta) : timer.adjustments,
   };
 }
 
+/**
+ * Appends an adjustment (minutes added or removed) to the timer's log
+ */
+function appendAdjustment(timer: TimerState, minutes: number) {
+  return [...(timer.adjustments ?? []), { at: addMinutesToCurrentTime(0), minutes }];
+}
+
 /**
  * Adds minutes to an existing timer
  */
@@ -79,6 +110,104 @@ export function addTimeToTimer(timer: TimerState, minutes: number): TimerState {
     ...timer,
     endTime: newEnd,
     initialDurationMinutes: newInitialDuration,
+    adjustments: appendAdjustment(timer, minutes),
+  };
+}
+
+/**
+ * Moves a running timer's end to a given time, so that it expires together with others
+ * The difference is logged as an adjustment, rounded to the minute
+ */
+export function alignTimerEnd(timer: TimerState, endTime: string): TimerState {
+  if (!timer.isActive || !timer.endTime || timer.endTime === endTime) {
+    return timer;
+  }
+
+  const minutes = Math.round(dayjs(endTime).diff(dayjs(timer.endTime), 'minute', true));
+
+  return {
+    ...timer,
+    endTime,
+    initialDurationMinutes: timer.initialDurationMinutes + minutes,
+    adjustments: minutes !== 0 ? appendAdjustment(timer, minutes) : timer.adjustments,
+  };
+}
+
+/**
+ * Checks whether a timer is currently paused
+ */
+export function isTimerPaused(timer: TimerState | undefined): boolean {
+  return !!timer?.isActive && !!timer.pausedAt;
+}
+
+/**
+ * Returns the seconds spent in the ongoing pause on the current station
+ * A pause started before a swap only counts from the moment the timer arrived on the station
+ */
+export function getCurrentPauseSeconds(timer: TimerState): number {
+  if (!timer.pausedAt) return 0;
+
+  const pauseStart = timer.segmentStartTime && dayjs(timer.segmentStartTime).isAfter(dayjs(timer.pausedAt))
+    ? dayjs(timer.segmentStartTime)
+    : dayjs(timer.pausedAt);
+
+  return Math.max(0, dayjs().diff(pauseStart, 'second'));
+}
+
+/**
+ * Pauses a running timer
+ * The remaining time is frozen until the timer is resumed
+ * Timers scheduled in the future cannot be paused before they start
+ */
+export function pauseTimer(timer: TimerState): TimerState {
+  if (!timer.isActive || !timer.endTime || timer.pausedAt) {
+    return timer;
+  }
+
+  if (timer.startTime && dayjs().isBefore(dayjs(timer.startTime))) {
+    return timer;
+  }
+
+  return {
+    ...timer,
+    pausedAt: addMinutesToCurrentTime(0),
+  };
+}
+
+/**
+ * Resumes a paused timer
+ * Pushes the end time forward by the time spent in pause
+ */
+export function resumeTimer(timer: TimerState): TimerState {
+  if (!timer.isActive || !timer.endTime || !timer.pausedAt) {
+    return timer;
+  }
+
+  const pausedSeconds = Math.max(0, dayjs().diff(dayjs(timer.pausedAt), 'second'));
+  const newEnd = dayjs(timer.endTime).add(pausedSeconds, 'second').toISOString();
+
+  return {
+    ...timer,
+    endTime: newEnd,
+    pausedAt: null,
+    pausedSeconds: (timer.pausedSeconds ?? 0) + getCurrentPauseSeconds(timer),
+  };
+}
+
+/**
+ * Prepares a timer to continue on another station (e.g. after a swap)
+ * Starts a new session segment: pause time and adjustments belong to the previous station
+ * The minutes played there are carried, so the session is billed once on its whole duration
+ */
+export function moveTimerToStation(timer: TimerState, playedMinutes: number): TimerState {
+  const now = addMinutesToCurrentTime(0);
+
+  return {
+    ...timer,
+    segmentStartTime: timer.startTime && dayjs().isBefore(dayjs(timer.startTime)) ? null : now,
+    pausedSeconds: 0,
+    adjustments: [],
+    carriedMinutes: (timer.carriedMinutes ?? 0) + playedMinutes,
   };
 }
 
@@ -90,7 +219,7 @@ export function calculateTimerProgress(timer: TimerState | undefined): number {
     return 0;
   }
 
-  const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime);
+  const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime, timer.pausedAt);
   return calculateProgress(timer.initialDurationMinutes, remainingSeconds);
 }
 
@@ -109,3 +238,30 @@ export function updateCardsProgress<T extends { timer?: TimerState; progressValu
   });
 }
 
+/**
+ * Returns true if two sets of cards differ only by their timers' progress
+ * Progress is derived from the clock, so such a change needs no saving
+ */
+export function isProgressOnlyChange<T extends { progressValue: number }>(
+  prev: Map<number, T[]>,
+  next: Map<number, T[]>
+): boolean {
+  if (prev === next) return true;
+  if (prev.size !== next.size) return false;
+
+  return [...next].every(([sectionId, cards]) => {
+    const prevCards = prev.get(sectionId);
+    return (
+      prevCards?.length === cards.length &&
+      cards.every((card, index) => {
+        const prevCard = prevCards[index];
+        if (card === prevCard) return true;
+        const keys = new Set([...Object.keys(card), ...Object.keys(prevCard)]);
+        return [...keys].every(
+          (key) => key === 'progressValue' || card[key as keyof T] === prevCard[key as keyof T]
+        );
+      })
+    );
+  });
+}
+
@@ -0,0 +1,6 @@
+/**
+ * Transfer Feature - Barrel Export
+ * Exports all services for exporting and importing the den state
+ */
+
+export * from './services/transfer.service';
@@ -0,0 +1,227 @@
+/**
+ * Transfer Service
+ * Business logic to export the den to a file and import it on another front desk
+ */
+
+import type { Customer, QueueEntry, Reservation, Section, StationGroup, UserCard } from '@/types';
+import { generateNextId } from '@/lib/utils/id';
+import { getNextOrder, sortByOrder } from '@/lib/utils/order';
+import { serializeState, deserializeState, type AppState, type SerializedState } from '@/lib/storage/persistence.service';
+import { appendSessionRecords } from '@/features/history';
+import dayjs from 'dayjs';
+
+/**
+ * Marker identifying export files
+ */
+export const EXPORT_FORMAT = 'wolfden-manager-export';
+
+/**
+ * Export file structure: the serialized state plus file metadata
+ */
+interface ExportFile extends SerializedState {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+/**
+ * An imported entity whose id was already taken and got a new one
+ */
+export interface ImportConflict {
+  kind: 'section' | 'customer';
+  importedId: number;
+  newId: number;
+  importedName: string;
+  existingName: string;
+}
+
+/**
+ * Result of reading an export file
+ */
+export type ParseImportResult =
+  | { ok: true; state: AppState; exportedAt: string | null; migratedFrom: number | null }
+  | { ok: false; reason: string };
+
+/**
+ * Creates the content of an export file
+ */
+export function createExportFile(state: AppState): string {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    exportedAt: dayjs().toISOString(),
+    ...serializeState(state),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Returns the file name for an export made now
+ */
+export function getExportFileName(): string {
+  return `wolfden-${dayjs().format('YYYY-MM-DD-HHmm')}.json`;
+}
+
+/**
+ * Reads an export file
+ * Files from older versions are migrated; invalid files are rejected with a reason
+ */
+export function parseImportFile(content: string): ParseImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { ok: false, reason: 'The file is not valid JSON' };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || (parsed as ExportFile).format !== EXPORT_FORMAT) {
+    return { ok: false, reason: 'The file is not a Wolfden Manager export' };
+  }
+
+  // Metadata fields are ignored by deserialization
+  const { exportedAt } = parsed as ExportFile;
+  const result = deserializeState(parsed);
+  if (!result.ok) {
+    return result;
+  }
+
+  return {
+    ok: true,
+    state: result.state,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : null,
+    migratedFrom: result.migratedFrom,
+  };
+}
+
+/**
+ * Gives each imported item whose id is already taken a new id
+ * Returns the id remapping and the conflicts found (none if kind is null)
+ */
+function remapIds<T extends { id: number; name: string }>(
+  existing: T[],
+  incoming: T[],
+  kind: ImportConflict['kind'] | null
+): { items: T[]; idMap: Map<number, number>; conflicts: ImportConflict[] } {
+  const takenIds = [...existing.map((item) => item.id), ...incoming.map((item) => item.id)];
+  const idMap = new Map<number, number>();
+  const conflicts: ImportConflict[] = [];
+
+  const items = incoming.map((item) => {
+    const clash = existing.find((e) => e.id === item.id);
+    if (!clash) {
+      idMap.set(item.id, item.id);
+      return item;
+    }
+
+    const newId = generateNextId(takenIds);
+    takenIds.push(newId);
+    idMap.set(item.id, newId);
+    if (kind) {
+      conflicts.push({
+        kind,
+        importedId: item.id,
+        newId,
+        importedName: item.name,
+        existingName: clash.name,
+      });
+    }
+    return { ...item, id: newId };
+  });
+
+  return { items, idMap, conflicts };
+}
+
+/**
+ * Merges an imported state into the current one
+ * Sections and customers with clashing ids are added with new ids and reported
+ * Station timers, reservations, queued parties and history records follow the new ids
+ * Group, reservation and queue ids are internal, so their remapping is not reported
+ * Imported queued parties wait behind the current ones
+ * Global alert settings stay the current ones; section overrides come along with their sections
+ */
+export function mergeAppState(
+  current: AppState,
+  incoming: AppState
+): { state: AppState; conflicts: ImportConflict[] } {
+  const customers = remapIds<Customer>(current.customers, incoming.customers, 'customer');
+  const sections = remapIds<Section>(current.sections, incoming.sections, 'section');
+  const groups = remapIds<StationGroup>(current.groups, incoming.groups, null);
+
+  const remapCustomer = (customerId: number | undefined) =>
+    customerId !== undefined ? customers.idMap.get(customerId) ?? customerId : undefined;
+
+  const cardsBySection = new Map(current.cardsBySection);
+  incoming.cardsBySection.forEach((cards, sectionId) => {
+    const newSectionId = sections.idMap.get(sectionId);
+    if (newSectionId === undefined) return;
+
+    cardsBySection.set(
+      newSectionId,
+      cards.map((card): UserCard => ({
+        ...card,
+        ...(card.groupId !== undefined ? { groupId: groups.idMap.get(card.groupId) ?? card.groupId } : {}),
+        ...(card.timer?.customerId !== undefined
+          ? { timer: { ...card.timer, customerId: remapCustomer(card.timer.customerId) } }
+          : {}),
+      }))
+    );
+  });
+
+  // Reservations have no name of their own, so clashing ids are renumbered after the current ones
+  const takenReservationIds = current.reservations.map((r) => r.id);
+  const reservations = incoming.reservations.flatMap((reservation): Reservation[] => {
+    const sectionId = sections.idMap.get(reservation.sectionId);
+    if (sectionId === undefined) return [];
+
+    const id = takenReservationIds.includes(reservation.id)
+      ? generateNextId(takenReservationIds)
+      : reservation.id;
+    takenReservationIds.push(id);
+    return [{
+      ...reservation,
+      id,
+      sectionId,
+      ...(reservation.customerId !== undefined ? { customerId: remapCustomer(reservation.customerId) } : {}),
+    }];
+  });
+
+  const takenQueueIds = current.queue.map((entry) => entry.id);
+  const queue = incoming.queue.map((entry): QueueEntry => {
+    const id = takenQueueIds.includes(entry.id) ? generateNextId(takenQueueIds) : entry.id;
+    takenQueueIds.push(id);
+    const { preferredSectionId, ...rest } = entry;
+    const sectionId = preferredSectionId !== undefined ? sections.idMap.get(preferredSectionId) : undefined;
+    return { ...rest, id, ...(sectionId !== undefined ? { preferredSectionId: sectionId } : {}) };
+  });
+
+  const sessionHistory = appendSessionRecords(
+    current.sessionHistory,
+    // Imported ids are replaced when appending
+    incoming.sessionHistory.map((record) => ({
+      ...record,
+      sectionId: sections.idMap.get(record.sectionId) ?? record.sectionId,
+      ...(record.customerId !== undefined ? { customerId: remapCustomer(record.customerId) } : {}),
+    }))
+  );
+
+  return {
+    state: {
+      // Imported sections go after the current ones, keeping their relative order
+      sections: [
+        ...current.sections,
+        ...sortByOrder(sections.items).map((section, index) => ({
+          ...section,
+          order: getNextOrder(current.sections) + index,
+        })),
+      ],
+      cardsBySection,
+      sessionHistory,
+      customers: [...current.customers, ...customers.items],
+      groups: [...current.groups, ...groups.items],
+      reservations: [...current.reservations, ...reservations],
+      queue: [...current.queue, ...queue],
+      alertSettings: current.alertSettings,
+    },
+    conflicts: [...sections.conflicts, ...customers.conflicts],
+  };
+}
@@ -13,4 +13,9 @@ export { useCardInteractions } from './use-card-interactions';
 export { useGlobalShortcuts } from './use-global-shortcuts';
 export { useI18n } from './use-i18n';
 export { useAudio } from './use-audio';
+export { useUndoToast } from './use-undo-toast';
+export { useBalanceWarning } from './use-balance-warning';
+export { usePresets } from './use-presets';
+export { useDataExport } from './use-data-export';
 
+export { useQueuePlan, useQueueAlerts } from './use-queue-plan';
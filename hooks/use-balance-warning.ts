@@ -0,0 +1,34 @@
+/**
+ * Hook to warn that a session was refused for lack of prepaid balance
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store/app-store';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatBalance } from '@/features/customers';
+
+/**
+ * Returns a function that shows the warning for the customer whose balance is too low
+ * Called after the store refused to start or extend a session
+ */
+export function useBalanceWarning() {
+  const { customers, getCustomerAvailableMinutes } = useAppStore();
+  const { t } = useI18n();
+
+  return useCallback(
+    (customerId?: number) => {
+      const customer = customers.find((c) => c.id === customerId);
+
+      toast.warning(t('addTimeDialog.errors.insufficientBalance'), {
+        description: customer
+          ? t('customers.balanceTooLow', {
+              name: customer.name,
+              available: formatBalance(getCustomerAvailableMinutes(customer.id)),
+            })
+          : t('customers.balanceTooLowGroup'),
+      });
+    },
+    [customers, getCustomerAvailableMinutes, t]
+  );
+}
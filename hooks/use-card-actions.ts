@@ -5,13 +5,46 @@
 
 import { useCallback } from 'react';
 import { useAppStore } from '@/store/app-store';
+import { useI18n } from '@/hooks/use-i18n';
+import { useUndoToast } from '@/hooks/use-undo-toast';
+import { useBalanceWarning } from '@/hooks/use-balance-warning';
+import { useSettings } from '@/store/settings-store';
+import { isOpenSession, resolveTimeEntry, type TimeEntry } from '@/features/timers';
+import { resolvePresetEnd, resolvePresetStart } from '@/features/presets';
+import { getSessionMinutes } from '@/features/history';
+import { calculateAmount, formatAmount, resolveTariff } from '@/features/billing';
+import type { Tariff, TimerPreset } from '@/types';
 
 /**
  * Hook that returns pre-configured actions for a specific card
  * Avoids having to pass sectionId and cardId every time
+ * Destructive actions are announced with an "Undo" toast
  */
 export function useCardActions(sectionId: number, cardId: number) {
   const store = useAppStore();
+  const { t, locale, formatDuration } = useI18n();
+  const notifyUndoable = useUndoToast();
+  const warnBalance = useBalanceWarning();
+  const { settings, timezone } = useSettings();
+
+  const getCard = useCallback(
+    () => store.getCardsBySection(sectionId).find((card) => card.id === cardId),
+    [store, sectionId, cardId]
+  );
+
+  const getCardName = useCallback(() => getCard()?.name ?? '', [getCard]);
+
+  /**
+   * Warns if the store refused the change because the customer's balance doesn't cover it
+   */
+  const checkBalance = useCallback(
+    (applied: boolean, customerId?: number) => {
+      if (!applied) {
+        warnBalance(customerId ?? getCard()?.timer?.customerId);
+      }
+    },
+    [warnBalance, getCard]
+  );
 
   const updateCardName = useCallback(
     (name: string) => {
@@ -20,50 +53,200 @@ export function useCardActions(sectionId: number, cardId: number) {
     [store, sectionId, cardId]
   );
 
+  const updateCardTariff = useCallback(
+    (tariff: Tariff | undefined) => {
+      store.updateCardTariff(sectionId, cardId, tariff);
+    },
+    [store, sectionId, cardId]
+  );
+
   const deleteCard = useCallback(() => {
+    const name = getCardName();
     store.deleteCard(sectionId, cardId);
-  }, [store, sectionId, cardId]);
+    notifyUndoable(t('undo.stationDeleted', { name }));
+  }, [store, sectionId, cardId, getCardName, notifyUndoable, t]);
 
   const startTimer = useCallback(
-    (durationMinutes: number) => {
-      store.startTimer(sectionId, cardId, durationMinutes);
+    (durationMinutes: number, customerId?: number) => {
+      checkBalance(store.startTimer(sectionId, cardId, durationMinutes, customerId), customerId);
     },
-    [store, sectionId, cardId]
+    [store, sectionId, cardId, checkBalance]
+  );
+
+  const startOpenTimer = useCallback(
+    (customerId?: number) => {
+      checkBalance(store.startOpenTimer(sectionId, cardId, customerId), customerId);
+    },
+    [store, sectionId, cardId, checkBalance]
   );
 
   const startTimerWithDates = useCallback(
-    (startTime: string, endTime: string) => {
-      store.startTimerWithDates(sectionId, cardId, startTime, endTime);
+    (startTime: string, endTime: string, customerId?: number) => {
+      checkBalance(store.startTimerWithDates(sectionId, cardId, startTime, endTime, customerId), customerId);
     },
-    [store, sectionId, cardId]
+    [store, sectionId, cardId, checkBalance]
   );
 
   const updateTimerDates = useCallback(
     (startTime: string, endTime: string) => {
-      store.updateTimerDates(sectionId, cardId, startTime, endTime);
+      checkBalance(store.updateTimerDates(sectionId, cardId, startTime, endTime));
     },
-    [store, sectionId, cardId]
+    [store, sectionId, cardId, checkBalance]
   );
 
   const addTimeToTimer = useCallback(
     (minutes: number) => {
-      store.addTimeToTimer(sectionId, cardId, minutes);
+      checkBalance(store.addTimeToTimer(sectionId, cardId, minutes));
     },
-    [store, sectionId, cardId]
+    [store, sectionId, cardId, checkBalance]
   );
 
+  /**
+   * Adds minutes and aligns the rest of the station's group to the same end
+   */
+  const addTimeToGroup = useCallback(
+    (minutes: number) => {
+      // The refused member may be linked to another customer: the warning stays generic
+      if (!store.addTimeToTimer(sectionId, cardId, minutes, true)) {
+        warnBalance();
+      }
+    },
+    [store, sectionId, cardId, warnBalance]
+  );
+
+  /**
+   * Starts the station with a preset, or applies it to the running session
+   * Durations add time; clock and closing presets move the end to their time
+   * An open session has no end to move and is left as it is
+   */
+  const applyPreset = useCallback(
+    (preset: TimerPreset, customerId?: number) => {
+      const timer = getCard()?.timer;
+
+      if (!timer?.isActive) {
+        if (preset.kind === 'duration') {
+          startTimer(preset.minutes, customerId);
+        } else {
+          const { startTime, endTime } = resolvePresetStart(preset, timezone, settings.closingTime);
+          startTimerWithDates(startTime, endTime, customerId);
+        }
+        return;
+      }
+
+      if (isOpenSession(timer)) return;
+
+      if (preset.kind === 'duration') {
+        addTimeToTimer(preset.minutes);
+        return;
+      }
+      const endTime = resolvePresetEnd(preset, timer.startTime, timezone, settings.closingTime);
+      if (timer.startTime && endTime) {
+        updateTimerDates(timer.startTime, endTime);
+      }
+    },
+    [getCard, startTimer, startTimerWithDates, addTimeToTimer, updateTimerDates, timezone, settings.closingTime]
+  );
+
+  /**
+   * Applies a quick time entry ("1h30", "-10", "until 23:30", ...) to the station
+   * Durations start the timer or add time; clock ends start it or move its end
+   */
+  const applyTimeEntry = useCallback(
+    (entry: TimeEntry, customerId?: number) => {
+      const timer = getCard()?.timer;
+      const session = timer?.isActive ? timer : null;
+      const range = resolveTimeEntry(entry, session, timezone, settings.closingTime);
+      if (!range) return;
+
+      if (entry.kind === 'duration') {
+        if (session) {
+          addTimeToTimer(entry.minutes);
+        } else {
+          startTimer(entry.minutes, customerId);
+        }
+      } else if (session) {
+        updateTimerDates(range.startTime, range.endTime);
+      } else {
+        startTimerWithDates(range.startTime, range.endTime, customerId);
+      }
+    },
+    [getCard, startTimer, startTimerWithDates, addTimeToTimer, updateTimerDates, timezone, settings.closingTime]
+  );
+
+  const pauseTimer = useCallback(() => {
+    store.pauseTimer(sectionId, cardId);
+  }, [store, sectionId, cardId]);
+
+  const resumeTimer = useCallback(() => {
+    store.resumeTimer(sectionId, cardId);
+  }, [store, sectionId, cardId]);
+
+  /**
+   * Clears the timer; an open session is checked out with its played time and amount
+   */
   const clearTimer = useCallback(() => {
+    const card = getCard();
     store.clearTimer(sectionId, cardId);
+
+    if (!card?.timer || !isOpenSession(card.timer)) {
+      notifyUndoable(t('undo.timerReset', { name: card?.name ?? '' }));
+      return;
+    }
+
+    const playedMinutes = getSessionMinutes(card.timer);
+    const tariff = resolveTariff(store.sections.find((s) => s.id === sectionId), card);
+    notifyUndoable(t('undo.checkedOut', { name: card.name, duration: formatDuration(playedMinutes) }), {
+      description: tariff ? formatAmount(calculateAmount(tariff, playedMinutes), locale) : undefined,
+    });
+  }, [store, sectionId, cardId, getCard, notifyUndoable, t, locale, formatDuration]);
+
+  /**
+   * Clears the timers of the whole group the station belongs to
+   */
+  const clearGroup = useCallback(() => {
+    const groupId = store.getCardsBySection(sectionId).find((card) => card.id === cardId)?.groupId;
+    const name = store.groups.find((group) => group.id === groupId)?.name ?? '';
+    store.clearTimer(sectionId, cardId, true);
+    notifyUndoable(t('undo.groupReset', { name }));
+  }, [store, sectionId, cardId, notifyUndoable, t]);
+
+  /**
+   * Swaps the timer with another station
+   */
+  const swapCard = useCallback(
+    (targetSectionId: number, targetCardId: number) => {
+      const name = getCardName();
+      const target = store.getAllCards().find(
+        (item) => item.sectionId === targetSectionId && item.card.id === targetCardId
+      );
+      store.swapCardTimers(sectionId, cardId, targetSectionId, targetCardId);
+      notifyUndoable(t('undo.stationsSwapped', { from: name, to: target?.card.name ?? '' }));
+    },
+    [store, sectionId, cardId, getCardName, notifyUndoable, t]
+  );
+
+  const leaveGroup = useCallback(() => {
+    store.leaveGroup(sectionId, cardId);
   }, [store, sectionId, cardId]);
 
   return {
     updateCardName,
+    updateCardTariff,
     deleteCard,
     startTimer,
+    startOpenTimer,
     startTimerWithDates,
     updateTimerDates,
     addTimeToTimer,
+    addTimeToGroup,
+    applyPreset,
+    applyTimeEntry,
+    pauseTimer,
+    resumeTimer,
     clearTimer,
+    clearGroup,
+    swapCard,
+    leaveGroup,
   };
 }
 
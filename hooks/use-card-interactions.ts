@@ -5,42 +5,48 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { isCtrlOrCmd, isKey } from '@/lib/utils/keyboard';
+import { getPresetByShortcut } from '@/features/presets';
+import type { TimerPreset } from '@/types';
 
 interface UseCardInteractionsProps {
   isTimerActive: boolean;
-  onStartTimer: (durationMinutes: number) => void;
+  presets: TimerPreset[]; // The first nine are bound to Ctrl+1 ... Ctrl+9
+  onApplyPreset: (preset: TimerPreset) => void;
   onAddTime: (minutes: number) => void;
   onOpenCustomDialog: () => void;
   onSwapCard?: () => void;
   onClearTimer?: () => void;
+  onTogglePause?: () => void;
   canSwapCard?: boolean;
 }
 
 /**
  * Handles user interactions with the card:
  * - Hover state to enable keyboard shortcuts
- * - Keyboard shortcuts (Ctrl+1, Ctrl+2, Ctrl+3, Ctrl+S, Ctrl+R)
+ * - Keyboard shortcuts (Ctrl+1 ... Ctrl+9, Ctrl+S, Ctrl+R, Ctrl+P)
+ *   Presets of Ctrl+1 ... Ctrl+9 come from the settings
  * - Scroll with Ctrl to adjust time by 5 minutes
  * - Double click to open custom dialog
  */
 export function useCardInteractions({
   isTimerActive,
-  onStartTimer,
+  presets,
+  onApplyPreset,
   onAddTime,
   onOpenCustomDialog,
   onSwapCard,
   onClearTimer,
+  onTogglePause,
   canSwapCard = false,
 }: UseCardInteractionsProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   /**
    * Handles keyboard shortcuts when the card is hovered
-   * Ctrl+1: add/start 1 hour
-   * Ctrl+2: add/start 2 hours
-   * Ctrl+3: add 30 minutes (only when timer is active)
+   * Ctrl+1 ... Ctrl+9: start the timer with the matching preset, or apply it to the running one
    * Ctrl+S: swap card (only when timer is active)
    * Ctrl+R: reset timer (only when timer is active)
+   * Ctrl+P: pause/resume timer (only when timer is active)
    */
   useEffect(() => {
     if (!isHovered) return;
@@ -63,30 +69,26 @@ export function useCardInteractions({
           onClearTimer();
           return;
         }
+        // Ctrl+P: pause/resume timer
+        if (isKey(e, 'p') && onTogglePause) {
+          e.preventDefault();
+          onTogglePause();
+          return;
+        }
       }
 
-      // Map keyboard shortcuts to duration in minutes
-      const shortcuts: Record<string, number> = {
-        '1': 60,
-        '2': 120,
-        '3': 30, // Works for both starting timer and adding time
-      };
-
-      const duration = shortcuts[e.key];
-      if (duration) {
+      // Map number keys to presets
+      // Works for both starting timer and adding time
+      const preset = /^[1-9]$/.test(e.key) ? getPresetByShortcut(presets, Number(e.key)) : undefined;
+      if (preset) {
         e.preventDefault();
-        
-        if (isTimerActive) {
-          onAddTime(duration);
-        } else {
-          onStartTimer(duration);
-        }
+        onApplyPreset(preset);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isHovered, isTimerActive, onAddTime, onStartTimer, onSwapCard, onClearTimer, canSwapCard]);
+  }, [isHovered, isTimerActive, presets, onApplyPreset, onSwapCard, onClearTimer, onTogglePause, canSwapCard]);
 
   /**
    * Handles scroll with Ctrl pressed to adjust time
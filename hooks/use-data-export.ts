@@ -0,0 +1,37 @@
+/**
+ * Hook to export the den to a file
+ * Shared by the data transfer menu and the command palette
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store/app-store';
+import { useI18n } from '@/hooks/use-i18n';
+import { createExportFile, getExportFileName } from '@/features/transfer';
+
+/**
+ * Triggers a browser download of a text file
+ */
+function downloadFile(fileName: string, content: string) {
+  const blob = new Blob([content], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Returns a function that downloads the current state and confirms it with a toast
+ */
+export function useDataExport() {
+  const { getAppState } = useAppStore();
+  const { t } = useI18n();
+
+  return useCallback(() => {
+    const fileName = getExportFileName();
+    downloadFile(fileName, createExportFile(getAppState()));
+    toast.success(t('transfer.exported'), { description: fileName });
+  }, [getAppState, t]);
+}
@@ -9,18 +9,27 @@ import { isCtrlKey, isInputField } from '@/lib/utils/keyboard';
 interface UseGlobalShortcutsProps {
   onToggleEditMode?: () => void;
   onToggleAudio?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onOpenCommandPalette?: () => void;
 }
 
 /**
  * Global keyboard shortcuts:
  * - Ctrl+E: Toggle edit mode
  * - Ctrl+M: Toggle audio mute
+ * - Ctrl+Z: Undo
+ * - Ctrl+Shift+Z: Redo
+ * - Ctrl+K: Open the command palette
  * 
  * These shortcuts work globally but are disabled when user is typing in input fields
  */
 export function useGlobalShortcuts({
   onToggleEditMode,
   onToggleAudio,
+  onUndo,
+  onRedo,
+  onOpenCommandPalette,
 }: UseGlobalShortcutsProps) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -40,10 +49,31 @@ export function useGlobalShortcuts({
         onToggleAudio();
         return;
       }
+
+      // Ctrl+Shift+Z: Redo
+      if (onRedo && isCtrlKey(e, 'z', true) && e.shiftKey) {
+        e.preventDefault();
+        onRedo();
+        return;
+      }
+
+      // Ctrl+Z: Undo
+      if (onUndo && isCtrlKey(e, 'z')) {
+        e.preventDefault();
+        onUndo();
+        return;
+      }
+
+      // Ctrl+K: Open the command palette
+      if (onOpenCommandPalette && isCtrlKey(e, 'k')) {
+        e.preventDefault();
+        onOpenCommandPalette();
+        return;
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onToggleEditMode, onToggleAudio]);
+  }, [onToggleEditMode, onToggleAudio, onUndo, onRedo, onOpenCommandPalette]);
 }
 
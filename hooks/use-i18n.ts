@@ -1,17 +1,18 @@
 /**
  * Hook for i18n translations
  * Integrates with Next.js i18n routing
- * Reads locale from cookie, URL path, or falls back to default
+ * Reads locale from URL path, cookie, or falls back to the settings
  * 
  * Compatible with Next.js i18n routing approach:
  * - Reads locale from URL path (e.g., /en/page -> 'en')
  * - Falls back to cookie (NEXT_LOCALE) if no path prefix
- * - Uses default locale ('it') as final fallback
+ * - Uses the language chosen in the settings as final fallback
  */
 
 import { usePathname } from 'next/navigation';
-import { getTranslation, defaultLocale, type Locale } from '@/i18n';
+import { getTranslation, formatDuration as formatDurationForLocale, type Locale } from '@/i18n';
 import { useEffect, useState } from 'react';
+import { useSettings } from '@/store/settings-store';
 
 const SUPPORTED_LOCALES = ['it', 'en'] as const;
 const LOCALE_COOKIE_NAME = 'NEXT_LOCALE';
@@ -53,11 +54,12 @@ function getLocaleFromPath(pathname: string): Locale | undefined {
 
 /**
  * Hook to get translations
- * Automatically detects locale from URL path, cookie, or uses default
+ * Automatically detects locale from URL path, cookie, or uses the settings
  */
 export function useI18n() {
   const pathname = usePathname();
-  const [locale, setLocale] = useState<Locale>(defaultLocale);
+  const { settings } = useSettings();
+  const [locale, setLocale] = useState<Locale>(settings.locale);
 
   useEffect(() => {
     // Strategy 1: Extract locale from pathname (e.g., /en/page -> 'en')
@@ -74,14 +76,16 @@ export function useI18n() {
       return;
     }
 
-    // Strategy 3: Fallback to default
-    setLocale(defaultLocale);
-  }, [pathname]);
+    // Strategy 3: Fallback to the language chosen in the settings
+    setLocale(settings.locale);
+  }, [pathname, settings.locale]);
 
   const t = (key: string, params?: Record<string, string | number>) => {
     return getTranslation(locale, key, params);
   };
 
-  return { t, locale };
+  const formatDuration = (minutes: number) => formatDurationForLocale(locale, minutes);
+
+  return { t, locale, formatDuration };
 }
 
@@ -0,0 +1,47 @@
+/**
+ * Hook for the timer presets in the settings
+ * Gives each preset its display label and keyboard shortcut
+ */
+
+import { useSettings } from '@/store/settings-store';
+import { useI18n } from '@/hooks/use-i18n';
+import { getPresetShortcuts } from '@/features/presets';
+import type { TimerPreset } from '@/types';
+
+export interface PresetEntry {
+  preset: TimerPreset;
+  label: string;     // The preset name, or its description if unnamed
+  detail: string;    // What the preset does (e.g. "22:00–06:00")
+  shortcut?: number; // Ctrl+N, only for the first nine
+}
+
+/**
+ * Returns the presets in display order, with their labels and shortcuts
+ */
+export function usePresets() {
+  const { settings } = useSettings();
+  const { t, formatDuration } = useI18n();
+
+  /**
+   * Describes what a preset does, in the current language
+   */
+  const describePreset = (preset: TimerPreset): string => {
+    switch (preset.kind) {
+      case 'duration':
+        return formatDuration(preset.minutes);
+      case 'clock':
+        return preset.startTime
+          ? t('presets.window', { start: preset.startTime, end: preset.endTime })
+          : t('presets.until', { time: preset.endTime });
+      case 'closing':
+        return t('presets.untilClosing', { time: settings.closingTime });
+    }
+  };
+
+  const presets: PresetEntry[] = getPresetShortcuts(settings.presets).map(({ preset, shortcut }) => {
+    const detail = describePreset(preset);
+    return { preset, label: preset.name || detail, detail, shortcut };
+  });
+
+  return { presets, describePreset };
+}
@@ -0,0 +1,48 @@
+/**
+ * Hooks for the waiting queue: station suggestions and "can be seated" alerts
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store/app-store';
+import { useI18n } from '@/hooks/use-i18n';
+import { planQueue, type QueueSuggestion } from '@/features/queue';
+
+/**
+ * Returns the stations suggested to each queued party, by entry id
+ * Recomputed as timers run down
+ */
+export function useQueuePlan(): Map<number, QueueSuggestion> {
+  const { queue, sections, getCardsBySection, reservations } = useAppStore();
+
+  return useMemo(() => {
+    const cardsBySection = new Map(sections.map((section) => [section.id, getCardsBySection(section.id)]));
+    return planQueue(queue, sections, cardsBySection, reservations);
+  }, [queue, sections, getCardsBySection, reservations]);
+}
+
+/**
+ * Announces queued parties as soon as their suggested stations are free
+ * Each party is announced once, until its stations become busy again
+ */
+export function useQueueAlerts(plan: Map<number, QueueSuggestion>) {
+  const { queue } = useAppStore();
+  const { t } = useI18n();
+  const announcedRef = useRef(new Set<number>());
+
+  useEffect(() => {
+    const seatable = new Set(
+      queue.filter((entry) => plan.get(entry.id)?.waitSeconds === 0).map((entry) => entry.id)
+    );
+
+    queue.forEach((entry) => {
+      if (seatable.has(entry.id) && !announcedRef.current.has(entry.id)) {
+        toast.info(t('queue.canSeat', { name: entry.name }), {
+          description: t('queue.canSeatDescription', { count: entry.partySize }),
+        });
+      }
+    });
+
+    announcedRef.current = seatable;
+  }, [queue, plan, t]);
+}
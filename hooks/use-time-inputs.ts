@@ -10,6 +10,7 @@ import {
   adjustEndTimeForMidnightCrossing,
   getCurrentTimeString
 } from '@/lib/utils/time';
+import { useSettings } from '@/store/settings-store';
 import type { TimerState } from '@/types';
 
 interface UseTimeInputsProps {
@@ -20,18 +21,20 @@ interface UseTimeInputsProps {
 
 /**
  * Hook that manages time input state and handles conversions
+ * Times are read and written in the time zone from the settings
  * @param timer - Current timer state
  * @param onTimeChange - Callback when times change
  * @param mounted - Whether component is mounted (to prevent hydration mismatch)
  * @returns Time input values and change handlers
  */
 export function useTimeInputs({ timer, onTimeChange, mounted }: UseTimeInputsProps) {
+  const { timezone } = useSettings();
   const [startTimeValue, setStartTimeValue] = useState('00:00');
   const [endTimeValue, setEndTimeValue] = useState('00:00');
 
   // Convert ISO timestamp to HH:mm for display
-  const startTime = mounted ? timestampToTimeString(timer?.startTime ?? null) : '00:00';
-  const endTime = mounted ? timestampToTimeString(timer?.endTime ?? null) : '00:00';
+  const startTime = mounted ? timestampToTimeString(timer?.startTime ?? null, timezone) : '00:00';
+  const endTime = mounted ? timestampToTimeString(timer?.endTime ?? null, timezone) : '00:00';
 
   // Update local state when timer changes
   useEffect(() => {
@@ -50,25 +53,25 @@ export function useTimeInputs({ timer, onTimeChange, mounted }: UseTimeInputsPro
     let newTime = e.target.value;
     
     if (!newTime) {
-      newTime = getCurrentTimeString();
+      newTime = getCurrentTimeString(timezone);
       setStartTimeValue(newTime);
     }
     
     if (onTimeChange && newTime) {
       // Keep date from existing timer, change only time; otherwise use current date
-      const newStartISO = timeStringToISO(newTime, timer?.startTime);
+      const newStartISO = timeStringToISO(newTime, timezone, timer?.startTime);
       
       if (!newStartISO) return;
       
       const baseDateForEnd = newStartISO || timer?.startTime;
-      let endISO = timeStringToISO(endTimeValue, baseDateForEnd);
+      let endISO = timeStringToISO(endTimeValue, timezone, baseDateForEnd);
       
       if (endISO && endTimeValue) {
-        endISO = adjustEndTimeForMidnightCrossing(newStartISO, endTimeValue);
+        endISO = adjustEndTimeForMidnightCrossing(newStartISO, endTimeValue, timezone);
         onTimeChange(newStartISO, endISO);
       }
     }
-  }, [onTimeChange, endTimeValue, timer]);
+  }, [onTimeChange, endTimeValue, timer, timezone]);
 
   const handleEndTimeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newTime = e.target.value;
@@ -79,7 +82,7 @@ export function useTimeInputs({ timer, onTimeChange, mounted }: UseTimeInputsPro
     let newTime = e.target.value;
     
     if (!newTime) {
-      newTime = getCurrentTimeString();
+      newTime = getCurrentTimeString(timezone);
       setEndTimeValue(newTime);
     }
     
@@ -88,20 +91,20 @@ export function useTimeInputs({ timer, onTimeChange, mounted }: UseTimeInputsPro
       
       if (timer?.startTime) {
         // Existing timer: keep existing start time
-        startISO = timeStringToISO(startTimeValue, timer.startTime);
+        startISO = timeStringToISO(startTimeValue, timezone, timer.startTime);
       } else {
         // No timer: set start time to current time when entering end time
-        const currentTime = getCurrentTimeString();
+        const currentTime = getCurrentTimeString(timezone);
         setStartTimeValue(currentTime);
-        startISO = timeStringToISO(currentTime, null);
+        startISO = timeStringToISO(currentTime, timezone, null);
       }
       
       if (!startISO) return;
       
-      const newEndISO = adjustEndTimeForMidnightCrossing(startISO, newTime);
+      const newEndISO = adjustEndTimeForMidnightCrossing(startISO, newTime, timezone);
       onTimeChange(startISO, newEndISO);
     }
-  }, [onTimeChange, startTimeValue, timer]);
+  }, [onTimeChange, startTimeValue, timer, timezone]);
 
   return {
     startTime,
@@ -1,34 +1,52 @@
 "use client"
 
-import { useState, useEffect, useMemo, useRef } from 'react';
-import type { TimerState } from '@/types';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { AlertSettings, TimerState } from '@/types';
 import { 
   getRemainingSeconds, 
+  getElapsedSeconds,
   calculateProgress, 
   formatRemainingTime, 
   isTimerExpired,
   calculateProgressVariant
 } from '@/lib/utils/time';
-import { playTimerExpiredSound } from '@/lib/utils/sound';
+import { playAlertTone, playTimerExpiredSound } from '@/lib/utils/sound';
+import { DEFAULT_ALERT_SETTINGS, getCrossedPreExpiryAlert, getPreExpiryTone } from '@/features/alerts';
+import { claimAlert } from '@/lib/utils/notifications';
+
+interface UseTimerCalculationsOptions {
+  alertSettings?: AlertSettings;             // Color thresholds, progress window and pre-expiry alerts
+  onPreExpiry?: (minutes: number) => void;   // Called with the minutes left when a pre-expiry alert fires
+  onExpired?: () => void;                    // Called when the timer expires, along with the sound
+  silent?: boolean;                          // No sounds nor alert callbacks (e.g. on the customer display)
+  alertKey?: string;                         // Identifies the station across windows, so only one window alerts for it
+}
 
 /**
  * Hook to calculate derived values from a timer state
  * Centralizes all calculation logic to avoid duplications
  * Updates frequently for smooth progress bar animation and real-time remaining time
+ * Open sessions have no remaining time: they count elapsed time up and never expire
  * @param timer - Timer state (can be undefined if not active)
- * @returns Calculated values: progress, remaining time, expiration status
+ * @param options - Alert settings of the station and callbacks for its alerts
+ * @returns Calculated values: progress, remaining time (elapsed time for open sessions), expiration status
  */
-export function useTimerCalculations(timer: TimerState | undefined) {
+export function useTimerCalculations(
+  timer: TimerState | undefined,
+  { alertSettings = DEFAULT_ALERT_SETTINGS, onPreExpiry, onExpired, silent = false, alertKey }: UseTimerCalculationsOptions = {}
+) {
   // Force re-calculation frequently by updating a timestamp
   const [currentTimestamp, setCurrentTimestamp] = useState(Date.now());
   const previousExpiredRef = useRef(false);
+  // Remaining seconds at the previous reading, null until the timer is running
+  const previousRemainingRef = useRef<number | null>(null);
   const hasInitializedRef = useRef(false);
 
   // Initialize previousExpiredRef based on initial timer state
   // If timer is already expired on mount, don't play sound
   useEffect(() => {
     if (!hasInitializedRef.current && timer?.isActive && timer.endTime) {
-      const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime);
+      const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime, timer.pausedAt);
       const isExpired = isTimerExpired(remainingSeconds);
       // Mark as handled if already expired to avoid sound on reload
       previousExpiredRef.current = isExpired;
@@ -36,24 +54,41 @@ export function useTimerCalculations(timer: TimerState | undefined) {
     } else if (!timer?.isActive) {
       hasInitializedRef.current = false;
     }
-  }, [timer?.isActive, timer?.endTime, timer?.startTime]);
+  }, [timer?.isActive, timer?.endTime, timer?.startTime, timer?.pausedAt]);
 
   useEffect(() => {
     // Only set up interval if timer is active
-    if (!timer?.isActive || !timer.endTime) {
+    if (!timer?.isActive || (!timer.endTime && !timer.openEnded)) {
       previousExpiredRef.current = false;
       return;
     }
 
+    // A paused timer is frozen: no need to refresh
+    if (timer.pausedAt) {
+      return;
+    }
+
     // Update every 100ms for smooth animation
     const interval = setInterval(() => {
       setCurrentTimestamp(Date.now());
     }, 100);
 
     return () => clearInterval(interval);
-  }, [timer?.isActive, timer?.endTime]);
+  }, [timer?.isActive, timer?.endTime, timer?.openEnded, timer?.pausedAt]);
 
   const calculations = useMemo(() => {
+    // Open session: full bar and elapsed time counting up
+    if (timer?.isActive && timer.openEnded) {
+      return {
+        progress: 100,
+        remainingTime: formatRemainingTime(getElapsedSeconds(timer.startTime)),
+        remainingSeconds: 0,
+        isExpired: false,
+        isPaused: false,
+        isOpenEnded: true,
+      };
+    }
+
     // If timer is not active or doesn't exist, return default values
     if (!timer?.isActive || !timer.endTime) {
       return {
@@ -61,13 +96,19 @@ export function useTimerCalculations(timer: TimerState | undefined) {
         remainingTime: '00:00',
         remainingSeconds: 0,
         isExpired: false,
+        isPaused: false,
+        isOpenEnded: false,
       };
     }
 
-    const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime);
+    const remainingSeconds = getRemainingSeconds(timer.endTime, timer.startTime, timer.pausedAt);
     
     // Calculate progress based on initial duration
-    const progress = calculateProgress(timer.initialDurationMinutes, remainingSeconds);
+    const progress = calculateProgress(
+      timer.initialDurationMinutes,
+      remainingSeconds,
+      alertSettings.progressWindowMinutes
+    );
     
     // Format remaining time for display
     const remainingTime = formatRemainingTime(remainingSeconds);
@@ -76,16 +117,32 @@ export function useTimerCalculations(timer: TimerState | undefined) {
     const isExpired = isTimerExpired(remainingSeconds);
     
     // Determine progress bar variant based on remaining time
-    const progressVariant = calculateProgressVariant(remainingSeconds);
+    const progressVariant = calculateProgressVariant(remainingSeconds, alertSettings);
 
     return {
       progress,
       remainingTime,
       remainingSeconds,
       isExpired,
+      isPaused: !!timer.pausedAt,
+      isOpenEnded: false,
       progressVariant,
     };
-  }, [timer?.isActive, timer?.endTime, timer?.initialDurationMinutes, currentTimestamp]);
+  }, [timer?.isActive, timer?.endTime, timer?.openEnded, timer?.startTime, timer?.initialDurationMinutes, timer?.pausedAt, alertSettings, currentTimestamp]);
+
+  /**
+   * Fires an alert of the station, unless another window already fired it
+   * Without an alert key, this window always fires it
+   */
+  const fireAlert = useCallback((alert: string, fire: () => void) => {
+    if (!alertKey) {
+      fire();
+      return;
+    }
+    claimAlert(`${alertKey}:${alert}`).then((claimed) => {
+      if (claimed) fire();
+    });
+  }, [alertKey]);
 
   // Play sound when timer expires (transition from not expired to expired)
   useEffect(() => {
@@ -93,13 +150,39 @@ export function useTimerCalculations(timer: TimerState | undefined) {
     
     if (isExpired && !previousExpiredRef.current) {
       // Timer just expired: play sound
-      playTimerExpiredSound();
+      if (!silent) {
+        fireAlert(`${timer?.endTime}:expired`, () => {
+          playTimerExpiredSound();
+          onExpired?.();
+        });
+      }
       previousExpiredRef.current = true;
     } else if (!isExpired) {
       // Reset when timer is no longer expired
       previousExpiredRef.current = false;
     }
-  }, [calculations.isExpired]);
+  }, [calculations.isExpired, timer?.endTime, fireAlert, onExpired, silent]);
+
+  // Play the alert tone when a pre-expiry threshold is crossed
+  // Thresholds already behind on mount (e.g. after a reload) are not announced
+  useEffect(() => {
+    if (!timer?.isActive || !timer.endTime) {
+      previousRemainingRef.current = null;
+      return;
+    }
+
+    const previous = previousRemainingRef.current;
+    previousRemainingRef.current = calculations.remainingSeconds;
+    if (previous === null) return;
+
+    const minutes = getCrossedPreExpiryAlert(previous, calculations.remainingSeconds, alertSettings);
+    if (minutes !== null && !silent) {
+      fireAlert(`${timer.endTime}:preExpiry-${minutes}`, () => {
+        playAlertTone(getPreExpiryTone(minutes, alertSettings));
+        onPreExpiry?.(minutes);
+      });
+    }
+  }, [timer?.isActive, timer?.endTime, calculations.remainingSeconds, alertSettings, fireAlert, onPreExpiry, silent]);
 
   return calculations;
 }
@@ -0,0 +1,40 @@
+/**
+ * Hook to announce destructive changes with an "Undo" action
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store/app-store';
+import { useI18n } from '@/hooks/use-i18n';
+
+/**
+ * Returns a function that shows a toast for the change just made
+ * Must be called right after the store mutation, so the toast is bound to its undo step
+ * The action only reverts that step: if other changes followed, the user is told instead
+ */
+export function useUndoToast() {
+  const { undo, getLatestUndoToken } = useAppStore();
+  const { t } = useI18n();
+
+  return useCallback(
+    (message: string, options?: { description?: string }) => {
+      const token = getLatestUndoToken();
+      if (token === null) return;
+
+      toast(message, {
+        description: options?.description,
+        action: {
+          label: t('undo.action'),
+          onClick: () => {
+            if (!undo(token)) {
+              toast.warning(t('undo.notLatest'), {
+                description: t('undo.notLatestDescription'),
+              });
+            }
+          },
+        },
+      });
+    },
+    [undo, getLatestUndoToken, t]
+  );
+}
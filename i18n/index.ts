@@ -89,7 +89,30 @@ export function getTranslations(locale: Locale) {
 }
 
 /**
- * Default locale (can be changed based on user preference or browser settings)
+ * Formats a duration in minutes for display (e.g. "30 minutes", "1 hour", "1 h 30 min")
+ * @param locale - The locale to use ('it' | 'en')
+ * @param minutes - Duration in minutes
+ * @returns The formatted duration
+ */
+export function formatDuration(locale: Locale, minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return rest === 1
+      ? getTranslation(locale, 'common.duration.minute')
+      : getTranslation(locale, 'common.duration.minutes', { minutes: rest });
+  }
+  if (rest === 0) {
+    return hours === 1
+      ? getTranslation(locale, 'common.duration.hour')
+      : getTranslation(locale, 'common.duration.hours', { hours });
+  }
+  return getTranslation(locale, 'common.duration.hoursMinutes', { hours, minutes: rest });
+}
+
+/**
+ * Default locale, used until a language is chosen in the settings
  */
 export const defaultLocale: Locale = 'it';
 
@@ -0,0 +1,67 @@
+/**
+ * IPC Contract
+ * Payload types of the channels listed in main/ipc-contract.js
+ * Adding a channel means listing it there and typing it here
+ */
+
+import type { CardRef } from '@/types';
+import type { DesktopNotification } from '@/lib/utils/notifications';
+import type { SerializedState } from '@/lib/storage/persistence.service';
+import type { SyncVersion } from '@/features/sync';
+
+/**
+ * State published by a window, relayed by the main process to the other windows
+ */
+export interface StateMessage extends SyncVersion {
+  parent?: SyncVersion;
+  state: SerializedState;
+}
+
+/**
+ * Renderer → main channels answered with a promise: arguments and result
+ */
+export interface IpcInvokeChannels {
+  'storage:read': { args: [key: string]; result: string | null };
+  'storage:write': { args: [key: string, data: string]; result: void };
+  'display:open': { args: []; result: void };
+  'window:print': { args: []; result: boolean };
+}
+
+/**
+ * Renderer → main channels without an answer: payload
+ */
+export interface IpcSendChannels {
+  'notification:show': DesktopNotification;
+  'state:publish': StateMessage;
+}
+
+/**
+ * Main → renderer channels: payload
+ */
+export interface IpcEventChannels {
+  'notification:click': CardRef;
+  'state:changed': StateMessage;
+}
+
+export type IpcInvokeChannel = keyof IpcInvokeChannels;
+export type IpcSendChannel = keyof IpcSendChannels;
+export type IpcEventChannel = keyof IpcEventChannels;
+
+/**
+ * Bridge exposed by main/preload.js as window.electronAPI
+ * Channels outside the contract are rejected with an error
+ */
+export interface ElectronAPI {
+  invoke: <C extends IpcInvokeChannel>(
+    channel: C,
+    ...args: IpcInvokeChannels[C]['args']
+  ) => Promise<IpcInvokeChannels[C]['result']>;
+  send: <C extends IpcSendChannel>(channel: C, payload: IpcSendChannels[C]) => void;
+  on: <C extends IpcEventChannel>(channel: C, callback: (payload: IpcEventChannels[C]) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    electronAPI?: ElectronAPI;
+  }
+}
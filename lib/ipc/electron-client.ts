@@ -0,0 +1,84 @@
+/**
+ * Electron Client
+ * Typed access to the main process through the preload bridge
+ * Every call is a no-op outside Electron, callers check isElectron() when they need a fallback
+ */
+
+import type {
+  ElectronAPI,
+  IpcEventChannel,
+  IpcEventChannels,
+  IpcInvokeChannel,
+  IpcInvokeChannels,
+  IpcSendChannel,
+  IpcSendChannels,
+} from './contract';
+
+function getBridge(): ElectronAPI | null {
+  if (typeof window === 'undefined') return null;
+  return window.electronAPI ?? null;
+}
+
+/**
+ * Returns true when running inside the Electron app
+ */
+export function isElectron(): boolean {
+  return getBridge() !== null;
+}
+
+/**
+ * Calls the main process and waits for its answer
+ * Rejects outside Electron
+ */
+export function invoke<C extends IpcInvokeChannel>(
+  channel: C,
+  ...args: IpcInvokeChannels[C]['args']
+): Promise<IpcInvokeChannels[C]['result']> {
+  const bridge = getBridge();
+  if (!bridge) {
+    return Promise.reject(new Error(`IPC channel ${channel} is only available in Electron`));
+  }
+  return bridge.invoke(channel, ...args);
+}
+
+/**
+ * Sends a message to the main process
+ */
+export function send<C extends IpcSendChannel>(channel: C, payload: IpcSendChannels[C]): void {
+  getBridge()?.send(channel, payload);
+}
+
+/**
+ * Listens to messages from the main process
+ * Returns a function that stops listening
+ */
+export function on<C extends IpcEventChannel>(
+  channel: C,
+  callback: (payload: IpcEventChannels[C]) => void
+): () => void {
+  return getBridge()?.on(channel, callback) ?? (() => {});
+}
+
+/**
+ * Opens the print dialog for the current window
+ * Resolves to false if printing was cancelled
+ */
+export async function printWindow(): Promise<boolean> {
+  if (!isElectron()) {
+    window.print();
+    return true;
+  }
+  return invoke('window:print');
+}
+
+/**
+ * Opens the customer display, on a second screen when one is connected
+ * Outside Electron it opens in a new browser window to drag onto the screen
+ */
+export async function openDisplayWindow(): Promise<void> {
+  if (!isElectron()) {
+    window.open('/display', 'wolfden-display');
+    return;
+  }
+  return invoke('display:open');
+}
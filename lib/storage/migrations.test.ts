@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { migrateState, type RawState } from './migrations';
+
+// Smallest payload written by the first storage version
+const V1_STATE: RawState = {
+  version: 1,
+  sections: [{ id: 2, name: 'VIP' }, { id: 1, name: 'Main' }],
+  cardsBySection: [
+    [2, [{ id: 1, name: 'PC 1', progressValue: 0 }, { id: 2, name: 'PC 2', progressValue: 0 }]],
+  ],
+};
+
+describe('migrateState', () => {
+  it('upgrades a version 1 payload to the latest version one step at a time', () => {
+    const result = migrateState(V1_STATE, 7);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.version).toBe(7);
+    expect(result.applied).toHaveLength(6);
+    expect(result.applied[0]).toMatch(/^1 → 2/);
+    expect(result.applied[5]).toMatch(/^6 → 7/);
+  });
+
+  it('adds the collections introduced by later versions', () => {
+    const result = migrateState(V1_STATE, 7);
+    if (!result.ok) throw new Error(result.reason);
+
+    expect(result.state.sessionHistory).toEqual([]);
+    expect(result.state.customers).toEqual([]);
+    expect(result.state.groups).toEqual([]);
+    expect(result.state.reservations).toEqual([]);
+    expect(result.state.queue).toEqual([]);
+    expect(result.state.alertSettings).toMatchObject({ warningMinutes: 30, preExpiryMinutes: [10] });
+  });
+
+  it('keeps existing collections instead of resetting them', () => {
+    const history = [{ id: 1 }];
+    const result = migrateState({ ...V1_STATE, sessionHistory: history }, 2);
+    if (!result.ok) throw new Error(result.reason);
+
+    expect(result.state.sessionHistory).toBe(history);
+  });
+
+  it('sets the order of sections and stations from their array position', () => {
+    const result = migrateState(V1_STATE, 3);
+    if (!result.ok) throw new Error(result.reason);
+
+    expect(result.state.sections).toEqual([
+      { id: 2, name: 'VIP', order: 0 },
+      { id: 1, name: 'Main', order: 1 },
+    ]);
+    const [[, cards]] = result.state.cardsBySection as Array<[number, Array<{ order: number }>]>;
+    expect(cards.map((card) => card.order)).toEqual([0, 1]);
+  });
+
+  it('leaves malformed values for validation to report', () => {
+    const result = migrateState({ version: 2, sections: 'broken', cardsBySection: null }, 3);
+    if (!result.ok) throw new Error(result.reason);
+
+    expect(result.state.sections).toBe('broken');
+    expect(result.state.cardsBySection).toBeNull();
+  });
+
+  it('does nothing when the payload is already at the target version', () => {
+    const state: RawState = { version: 7, sections: [] };
+    const result = migrateState(state, 7);
+
+    expect(result).toEqual({ ok: true, state, applied: [] });
+  });
+
+  it('refuses a payload newer than the supported version', () => {
+    const result = migrateState({ version: 9 }, 7);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.reason).toContain('newer than supported version 7');
+  });
+
+  it('fails when no migration starts from the payload version', () => {
+    const result = migrateState({ version: 0 }, 7);
+
+    expect(result).toEqual({ ok: false, reason: 'No migration available from version 0' });
+  });
+});
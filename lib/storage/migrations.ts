@@ -0,0 +1,150 @@
+/**
+ * Storage Migrations
+ * Ordered registry of transforms that upgrade persisted state between schema versions
+ * Each migration upgrades a payload by exactly one version
+ */
+
+/**
+ * Raw persisted payload, before its shape has been validated
+ */
+export type RawState = Record<string, unknown> & { version: number };
+
+/**
+ * Sets each item's order to its array position, leaving malformed values for validation to report
+ */
+const withArrayOrder = (items: unknown): unknown =>
+  Array.isArray(items)
+    ? items.map((item, index) =>
+        typeof item === 'object' && item !== null ? { ...item, order: index } : item
+      )
+    : items;
+
+interface StorageMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (state: RawState) => RawState;
+}
+
+/**
+ * Registry of migrations, ordered by version
+ * When the schema changes: bump STORAGE_VERSION and append a migration here
+ */
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Add session history and customer accounts',
+    migrate: (state) => ({
+      ...state,
+      version: 2,
+      sessionHistory: Array.isArray(state.sessionHistory) ? state.sessionHistory : [],
+      customers: Array.isArray(state.customers) ? state.customers : [],
+    }),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Add explicit order to sections and stations',
+    migrate: (state) => ({
+      ...state,
+      version: 3,
+      sections: withArrayOrder(state.sections),
+      cardsBySection: Array.isArray(state.cardsBySection)
+        ? state.cardsBySection.map((entry) =>
+            Array.isArray(entry) ? [entry[0], withArrayOrder(entry[1])] : entry
+          )
+        : state.cardsBySection,
+    }),
+  },
+  {
+    from: 3,
+    to: 4,
+    description: 'Add station groups',
+    migrate: (state) => ({
+      ...state,
+      version: 4,
+      groups: Array.isArray(state.groups) ? state.groups : [],
+    }),
+  },
+  {
+    from: 4,
+    to: 5,
+    description: 'Add station reservations',
+    migrate: (state) => ({
+      ...state,
+      version: 5,
+      reservations: Array.isArray(state.reservations) ? state.reservations : [],
+    }),
+  },
+  {
+    from: 5,
+    to: 6,
+    description: 'Add waiting queue',
+    migrate: (state) => ({
+      ...state,
+      version: 6,
+      queue: Array.isArray(state.queue) ? state.queue : [],
+    }),
+  },
+  {
+    from: 6,
+    to: 7,
+    description: 'Add configurable alert thresholds',
+    migrate: (state) => ({
+      ...state,
+      version: 7,
+      // Thresholds that used to be hardcoded, plus a 10-minute warning
+      alertSettings: {
+        warningMinutes: 30,
+        orangeMinutes: 20,
+        criticalMinutes: 10,
+        progressWindowMinutes: 60,
+        preExpiryMinutes: [10],
+      },
+    }),
+  },
+];
+
+/**
+ * Result of running the migration pipeline
+ */
+export type MigrationResult =
+  | { ok: true; state: RawState; applied: string[] }
+  | { ok: false; reason: string };
+
+/**
+ * Upgrades a payload to the target version by applying migrations in order
+ * Fails without touching the payload if a step is missing or throws
+ */
+export function migrateState(state: RawState, targetVersion: number): MigrationResult {
+  if (state.version > targetVersion) {
+    return {
+      ok: false,
+      reason: `Saved data has version ${state.version}, newer than supported version ${targetVersion}`,
+    };
+  }
+
+  let current = state;
+  const applied: string[] = [];
+
+  while (current.version < targetVersion) {
+    const migration = STORAGE_MIGRATIONS.find((m) => m.from === current.version);
+    if (!migration) {
+      return { ok: false, reason: `No migration available from version ${current.version}` };
+    }
+
+    try {
+      current = { ...migration.migrate(current), version: migration.to };
+    } catch (error) {
+      return {
+        ok: false,
+        reason: `Migration ${migration.from} → ${migration.to} failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    applied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+  }
+
+  return { ok: true, state: current, applied };
+}
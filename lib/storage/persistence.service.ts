@@ -1,22 +1,31 @@
 /**
  * Persistence Service
- * Handles saving and loading application state to/from localStorage
+ * Handles saving and loading application state through the storage adapter
+ * (files under Electron, localStorage on the web)
  * Manages serialization of complex data structures (Map, timestamps, etc.)
  */
 
-import type { Section, UserCard } from '@/types';
+import type { AlertSettings, Customer, QueueEntry, Reservation, Section, SessionRecord, StationGroup, UserCard } from '@/types';
+import { migrateState, type RawState } from './migrations';
+import { getStorageAdapter } from './storage-adapter';
 
 const STORAGE_KEY = 'wolfden-manager-state';
-const STORAGE_VERSION = 1;
+const STORAGE_VERSION = 7;
 
 /**
  * Serialized format for localStorage
  * Maps are converted to arrays of [key, value] pairs for JSON serialization
  */
-interface SerializedState {
+export interface SerializedState {
   version: number;
   sections: Section[];
   cardsBySection: Array<[number, UserCard[]]>;
+  sessionHistory: SessionRecord[];
+  customers: Customer[];
+  groups: StationGroup[];
+  reservations: Reservation[];
+  queue: QueueEntry[];
+  alertSettings: AlertSettings;
 }
 
 /**
@@ -25,69 +34,282 @@ interface SerializedState {
 export interface AppState {
   sections: Section[];
   cardsBySection: Map<number, UserCard[]>;
+  sessionHistory: SessionRecord[];
+  customers: Customer[];
+  groups: StationGroup[];
+  reservations: Reservation[];
+  queue: QueueEntry[];
+  alertSettings: AlertSettings;
 }
 
 /**
- * Load state from localStorage
- * Returns null if no valid state is found
+ * Outcome of loading persisted state
+ * - empty: nothing saved yet
+ * - loaded: state is ready, possibly after migrating from an older version
+ * - failed: saved data could not be read; it is left untouched in storage
  */
-export function loadState(): AppState | null {
-  if (typeof window === 'undefined') {
+export type LoadStateResult =
+  | { status: 'empty' }
+  | { status: 'loaded'; state: AppState; migratedFrom: number | null }
+  | { status: 'failed'; reason: string; backupKey: string | null };
+
+/**
+ * Returns the storage key holding the raw backup for a version
+ */
+export function getBackupKey(version: number | string): string {
+  return `${STORAGE_KEY}-backup-v${version}`;
+}
+
+/**
+ * Stores a copy of the raw payload under a backup key
+ * Returns the key, or null if the backup could not be written
+ */
+async function backupRawState(raw: string, version: number | string): Promise<string | null> {
+  const key = getBackupKey(version);
+  try {
+    await getStorageAdapter().write(key, raw);
+    return key;
+  } catch (error) {
+    console.error('Error writing state backup:', error);
     return null;
   }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasIdAndName = (value: unknown): value is Record<string, unknown> =>
+  isObject(value) && typeof value.id === 'number' && typeof value.name === 'string';
+
+const isValidAlertSettings = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.warningMinutes === 'number' &&
+  typeof value.orangeMinutes === 'number' &&
+  typeof value.criticalMinutes === 'number' &&
+  typeof value.progressWindowMinutes === 'number' &&
+  Array.isArray(value.preExpiryMinutes) &&
+  value.preExpiryMinutes.every((minutes) => typeof minutes === 'number');
+
+const isValidSection = (value: unknown): boolean =>
+  hasIdAndName(value) &&
+  typeof value.order === 'number' &&
+  (value.alertSettings === undefined || isValidAlertSettings(value.alertSettings));
+
+const isValidCard = (value: unknown): boolean =>
+  hasIdAndName(value) &&
+  typeof value.order === 'number' &&
+  (value.timer === undefined || isObject(value.timer)) &&
+  (value.groupId === undefined || typeof value.groupId === 'number');
+
+const isValidReservation = (value: unknown): boolean =>
+  hasIdAndName(value) &&
+  typeof value.sectionId === 'number' &&
+  typeof value.cardId === 'number' &&
+  typeof value.startTime === 'string' &&
+  typeof value.endTime === 'string';
+
+const isValidQueueEntry = (value: unknown): boolean =>
+  hasIdAndName(value) &&
+  typeof value.durationMinutes === 'number' &&
+  typeof value.partySize === 'number' &&
+  typeof value.addedAt === 'string';
+
+/**
+ * Checks that a migrated payload has the current serialized shape
+ * Returns a description of the first problem found, or null if valid
+ */
+function validateSerializedState(state: RawState): string | null {
+  if (!Array.isArray(state.sections) || !state.sections.every(isValidSection)) {
+    return 'Invalid sections';
+  }
+
+  if (!Array.isArray(state.cardsBySection)) {
+    return 'Invalid stations';
+  }
+  const validCards = state.cardsBySection.every(
+    (entry) =>
+      Array.isArray(entry) &&
+      entry.length === 2 &&
+      typeof entry[0] === 'number' &&
+      Array.isArray(entry[1]) &&
+      entry[1].every(isValidCard)
+  );
+  if (!validCards) {
+    return 'Invalid stations';
+  }
+
+  if (!Array.isArray(state.sessionHistory) || !state.sessionHistory.every(isObject)) {
+    return 'Invalid session history';
+  }
+
+  const validCustomers =
+    Array.isArray(state.customers) &&
+    state.customers.every((customer) => hasIdAndName(customer) && typeof customer.balanceMinutes === 'number');
+  if (!validCustomers) {
+    return 'Invalid customers';
+  }
+
+  if (!Array.isArray(state.groups) || !state.groups.every(hasIdAndName)) {
+    return 'Invalid groups';
+  }
+
+  if (!Array.isArray(state.reservations) || !state.reservations.every(isValidReservation)) {
+    return 'Invalid reservations';
+  }
+
+  if (!Array.isArray(state.queue) || !state.queue.every(isValidQueueEntry)) {
+    return 'Invalid waiting queue';
+  }
+
+  if (!isValidAlertSettings(state.alertSettings)) {
+    return 'Invalid alert settings';
+  }
+
+  return null;
+}
+
+/**
+ * Result of turning a raw payload back into application state
+ */
+export type DeserializeResult =
+  | { ok: true; state: AppState; migratedFrom: number | null }
+  | { ok: false; reason: string };
+
+/**
+ * Converts application state to its serialized format
+ * Handles serialization of Map to array format
+ */
+export function serializeState(state: AppState): SerializedState {
+  // Convert Map to array of [key, value] pairs for JSON serialization
+  const cardsBySectionArray: Array<[number, UserCard[]]> = Array.from(
+    state.cardsBySection.entries()
+  );
+
+  return {
+    version: STORAGE_VERSION,
+    sections: state.sections,
+    cardsBySection: cardsBySectionArray,
+    sessionHistory: state.sessionHistory,
+    customers: state.customers,
+    groups: state.groups,
+    reservations: state.reservations,
+    queue: state.queue,
+    alertSettings: state.alertSettings,
+  };
+}
+
+/**
+ * Converts a parsed payload back to application state
+ * Migrates older versions and validates the resulting shape
+ */
+export function deserializeState(parsed: unknown): DeserializeResult {
+  if (!isObject(parsed) || typeof parsed.version !== 'number') {
+    return { ok: false, reason: 'Missing storage version' };
+  }
+
+  const version = parsed.version;
+  let state = parsed as RawState;
+
+  if (version !== STORAGE_VERSION) {
+    const migration = migrateState(state, STORAGE_VERSION);
+    if (!migration.ok) {
+      return { ok: false, reason: migration.reason };
+    }
+
+    console.info(`Storage migrated from version ${version}:`, migration.applied);
+    state = migration.state;
+  }
+
+  const problem = validateSerializedState(state);
+  if (problem) {
+    return { ok: false, reason: problem };
+  }
+
+  const serialized = state as unknown as SerializedState;
+
+  return {
+    ok: true,
+    state: {
+      sections: serialized.sections,
+      // Convert serialized cardsBySection array back to Map
+      cardsBySection: new Map<number, UserCard[]>(serialized.cardsBySection),
+      sessionHistory: serialized.sessionHistory,
+      customers: serialized.customers,
+      groups: serialized.groups,
+      reservations: serialized.reservations,
+      queue: serialized.queue,
+      alertSettings: serialized.alertSettings,
+    },
+    migratedFrom: version !== STORAGE_VERSION ? version : null,
+  };
+}
+
+/**
+ * Load state from storage
+ * Older payloads are backed up raw, migrated to the current version and validated
+ * On failure the stored payload is never discarded
+ */
+export async function loadState(): Promise<LoadStateResult> {
+  if (typeof window === 'undefined') {
+    return { status: 'empty' };
+  }
+
+  let stored: string | null = null;
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    stored = await getStorageAdapter().read(STORAGE_KEY);
     if (!stored) {
-      return null;
+      return { status: 'empty' };
     }
 
-    const parsed: SerializedState = JSON.parse(stored);
+    const parsed: unknown = JSON.parse(stored);
+    if (!isObject(parsed) || typeof parsed.version !== 'number') {
+      return {
+        status: 'failed',
+        reason: 'Missing storage version',
+        backupKey: await backupRawState(stored, 'unknown'),
+      };
+    }
+
+    const version = parsed.version;
 
-    // Version check for future migrations
-    if (parsed.version !== STORAGE_VERSION) {
-      console.warn(`Storage version mismatch: expected ${STORAGE_VERSION}, got ${parsed.version}`);
-      // Could implement migration logic here
-      return null;
+    // Keep the raw data around before upgrading older payloads
+    let backupKey: string | null = null;
+    if (version !== STORAGE_VERSION) {
+      backupKey = await backupRawState(stored, version);
+      if (!backupKey) {
+        return { status: 'failed', reason: 'Could not back up data before migrating', backupKey: null };
+      }
     }
 
-    // Convert serialized cardsBySection array back to Map
-    const cardsBySection = new Map<number, UserCard[]>(parsed.cardsBySection);
+    const result = deserializeState(parsed);
+    if (!result.ok) {
+      return { status: 'failed', reason: result.reason, backupKey: backupKey ?? await backupRawState(stored, version) };
+    }
 
+    return { status: 'loaded', state: result.state, migratedFrom: result.migratedFrom };
+  } catch (error) {
+    console.error('Error loading state:', error);
     return {
-      sections: parsed.sections,
-      cardsBySection,
+      status: 'failed',
+      reason: error instanceof Error ? error.message : String(error),
+      backupKey: stored ? await backupRawState(stored, 'unknown') : null,
     };
-  } catch (error) {
-    console.error('Error loading state from localStorage:', error);
-    return null;
   }
 }
 
 /**
- * Save state to localStorage
- * Handles serialization of Map to array format
+ * Save state to storage
  */
-export function saveState(state: AppState): void {
+export async function saveState(state: AppState): Promise<void> {
   if (typeof window === 'undefined') {
     return;
   }
 
   try {
-    // Convert Map to array of [key, value] pairs for JSON serialization
-    const cardsBySectionArray: Array<[number, UserCard[]]> = Array.from(
-      state.cardsBySection.entries()
-    );
-
-    const serialized: SerializedState = {
-      version: STORAGE_VERSION,
-      sections: state.sections,
-      cardsBySection: cardsBySectionArray,
-    };
-
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(serialized));
+    await getStorageAdapter().write(STORAGE_KEY, JSON.stringify(serializeState(state)));
   } catch (error) {
-    console.error('Error saving state to localStorage:', error);
+    console.error('Error saving state:', error);
     // Handle quota exceeded error
     if (error instanceof DOMException && error.name === 'QuotaExceededError') {
       console.error('localStorage quota exceeded. Consider clearing old data.');
@@ -0,0 +1,84 @@
+/**
+ * Settings Persistence
+ * Saves and loads application preferences through the storage adapter, next to the app state
+ * Preferences have their own key and version, so they survive a reset or import of the den state
+ */
+
+import type { AppSettings } from '@/types';
+import { normalizeSettings } from '@/features/settings';
+import { getStorageAdapter } from './storage-adapter';
+
+const SETTINGS_KEY = 'wolfden-manager-settings';
+const SETTINGS_VERSION = 2;
+
+/**
+ * Serialized format of the preferences
+ */
+interface SerializedSettings {
+  version: number;
+  settings: AppSettings;
+}
+
+/**
+ * Version 1 had three quick durations (Ctrl+1/2/3) instead of presets
+ * Each one becomes a duration preset, keeping its shortcut
+ */
+const migrateQuickDurations = (settings: Record<string, unknown>): Record<string, unknown> => {
+  const { quickDurations, ...rest } = settings;
+  if (!Array.isArray(quickDurations)) return rest;
+  return {
+    ...rest,
+    presets: quickDurations.map((minutes, index) => ({ id: index + 1, name: '', kind: 'duration', minutes })),
+  };
+};
+
+/**
+ * Load preferences from storage
+ * Returns null if nothing was saved yet or the payload cannot be read
+ * Unknown or invalid values fall back to their defaults
+ */
+export async function loadSettings(): Promise<AppSettings | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const stored = await getStorageAdapter().read(SETTINGS_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const parsed = JSON.parse(stored) as Partial<SerializedSettings>;
+    if (typeof parsed !== 'object' || parsed === null || typeof parsed.version !== 'number') {
+      console.error('Saved settings have no version, using defaults');
+      return null;
+    }
+    if (parsed.version > SETTINGS_VERSION) {
+      console.error(`Saved settings have version ${parsed.version}, newer than supported version ${SETTINGS_VERSION}`);
+      return null;
+    }
+
+    const settings: Record<string, unknown> =
+      typeof parsed.settings === 'object' && parsed.settings !== null ? { ...parsed.settings } : {};
+    return normalizeSettings(parsed.version < 2 ? migrateQuickDurations(settings) : settings);
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Save preferences to storage
+ */
+export async function saveSettings(settings: AppSettings): Promise<void> {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const serialized: SerializedSettings = { version: SETTINGS_VERSION, settings };
+  try {
+    await getStorageAdapter().write(SETTINGS_KEY, JSON.stringify(serialized));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Storage Adapters
+ * Backends persistence.service reads and writes raw payloads through
+ * - Electron: JSON files in the app's userData directory, written atomically by the main process
+ * - Web: localStorage
+ */
+
+import { invoke, isElectron } from '@/lib/ipc/electron-client';
+
+/**
+ * Key/value storage for raw string payloads
+ */
+export interface StorageAdapter {
+  name: 'file' | 'localStorage';
+  read: (key: string) => Promise<string | null>;
+  write: (key: string, value: string) => Promise<void>;
+}
+
+const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+  read: async (key) => localStorage.getItem(key),
+  write: async (key, value) => {
+    localStorage.setItem(key, value);
+  },
+};
+
+/**
+ * File adapter backed by the Electron main process
+ * Falls back to localStorage for reads until a file exists, so existing installs keep their data
+ */
+const fileAdapter: StorageAdapter = {
+  name: 'file',
+  read: async (key) => (await invoke('storage:read', key)) ?? localStorage.getItem(key),
+  write: (key, value) => invoke('storage:write', key, value),
+};
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Returns the storage adapter for the current environment
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) {
+    adapter = isElectron() ? fileAdapter : localStorageAdapter;
+  }
+  return adapter;
+}
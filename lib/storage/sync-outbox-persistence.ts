@@ -0,0 +1,89 @@
+/**
+ * Sync Outbox Persistence
+ * Saves the outbox of the sync server connection through the storage adapter, next to the app state:
+ * the server's state as last received and the local batches it has not applied yet
+ * Edits made while the server is unreachable thus survive a restart of the app
+ */
+
+import { isSyncOperation, type SyncOperation } from '@/lib/sync/operations.mjs';
+import { deserializeState, serializeState, type SerializedState } from './persistence.service';
+import { getStorageAdapter } from './storage-adapter';
+
+const SYNC_OUTBOX_KEY = 'wolfden-manager-sync-outbox';
+
+/**
+ * Local edits sent as one message; the server remembers the last seq applied per origin
+ */
+export interface SyncBatch {
+  origin: string;
+  seq: number;
+  operations: SyncOperation[];
+}
+
+/**
+ * What a connection needs to replay its local edits after a restart
+ */
+export interface SyncOutbox {
+  url: string;                  // Server the outbox belongs to
+  confirmed: SerializedState;   // State of the server as last received
+  pending: SyncBatch[];         // Batches not applied by the server yet, in order
+}
+
+const isSyncBatch = (value: unknown): value is SyncBatch => {
+  if (typeof value !== 'object' || value === null) return false;
+  const batch = value as Record<string, unknown>;
+  return (
+    typeof batch.origin === 'string' &&
+    Number.isInteger(batch.seq) &&
+    Array.isArray(batch.operations) &&
+    batch.operations.every(isSyncOperation)
+  );
+};
+
+/**
+ * Load the outbox saved for a sync server
+ * Returns null if none was saved for that server or it cannot be used: operations saved
+ * by an older version of the state are not migrated, so that outbox is dropped
+ */
+export async function loadSyncOutbox(url: string): Promise<SyncOutbox | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const stored = await getStorageAdapter().read(SYNC_OUTBOX_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const parsed = JSON.parse(stored) as Partial<SyncOutbox>;
+    if (parsed.url !== url || !Array.isArray(parsed.pending) || !parsed.pending.every(isSyncBatch)) {
+      return null;
+    }
+
+    const result = deserializeState(parsed.confirmed);
+    if (!result.ok || result.migratedFrom !== null) {
+      return null;
+    }
+
+    return { url, confirmed: serializeState(result.state), pending: parsed.pending };
+  } catch (error) {
+    console.error('Error loading sync outbox:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the outbox of a sync server connection
+ */
+export async function saveSyncOutbox(outbox: SyncOutbox): Promise<void> {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    await getStorageAdapter().write(SYNC_OUTBOX_KEY, JSON.stringify(outbox));
+  } catch (error) {
+    console.error('Error saving sync outbox:', error);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Types of lib/sync/operations.mjs
+ */
+
+import type { AlertSettings, SessionRecord } from '@/types';
+import type { SerializedState } from '@/lib/storage/persistence.service';
+
+export type SyncList = 'sections' | 'cards' | 'sessionHistory' | 'customers' | 'groups' | 'reservations' | 'queue';
+
+/**
+ * Edit of a single item; stations ("cards") also name their section
+ * "adjust" adds minutes to a customer's balance, negative for a debit
+ */
+export type SyncOperation =
+  | { type: 'put'; list: SyncList; sectionId?: number; value: { id: number } }
+  | { type: 'delete'; list: SyncList; sectionId?: number; id: number }
+  | { type: 'adjust'; id: number; minutes: number }
+  | { type: 'record'; value: SessionRecord }
+  | { type: 'settings'; value: AlertSettings };
+
+export function isSyncOperation(value: unknown): value is SyncOperation;
+
+export function applyOperations(state: SerializedState, operations: SyncOperation[]): SerializedState;
+
+export function diffStates(from: SerializedState, to: SerializedState): SyncOperation[];
@@ -0,0 +1,175 @@
+/**
+ * Sync Operations
+ * Edits exchanged with the LAN sync server, shared by the app and server/sync-server.mjs
+ * They apply to the persisted state format, item by item: the server applies them in the order
+ * it receives them, so every desk ends with the same state whatever its clock says
+ * Customer balances move by deltas instead, so debits made at the same time on two desks all count
+ */
+
+// Lists of items with an id; stations are listed per section as "cards"
+const LISTS = ["sections", "cards", "sessionHistory", "customers", "groups", "reservations", "queue"];
+
+const isObject = (value) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks an operation received from the network
+ */
+export function isSyncOperation(value) {
+  if (!isObject(value)) return false;
+
+  const hasSection = value.list !== "cards" || Number.isInteger(value.sectionId);
+  switch (value.type) {
+    case "put":
+      return LISTS.includes(value.list) && hasSection && isObject(value.value) && Number.isInteger(value.value.id);
+    case "delete":
+      return LISTS.includes(value.list) && hasSection && Number.isInteger(value.id);
+    case "adjust":
+      return Number.isInteger(value.id) && Number.isFinite(value.minutes);
+    case "record":
+    case "settings":
+      return isObject(value.value);
+    default:
+      return false;
+  }
+}
+
+const putItem = (items, value) =>
+  items.some((item) => item.id === value.id)
+    ? items.map((item) => (item.id === value.id ? value : item))
+    : [...items, value];
+
+// An existing customer keeps its balance, which only "adjust" operations move
+const putCustomer = (customers, value) =>
+  putItem(customers, {
+    ...value,
+    balanceMinutes: customers.find((customer) => customer.id === value.id)?.balanceMinutes ?? value.balanceMinutes,
+  });
+
+const updateCards = (state, sectionId, update) => {
+  const exists = state.cardsBySection.some(([id]) => id === sectionId);
+  const cardsBySection = exists ? state.cardsBySection : [...state.cardsBySection, [sectionId, []]];
+  return {
+    ...state,
+    cardsBySection: cardsBySection.map(([id, cards]) => [id, id === sectionId ? update(cards) : cards]),
+  };
+};
+
+const applyOperation = (state, operation) => {
+  switch (operation.type) {
+    case "put":
+      if (operation.list === "cards") {
+        return updateCards(state, operation.sectionId, (cards) => putItem(cards, operation.value));
+      }
+      if (operation.list === "sections") {
+        // A new section starts with no stations
+        return updateCards(
+          { ...state, sections: putItem(state.sections, operation.value) },
+          operation.value.id,
+          (cards) => cards
+        );
+      }
+      if (operation.list === "customers") {
+        return { ...state, customers: putCustomer(state.customers, operation.value) };
+      }
+      return { ...state, [operation.list]: putItem(state[operation.list], operation.value) };
+
+    case "delete":
+      if (operation.list === "cards") {
+        return updateCards(state, operation.sectionId, (cards) => cards.filter((card) => card.id !== operation.id));
+      }
+      if (operation.list === "sections") {
+        return {
+          ...state,
+          sections: state.sections.filter((section) => section.id !== operation.id),
+          cardsBySection: state.cardsBySection.filter(([id]) => id !== operation.id),
+        };
+      }
+      return { ...state, [operation.list]: state[operation.list].filter((item) => item.id !== operation.id) };
+
+    case "record": {
+      // The session gets the next id where it lands, so two desks never record under the same id
+      const nextId = Math.max(0, ...state.sessionHistory.map((record) => record.id)) + 1;
+      return { ...state, sessionHistory: [...state.sessionHistory, { ...operation.value, id: nextId }] };
+    }
+
+    case "adjust":
+      // A customer deleted meanwhile has no balance left to move
+      return {
+        ...state,
+        customers: state.customers.map((customer) =>
+          customer.id === operation.id
+            ? { ...customer, balanceMinutes: customer.balanceMinutes + operation.minutes }
+            : customer
+        ),
+      };
+
+    case "settings":
+      return { ...state, alertSettings: operation.value };
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Applies operations in order to a persisted state
+ */
+export function applyOperations(state, operations) {
+  return operations.reduce(applyOperation, state);
+}
+
+/**
+ * Comparable form of an item; station progress is derived from the clock and never synced
+ */
+const toComparable = (item) => JSON.stringify(isObject(item) && "progressValue" in item ? { ...item, progressValue: 0 } : item);
+
+/**
+ * Operations turning the items of one list into those of another
+ * New sessions become "record" operations, which get their id where they land, and balance
+ * changes of existing customers "adjust" operations
+ */
+const diffItems = (list, from, to, sectionId) => {
+  const fromById = new Map(from.map((item) => [item.id, item]));
+  const toIds = new Set(to.map((item) => item.id));
+  const target = list === "cards" ? { list, sectionId } : { list };
+
+  const changed = to.flatMap((item) => {
+    const previous = fromById.get(item.id);
+    if (previous === undefined && list === "sessionHistory") return [{ type: "record", value: item }];
+    if (previous !== undefined && list === "customers") {
+      const { balanceMinutes, ...details } = item;
+      const { balanceMinutes: previousBalance, ...previousDetails } = previous;
+      const put = toComparable(previousDetails) === toComparable(details) ? [] : [{ type: "put", list, value: item }];
+      const minutes = balanceMinutes - previousBalance;
+      return minutes === 0 ? put : [...put, { type: "adjust", id: item.id, minutes }];
+    }
+    if (previous !== undefined && toComparable(previous) === toComparable(item)) return [];
+    return [{ type: "put", ...target, value: item }];
+  });
+  const deleted = from.filter((item) => !toIds.has(item.id)).map((item) => ({ type: "delete", ...target, id: item.id }));
+
+  return [...changed, ...deleted];
+};
+
+/**
+ * Operations turning one persisted state into another
+ */
+export function diffStates(from, to) {
+  const fromCards = new Map(from.cardsBySection);
+  const sectionIds = new Set(to.sections.map((section) => section.id));
+  const cardOperations = to.cardsBySection
+    .filter(([sectionId]) => sectionIds.has(sectionId))
+    .flatMap(([sectionId, cards]) => diffItems("cards", fromCards.get(sectionId) ?? [], cards, sectionId));
+
+  return [
+    // Sections first, so their stations have somewhere to go
+    ...diffItems("sections", from.sections, to.sections),
+    ...cardOperations,
+    ...["sessionHistory", "customers", "groups", "reservations", "queue"].flatMap((list) =>
+      diffItems(list, from[list], to[list])
+    ),
+    ...(toComparable(from.alertSettings) === toComparable(to.alertSettings)
+      ? []
+      : [{ type: "settings", value: to.alertSettings }]),
+  ];
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionRecord } from '@/types';
+import type { SerializedState } from '@/lib/storage/persistence.service';
+import { DEFAULT_ALERT_SETTINGS } from '@/features/alerts';
+import { applyOperations, diffStates, isSyncOperation } from './operations.mjs';
+
+const record = (id: number, cardName: string): SessionRecord => ({
+  id,
+  sectionId: 1,
+  sectionName: 'Main',
+  cardId: 1,
+  cardName,
+  startTime: '2025-03-10T18:00:00.000Z',
+  endTime: '2025-03-10T19:00:00.000Z',
+  scheduledEndTime: '2025-03-10T19:00:00.000Z',
+  bookedMinutes: 60,
+  playedMinutes: 60,
+  amount: null,
+  adjustments: [],
+  endReason: 'expired',
+});
+
+const BASE: SerializedState = {
+  version: 7,
+  sections: [{ id: 1, name: 'Main', order: 0 }],
+  cardsBySection: [[1, [{ id: 1, name: 'PC 1', order: 0, progressValue: 0 }]]],
+  sessionHistory: [],
+  customers: [{ id: 1, name: 'Anna', balanceMinutes: 120 }],
+  groups: [],
+  reservations: [],
+  queue: [],
+  alertSettings: DEFAULT_ALERT_SETTINGS,
+};
+
+describe('diffStates', () => {
+  it('finds no operations between equal states', () => {
+    expect(diffStates(BASE, { ...BASE })).toEqual([]);
+  });
+
+  it('ignores station progress', () => {
+    const next = { ...BASE, cardsBySection: [[1, [{ id: 1, name: 'PC 1', order: 0, progressValue: 40 }]]] };
+    expect(diffStates(BASE, next as SerializedState)).toEqual([]);
+  });
+
+  it('gives back the target state once applied', () => {
+    const next: SerializedState = {
+      ...BASE,
+      sections: [...BASE.sections, { id: 2, name: 'Consoles', order: 1 }],
+      cardsBySection: [
+        [1, []],
+        [2, [{ id: 1, name: 'PS5', order: 0, progressValue: 0 }]],
+      ],
+      customers: [{ id: 1, name: 'Anna', balanceMinutes: 60 }],
+      alertSettings: { ...DEFAULT_ALERT_SETTINGS, warningMinutes: 20 },
+    };
+
+    expect(applyOperations(BASE, diffStates(BASE, next))).toEqual(next);
+  });
+
+  it('drops the stations of a deleted section', () => {
+    const next = { ...BASE, sections: [], cardsBySection: [] };
+    expect(applyOperations(BASE, diffStates(BASE, next))).toEqual(next);
+  });
+});
+
+describe('applyOperations', () => {
+  it('numbers sessions where they land, so two desks never share an id', () => {
+    const fromDeskA = diffStates(BASE, { ...BASE, sessionHistory: [record(1, 'PC 1')] });
+    const fromDeskB = diffStates(BASE, { ...BASE, sessionHistory: [record(1, 'PC 2')] });
+
+    const merged = applyOperations(applyOperations(BASE, fromDeskA), fromDeskB);
+
+    expect(merged.sessionHistory.map((item) => [item.id, item.cardName])).toEqual([
+      [1, 'PC 1'],
+      [2, 'PC 2'],
+    ]);
+  });
+
+  it('keeps the edit applied last when two desks edit the same item', () => {
+    const fromDeskA = diffStates(BASE, { ...BASE, customers: [{ id: 1, name: 'Anna B.', balanceMinutes: 120 }] });
+    const fromDeskB = diffStates(BASE, { ...BASE, customers: [{ id: 1, name: 'Anna R.', balanceMinutes: 120 }] });
+
+    expect(applyOperations(applyOperations(BASE, fromDeskA), fromDeskB).customers[0].name).toBe('Anna R.');
+  });
+
+  it('counts the debits of two desks on the same customer', () => {
+    const fromDeskA = diffStates(BASE, { ...BASE, customers: [{ id: 1, name: 'Anna', balanceMinutes: 60 }] });
+    const fromDeskB = diffStates(BASE, { ...BASE, customers: [{ id: 1, name: 'Anna R.', balanceMinutes: 90 }] });
+
+    expect(applyOperations(applyOperations(BASE, fromDeskA), fromDeskB).customers).toEqual([
+      { id: 1, name: 'Anna R.', balanceMinutes: 30 },
+    ]);
+  });
+});
+
+describe('isSyncOperation', () => {
+  it('accepts well-formed operations only', () => {
+    expect(isSyncOperation({ type: 'put', list: 'customers', value: { id: 1 } })).toBe(true);
+    expect(isSyncOperation({ type: 'delete', list: 'cards', sectionId: 1, id: 2 })).toBe(true);
+    expect(isSyncOperation({ type: 'delete', list: 'cards', id: 2 })).toBe(false);
+    expect(isSyncOperation({ type: 'adjust', id: 1, minutes: -30 })).toBe(true);
+    expect(isSyncOperation({ type: 'adjust', id: 1, minutes: '30' })).toBe(false);
+    expect(isSyncOperation({ type: 'put', list: 'settings', value: { id: 1 } })).toBe(false);
+    expect(isSyncOperation({ type: 'drop' })).toBe(false);
+  });
+});
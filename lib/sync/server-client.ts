@@ -0,0 +1,194 @@
+/**
+ * Sync Server Client
+ * Connects the app to the LAN sync server (server/sync-server.mjs), which holds the authoritative state
+ * Local edits are sent as operations on single items (see lib/sync/operations.mjs), which the server
+ * applies in the order it receives them
+ * Keeps reconnecting while the server is unreachable; edits made meanwhile wait until it is back,
+ * saved next to the state so a restart does not lose them
+ */
+
+import { serializeState, deserializeState, type AppState, type SerializedState } from '@/lib/storage/persistence.service';
+import { loadSyncOutbox, saveSyncOutbox, type SyncBatch } from '@/lib/storage/sync-outbox-persistence';
+import { applyOperations, diffStates, isSyncOperation } from './operations.mjs';
+
+export type SyncServerStatus = 'off' | 'connecting' | 'online' | 'offline';
+
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+interface SyncServerHandlers {
+  getState: () => AppState;                           // Latest local state, including edits not published yet
+  onState: (state: AppState) => void;                 // Local state with the edits of other desks applied
+  onStatusChange: (status: SyncServerStatus) => void;
+}
+
+export interface SyncServerConnection {
+  publish: (state: AppState) => void;
+  close: () => void;
+}
+
+/**
+ * Connects to a sync server and keeps the connection alive until closed
+ * The server's state plus the local batches it has not applied yet always give the local state:
+ * edits of other desks are applied to the server's state and the local batches replayed on top
+ * Both are saved as the outbox, which the next connection to the same server resumes from
+ * @param origin - Id of this window, so the server recognizes its batches
+ */
+export function connectSyncServer(
+  url: string,
+  origin: string,
+  { getState, onState, onStatusChange }: SyncServerHandlers
+): SyncServerConnection {
+  let socket: WebSocket | null = null;
+  let revision: number | null = null; // Latest server revision, null until the snapshot
+  let confirmed: SerializedState | null = null; // State of the server at that revision
+  let local = serializeState(getState()); // Last local state the batches account for
+  let pending: SyncBatch[] = []; // Local batches not applied by the server yet, restored ones keep their origin
+  let nextSeq = 1;
+  let ready = false; // Whether the saved outbox was loaded
+  let retryDelay = MIN_RETRY_DELAY_MS;
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const send = (message: object) => {
+    if (revision !== null && socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const sendBatch = (batch: SyncBatch) => send({ type: 'operations', ...batch });
+
+  const saveOutbox = () => {
+    if (confirmed) saveSyncOutbox({ url, confirmed, pending });
+  };
+
+  /**
+   * Records the edits made since the last call as a new batch
+   */
+  const record = (state: AppState) => {
+    if (!ready) return;
+    const next = serializeState(state);
+    const operations = diffStates(local, next);
+    local = next;
+    if (operations.length === 0) return;
+
+    const batch = { origin, seq: nextSeq++, operations };
+    pending.push(batch);
+    saveOutbox();
+    sendBatch(batch);
+  };
+
+  /**
+   * Rebuilds the local state from the server's one and hands it to the store if it changed
+   */
+  const rebase = () => {
+    if (!confirmed) return;
+    const rebased = applyOperations(confirmed, pending.flatMap((batch) => batch.operations));
+    if (diffStates(local, rebased).length === 0) return;
+
+    const result = deserializeState(rebased);
+    if (result.ok) {
+      local = serializeState(result.state);
+      onState(result.state);
+    }
+  };
+
+  const receiveSnapshot = (message: Record<string, unknown>) => {
+    revision = message.revision as number;
+
+    if (message.state === null) {
+      // The server has no state yet: this desk provides it, edits made so far included
+      local = serializeState(getState());
+      pending = [];
+      send({ type: 'init', state: local });
+      return;
+    }
+
+    const result = deserializeState(message.state);
+    if (!result.ok) return;
+
+    // Batches the server applied before the connection dropped are not sent again
+    const seqs = (message.seqs ?? {}) as Record<string, number>;
+    pending = pending.filter((batch) => batch.seq > (seqs[batch.origin] ?? 0));
+    confirmed = serializeState(result.state);
+    saveOutbox();
+    pending.forEach(sendBatch);
+    record(getState());
+    rebase();
+  };
+
+  const receiveOperations = (message: Record<string, unknown>) => {
+    const operations = message.operations;
+    if (!confirmed || !Array.isArray(operations) || !operations.every(isSyncOperation)) return;
+
+    // A missed revision means the state is out of step: the snapshot after reconnecting fixes it
+    if (message.revision !== (revision ?? 0) + 1) {
+      socket?.close();
+      return;
+    }
+    revision = message.revision;
+
+    // Local edits not published yet go on top of the incoming ones
+    record(getState());
+    confirmed = applyOperations(confirmed, operations);
+    pending = pending.filter((batch) => batch.origin !== message.origin || batch.seq !== message.seq);
+    saveOutbox();
+    rebase();
+  };
+
+  const receive = (data: unknown) => {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (typeof message.revision !== 'number') return;
+
+    if (message.type === 'snapshot') {
+      receiveSnapshot(message);
+    } else if (message.type === 'operations') {
+      receiveOperations(message);
+    }
+  };
+
+  const connect = () => {
+    onStatusChange('connecting');
+    socket = new WebSocket(url);
+
+    socket.addEventListener('open', () => {
+      retryDelay = MIN_RETRY_DELAY_MS;
+      onStatusChange('online');
+    });
+    socket.addEventListener('message', (event) => receive(event.data));
+    socket.addEventListener('close', () => {
+      socket = null;
+      revision = null;
+      if (closed) return;
+
+      onStatusChange('offline');
+      retryTimeout = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+    });
+  };
+
+  // Batches of a previous run go out again; edits saved after them make a new batch once connected
+  loadSyncOutbox(url).then((outbox) => {
+    if (outbox) {
+      confirmed = outbox.confirmed;
+      pending = outbox.pending;
+      local = applyOperations(confirmed, pending.flatMap((batch) => batch.operations));
+    }
+    ready = true;
+    if (!closed) connect();
+  });
+
+  return {
+    publish: record,
+    close: () => {
+      closed = true;
+      if (retryTimeout) clearTimeout(retryTimeout);
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * State Channel
+ * Carries the state published by a window to the other windows of the app
+ * - Electron: relayed by the main process to every other window
+ * - Web: BroadcastChannel between tabs of the same origin
+ * Messages use the persisted format, so they are read like a saved state
+ */
+
+import { serializeState, deserializeState, type AppState } from '@/lib/storage/persistence.service';
+import { isElectron, on, send } from '@/lib/ipc/electron-client';
+import type { SyncVersion } from '@/features/sync';
+
+const CHANNEL_NAME = 'wolfden-manager-state';
+
+/**
+ * State published by a window
+ */
+export interface StateUpdate extends SyncVersion {
+  parent?: SyncVersion; // Last state the window published or received before this one
+  state: AppState;
+}
+
+const isSyncVersion = (value: unknown): value is SyncVersion =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as SyncVersion).origin === 'string' &&
+  typeof (value as SyncVersion).stamp === 'number';
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+  channel ??= new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+/**
+ * Sends a state to the other windows
+ */
+export function publishState({ state, ...version }: StateUpdate): void {
+  const message = { ...version, state: serializeState(state) };
+  if (isElectron()) {
+    send('state:publish', message);
+  } else {
+    getChannel()?.postMessage(message);
+  }
+}
+
+/**
+ * Calls back with each state published by another window
+ * Invalid messages are ignored; returns a function that stops listening
+ */
+export function subscribeState(callback: (update: StateUpdate) => void): () => void {
+  const receive = (message: unknown) => {
+    if (typeof message !== 'object' || message === null) return;
+    const { origin, stamp, parent, state } = message as Record<string, unknown>;
+    if (typeof origin !== 'string' || typeof stamp !== 'number') return;
+
+    const result = deserializeState(state);
+    if (result.ok) {
+      callback({ origin, stamp, parent: isSyncVersion(parent) ? parent : undefined, state: result.state });
+    }
+  };
+
+  if (isElectron()) {
+    return on('state:changed', receive);
+  }
+
+  const target = getChannel();
+  if (!target) return () => {};
+  const listener = (event: MessageEvent) => receive(event.data);
+  target.addEventListener('message', listener);
+  return () => target.removeEventListener('message', listener);
+}
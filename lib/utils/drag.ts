@@ -0,0 +1,52 @@
+/**
+ * Utility functions for native drag and drop
+ * Payloads use custom MIME types so drop targets can tell sections and stations apart
+ */
+
+import type { DragEvent } from 'react';
+
+export const DRAG_TYPES = {
+  card: 'application/x-wolfden-card',
+  section: 'application/x-wolfden-section',
+} as const;
+
+type DragType = (typeof DRAG_TYPES)[keyof typeof DRAG_TYPES];
+
+export interface CardDragData {
+  sectionId: number;
+  cardId: number;
+}
+
+export interface SectionDragData {
+  sectionId: number;
+}
+
+/**
+ * Stores the payload of a drag operation
+ */
+export function setDragData(e: DragEvent, type: DragType, data: CardDragData | SectionDragData): void {
+  e.dataTransfer.setData(type, JSON.stringify(data));
+  e.dataTransfer.effectAllowed = 'move';
+}
+
+/**
+ * Checks the payload type of a drag operation
+ * Only the types are readable while dragging; the data is available on drop
+ */
+export function hasDragType(e: DragEvent, type: DragType): boolean {
+  return e.dataTransfer.types.includes(type);
+}
+
+/**
+ * Reads the payload of a drop
+ * Returns null if the drop carries no payload of that type
+ */
+export function getDragData<T extends CardDragData | SectionDragData>(e: DragEvent, type: DragType): T | null {
+  const raw = e.dataTransfer.getData(type);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
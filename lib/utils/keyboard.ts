@@ -21,7 +21,7 @@ export function isInputField(target: EventTarget | null): boolean {
 /**
  * Checks if Ctrl (or Cmd on Mac) is pressed
  */
-export function isCtrlOrCmd(e: KeyboardEvent | WheelEvent): boolean {
+export function isCtrlOrCmd(e: KeyboardEvent | MouseEvent): boolean {
   return !!(e.ctrlKey || e.metaKey);
 }
 
@@ -0,0 +1,70 @@
+/**
+ * Utility functions for native desktop notifications
+ * Available only under Electron: the main process shows them, see main/main.js
+ * Alerts are claimed across the windows of the app, so only one of them fires each alert
+ */
+
+import type { CardRef } from '@/types';
+import { isElectron, on, send } from '@/lib/ipc/electron-client';
+
+const ALERT_CLAIMS_KEY = 'wolfden-alert-claims';
+const ALERT_CLAIM_TTL_MS = 60 * 60 * 1000; // Claims are forgotten after an hour
+
+/**
+ * Notification about a station, shown by the operating system
+ */
+export interface DesktopNotification extends CardRef {
+  kind: 'preExpiry' | 'expired';
+  title: string;
+  body: string;
+}
+
+/**
+ * Shows a native notification, unless the window already has the user's attention
+ * Does nothing outside Electron
+ */
+export function showDesktopNotification(notification: DesktopNotification): void {
+  if (!isElectron() || document.hasFocus()) return;
+  send('notification:show', notification);
+}
+
+/**
+ * Calls back with the station of a clicked notification
+ * Returns a function that stops listening
+ */
+export function onDesktopNotificationClick(callback: (station: CardRef) => void): () => void {
+  return on('notification:click', callback);
+}
+
+/**
+ * Records the alert as fired, unless another window already did
+ * Every window ticks its own timers: the first one to claim an alert fires it
+ */
+function recordAlertClaim(key: string): boolean {
+  const now = Date.now();
+  let claims: Record<string, number> = {};
+  try {
+    claims = JSON.parse(localStorage.getItem(ALERT_CLAIMS_KEY) ?? '{}');
+  } catch {
+    // Unreadable claims are started over
+  }
+
+  if (key in claims) return false;
+
+  const recent = Object.fromEntries(
+    Object.entries(claims).filter(([, claimedAt]) => now - claimedAt < ALERT_CLAIM_TTL_MS)
+  );
+  localStorage.setItem(ALERT_CLAIMS_KEY, JSON.stringify({ ...recent, [key]: now }));
+  return true;
+}
+
+/**
+ * Resolves to true if this window is the one to fire the alert
+ * The key identifies the alert, e.g. its station, timer end and kind
+ * Windows of the same app share a lock, so two of them never both claim it
+ */
+export async function claimAlert(key: string): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+  if (!navigator.locks) return recordAlertClaim(key);
+  return navigator.locks.request(ALERT_CLAIMS_KEY, () => recordAlertClaim(key));
+}
@@ -0,0 +1,40 @@
+/**
+ * Utility functions for explicitly ordered lists (sections, stations)
+ */
+
+interface Ordered {
+  order: number;
+}
+
+/**
+ * Returns the order value for an item appended to the list
+ */
+export function getNextOrder(items: Ordered[]): number {
+  if (items.length === 0) return 0;
+  return Math.max(...items.map((item) => item.order)) + 1;
+}
+
+/**
+ * Returns a copy of the list sorted by order
+ */
+export function sortByOrder<T extends Ordered>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Renumbers the list so that order matches array position
+ * Items already in place are kept as they are
+ */
+export function withSequentialOrder<T extends Ordered>(items: T[]): T[] {
+  return items.map((item, index) => (item.order === index ? item : { ...item, order: index }));
+}
+
+/**
+ * Moves an item to another position and renumbers the list
+ */
+export function moveToIndex<T extends Ordered>(items: T[], fromIndex: number, toIndex: number): T[] {
+  const updated = [...items];
+  const [moved] = updated.splice(fromIndex, 1);
+  updated.splice(toIndex, 0, moved);
+  return withSequentialOrder(updated);
+}
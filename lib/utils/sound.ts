@@ -62,6 +62,8 @@ function unlockAudio(): Promise<boolean> {
           audio.pause();
           audio.currentTime = 0;
           audioUnlocked = true;
+          // Alert tones share the same autoplay restrictions
+          getAudioContext()?.resume().catch(() => {});
           resolve(true);
         })
         .catch(() => {
@@ -98,6 +100,71 @@ export function playTimerExpiredSound(): void {
   }
 }
 
+/**
+ * Pre-expiry alert tones, from the furthest to the closest to expiry
+ * Synthesized so each level sounds distinct from the expiry alarm and from the others
+ */
+export type AlertTone = 'warning' | 'orange' | 'critical';
+
+const ALERT_TONES: Record<AlertTone, { frequency: number; beeps: number }> = {
+  warning: { frequency: 660, beeps: 1 },
+  orange: { frequency: 880, beeps: 2 },
+  critical: { frequency: 1046, beeps: 3 },
+};
+
+const BEEP_SECONDS = 0.18;
+const BEEP_GAP_SECONDS = 0.12;
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return null;
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+}
+
+/**
+ * Plays a pre-expiry alert tone
+ * Does not play if audio is muted
+ */
+export function playAlertTone(tone: AlertTone): void {
+  if (isMuted) {
+    return;
+  }
+
+  const context = getAudioContext();
+  if (!context) return;
+  if (context.state === 'suspended') {
+    context.resume().catch(() => {});
+  }
+
+  const { frequency, beeps } = ALERT_TONES[tone];
+  const start = context.currentTime;
+
+  try {
+    for (let i = 0; i < beeps; i++) {
+      const beepStart = start + i * (BEEP_SECONDS + BEEP_GAP_SECONDS);
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      // Short fade in and out to avoid clicks
+      gain.gain.setValueAtTime(0, beepStart);
+      gain.gain.linearRampToValueAtTime(0.4, beepStart + 0.02);
+      gain.gain.linearRampToValueAtTime(0, beepStart + BEEP_SECONDS);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(beepStart);
+      oscillator.stop(beepStart + BEEP_SECONDS);
+    }
+  } catch (error) {
+    console.error('Error playing alert tone:', error);
+  }
+}
+
 export function muteAudio(): void {
   isMuted = true;
   saveMuteState(true);
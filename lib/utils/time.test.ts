@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getNextWallTime, zonedTimeToISO } from './time';
+
+const ROME = 'Europe/Rome';
+
+describe('zonedTimeToISO', () => {
+  it('reads the time in the given zone', () => {
+    expect(zonedTimeToISO('2025-01-15', '18:30', ROME)).toBe('2025-01-15T17:30:00.000Z');
+    expect(zonedTimeToISO('2025-07-15', '18:30', ROME)).toBe('2025-07-15T16:30:00.000Z');
+  });
+});
+
+describe('getNextWallTime', () => {
+  it('returns the time later the same day', () => {
+    expect(getNextWallTime('23:00', ROME, '2025-01-15T17:00:00.000Z')).toBe('2025-01-15T22:00:00.000Z');
+  });
+
+  it('moves to the next day once the time has passed', () => {
+    expect(getNextWallTime('06:00', ROME, '2025-01-15T22:00:00.000Z')).toBe('2025-01-16T05:00:00.000Z');
+  });
+
+  it('is strictly after the starting instant', () => {
+    expect(getNextWallTime('18:00', ROME, '2025-01-15T17:00:00.000Z')).toBe('2025-01-16T17:00:00.000Z');
+  });
+
+  it('reads the day in the given zone, not in UTC', () => {
+    // 00:30 in Rome is still the previous day in UTC
+    expect(getNextWallTime('02:00', ROME, '2025-01-14T23:30:00.000Z')).toBe('2025-01-15T01:00:00.000Z');
+  });
+
+  it('keeps the wall time across the switch to summer time', () => {
+    // Clocks go forward at 02:00 on 30 March 2025: the night lasts an hour less
+    expect(getNextWallTime('06:00', ROME, '2025-03-29T22:00:00.000Z')).toBe('2025-03-30T04:00:00.000Z');
+  });
+
+  it('keeps the wall time across the switch back to winter time', () => {
+    // Clocks go back at 03:00 on 26 October 2025: the night lasts an hour more
+    expect(getNextWallTime('06:00', ROME, '2025-10-25T21:00:00.000Z')).toBe('2025-10-26T05:00:00.000Z');
+  });
+
+  it('moves a time skipped by the switch to summer time forward', () => {
+    // 02:30 does not exist on 30 March 2025: it becomes 03:30
+    expect(getNextWallTime('02:30', ROME, '2025-03-29T22:00:00.000Z')).toBe('2025-03-30T01:30:00.000Z');
+  });
+
+  it('returns an empty string for an invalid time', () => {
+    expect(getNextWallTime('ab:cd', ROME, '2025-01-15T17:00:00.000Z')).toBe('');
+  });
+});
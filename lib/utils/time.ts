@@ -2,93 +2,132 @@
  * Utility functions for time management
  * Centralizes all calculation, formatting, and manipulation logic for time
  * Uses complete ISO timestamps to properly handle dates and times
+ * Durations are computed on instants; wall-clock times (HH:mm) are read and written in the
+ * time zone passed by the caller, so DST changes never shift a session
  */
 
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
+import type { AlertSettings } from '@/types';
 
 // Configure dayjs with timezone plugin
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
 // Configuration constants
-export const TIMEZONE = 'Europe/Rome';
+export const DEFAULT_TIMEZONE = 'Europe/Rome'; // Used only if the computer's time zone cannot be read
 const TIME_FORMAT = 'HH:mm';
 const TIME_FORMAT_WITH_SECONDS = 'HH:mm:ss';
+const DATE_FORMAT = 'YYYY-MM-DD';
 
 /**
- * Gets the current time formatted as HH:mm string in the configured timezone
+ * Gets the current time formatted as HH:mm string in a time zone
+ * @param timezone - IANA time zone (e.g. "Europe/Rome")
  * @returns String in HH:mm format (for UI display)
  */
-export function getCurrentTimeString(): string {
-  return dayjs().tz(TIMEZONE).format(TIME_FORMAT);
+export function getCurrentTimeString(timezone: string): string {
+  return dayjs().tz(timezone).format(TIME_FORMAT);
 }
 
 /**
- * Gets the current time formatted as HH:mm:ss string in the configured timezone
+ * Gets the current time formatted as HH:mm:ss string in a time zone
  * Includes seconds for precise time display
+ * @param timezone - IANA time zone
  * @returns String in HH:mm:ss format (for time input)
  */
-export function getCurrentTimeStringWithSeconds(): string {
-  return dayjs().tz(TIMEZONE).format(TIME_FORMAT_WITH_SECONDS);
+export function getCurrentTimeStringWithSeconds(timezone: string): string {
+  return dayjs().tz(timezone).format(TIME_FORMAT_WITH_SECONDS);
 }
 
 /**
  * Creates an ISO timestamp by adding minutes to the current time
+ * Works on instants, so the result does not depend on the time zone
  * @param minutes - Minutes to add (can be negative to subtract)
  * @returns ISO timestamp
  */
 export function addMinutesToCurrentTime(minutes: number): string {
-  const now = dayjs().tz(TIMEZONE);
-  const endTime = now.add(minutes, 'minute');
-  return endTime.toISOString();
+  return dayjs().add(minutes, 'minute').toISOString();
 }
 
 /**
  * Adds minutes to an existing ISO timestamp
+ * Works on instants: a 3 hour session lasts 3 hours even across a DST change
  * @param timestamp - Existing ISO timestamp
  * @param minutes - Minutes to add (can be negative to subtract)
  * @returns New ISO timestamp
  */
 export function addMinutesToTimestamp(timestamp: string, minutes: number): string {
-  const time = dayjs(timestamp).tz(TIMEZONE);
-  const newTime = time.add(minutes, 'minute');
-  return newTime.toISOString();
+  return dayjs(timestamp).add(minutes, 'minute').toISOString();
 }
 
 /**
  * Converts an ISO timestamp to HH:mm format for display
  * @param timestamp - ISO timestamp
+ * @param timezone - IANA time zone
  * @returns String in HH:mm format
  */
-export function timestampToTimeString(timestamp: string | null): string {
+export function timestampToTimeString(timestamp: string | null, timezone: string): string {
   if (!timestamp) return '00:00';
-  return dayjs(timestamp).tz(TIMEZONE).format(TIME_FORMAT);
+  return dayjs(timestamp).tz(timezone).format(TIME_FORMAT);
+}
+
+/**
+ * Converts a wall-clock date and time to an ISO timestamp
+ * The UTC offset is the one in force at that moment, so times after a DST change are not shifted
+ * Times skipped by the change (e.g. 02:30 when clocks jump to 03:00) move forward
+ * @param date - Date in YYYY-MM-DD format
+ * @param timeString - Time string in HH:mm format
+ * @param timezone - IANA time zone
+ * @returns ISO timestamp, or an empty string if the time is invalid
+ */
+export function zonedTimeToISO(date: string, timeString: string, timezone: string): string {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return '';
+
+  const time = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  const dateTime = dayjs.tz(`${date} ${time}`, `${DATE_FORMAT} ${TIME_FORMAT}`, timezone);
+  return dateTime.isValid() ? dateTime.toISOString() : '';
+}
+
+/**
+ * Checks that a string is a valid wall-clock time in HH:mm format
+ */
+export function isValidTimeString(timeString: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(timeString);
+}
+
+/**
+ * Gets the first moment a wall-clock time occurs strictly after an instant
+ * E.g. 06:00 after 23:00 is 06:00 of the next day
+ * @param timeString - Time string in HH:mm format
+ * @param timezone - IANA time zone the time string is read in
+ * @param afterTimestamp - Optional ISO timestamp to start from (defaults to now)
+ * @returns ISO timestamp, or an empty string if the time is invalid
+ */
+export function getNextWallTime(timeString: string, timezone: string, afterTimestamp?: string | null): string {
+  const after = afterTimestamp ? dayjs(afterTimestamp) : dayjs();
+  const date = after.tz(timezone);
+
+  const sameDay = zonedTimeToISO(date.format(DATE_FORMAT), timeString, timezone);
+  if (!sameDay || dayjs(sameDay).isAfter(after)) return sameDay;
+  return zonedTimeToISO(date.add(1, 'day').format(DATE_FORMAT), timeString, timezone);
 }
 
 /**
  * Converts a time string (HH:mm) to ISO timestamp maintaining the date from base timestamp
  * If no base timestamp is provided, uses current date
  * @param timeString - Time string in HH:mm format
+ * @param timezone - IANA time zone the time string is read in
  * @param baseTimestamp - Optional ISO timestamp to maintain the date from
  * @returns ISO timestamp with the time from timeString and date from baseTimestamp (or current date)
  */
-export function timeStringToISO(timeString: string, baseTimestamp?: string | null): string {
+export function timeStringToISO(timeString: string, timezone: string, baseTimestamp?: string | null): string {
   if (!timeString) return '';
-  
+
   // Keep date from base timestamp and change only time; otherwise use current date
-  const baseDate = baseTimestamp 
-    ? dayjs(baseTimestamp).tz(TIMEZONE)
-    : dayjs().tz(TIMEZONE);
-  
-  const [hours, minutes] = timeString.split(':').map(Number);
-  
-  if (isNaN(hours) || isNaN(minutes)) return '';
-  
-  // Keep original date and change only time
-  const dateTime = baseDate.hour(hours).minute(minutes).second(0).millisecond(0);
-  return dateTime.toISOString();
+  const baseDate = (baseTimestamp ? dayjs(baseTimestamp) : dayjs()).tz(timezone).format(DATE_FORMAT);
+  return zonedTimeToISO(baseDate, timeString, timezone);
 }
 
 /**
@@ -135,18 +174,25 @@ export function toTotalMinutes(hours: number, minutes: number): number {
  * Calculates remaining seconds between current time and end timestamp
  * Uses complete ISO timestamps for precise calculations based on real dates
  * If startTime is provided and current time is before startTime, returns full duration
+ * If pausedAt is provided, the calculation is frozen at the pause moment
  * @param endTimestamp - End ISO timestamp
  * @param startTimestamp - Optional start ISO timestamp (if timer hasn't started yet)
+ * @param pausedAtTimestamp - Optional ISO timestamp of when the timer was paused
  * @returns Remaining seconds (negative if expired, positive if still active)
  */
-export function getRemainingSeconds(endTimestamp: string | null, startTimestamp?: string | null): number {
+export function getRemainingSeconds(
+  endTimestamp: string | null,
+  startTimestamp?: string | null,
+  pausedAtTimestamp?: string | null
+): number {
   if (!endTimestamp) return 0;
   
-  const now = dayjs().tz(TIMEZONE);
-  const endTime = dayjs(endTimestamp).tz(TIMEZONE);
+  // While paused, time stands still at the pause moment
+  const now = pausedAtTimestamp ? dayjs(pausedAtTimestamp) : dayjs();
+  const endTime = dayjs(endTimestamp);
   
   if (startTimestamp) {
-    const startTime = dayjs(startTimestamp).tz(TIMEZONE);
+    const startTime = dayjs(startTimestamp);
     if (now.isBefore(startTime)) {
       return endTime.diff(startTime, 'second');
     }
@@ -155,21 +201,30 @@ export function getRemainingSeconds(endTimestamp: string | null, startTimestamp?
   return endTime.diff(now, 'second');
 }
 
+/**
+ * Calculates seconds elapsed since a start timestamp (for open sessions counting up)
+ * @param startTimestamp - Start ISO timestamp
+ * @returns Elapsed seconds (0 if not started yet)
+ */
+export function getElapsedSeconds(startTimestamp: string | null): number {
+  if (!startTimestamp) return 0;
+  return Math.max(0, dayjs().diff(dayjs(startTimestamp), 'second'));
+}
+
 /**
  * Calculates progress percentage based on initial duration and remaining seconds
  * Uses seconds to ensure precise updates every second
- * The bar stays at 100% while remaining time is greater than 1 hour,
- * then starts decreasing based on the last hour
+ * The bar stays at 100% while remaining time is greater than the progress window,
+ * then starts decreasing based on the last part of the session
  * @param initialMinutes - Initial duration in minutes
  * @param remainingSeconds - Remaining seconds (can be negative if expired)
+ * @param windowMinutes - Progress window in minutes (default: 1 hour)
  * @returns Progress percentage (0-100, or >100 if expired to show red progress bar)
  */
-export function calculateProgress(initialMinutes: number, remainingSeconds: number): number {
+export function calculateProgress(initialMinutes: number, remainingSeconds: number, windowMinutes = 60): number {
   if (initialMinutes <= 0) return 0;
   
-  // Convert initial duration to seconds for precise calculation
-  const initialSeconds = initialMinutes * 60;
-  const ONE_HOUR_IN_SECONDS = 3600;
+  const windowSeconds = Math.max(1, windowMinutes) * 60;
   
   // If time expired (negative value), return > 100
   // to indicate the progress bar should be red
@@ -178,17 +233,17 @@ export function calculateProgress(initialMinutes: number, remainingSeconds: numb
     const overtimeSeconds = Math.abs(remainingSeconds);
     // Return 100 + a percentage based on expired time
     // Limit to 200% to avoid excessive values
-    return Math.min(200, 100 + (overtimeSeconds / ONE_HOUR_IN_SECONDS) * 100);
+    return Math.min(200, 100 + (overtimeSeconds / windowSeconds) * 100);
   }
   
-  // If remaining time is greater than 1 hour, bar is always at 100%
-  if (remainingSeconds > ONE_HOUR_IN_SECONDS) {
+  // If remaining time is greater than the window, bar is always at 100%
+  if (remainingSeconds > windowSeconds) {
     return 100;
   }
   
-  // When remaining time is <= 1 hour, calculate progress based on last hour
-  // Progress goes from 100% (1 hour remaining) to 0% (0 seconds remaining)
-  const progress = (remainingSeconds / ONE_HOUR_IN_SECONDS) * 100;
+  // When remaining time is within the window, calculate progress based on it
+  // Progress goes from 100% (whole window remaining) to 0% (0 seconds remaining)
+  const progress = (remainingSeconds / windowSeconds) * 100;
   return Math.max(0, Math.min(100, progress));
 }
 
@@ -235,39 +290,39 @@ export function formatRemainingTime(seconds: number): string {
 /**
  * Adjusts end time to next day if it's before start time
  * Handles cross-midnight scenarios (e.g., 23:30 start, 01:00 end)
+ * Compares instants rather than HH:mm strings, so it stays correct on DST nights
  * @param startISO - Start ISO timestamp
  * @param endTimeString - End time string in HH:mm format
+ * @param timezone - IANA time zone the end time is read in
  * @returns Adjusted end ISO timestamp (with +1 day if needed)
  */
 export function adjustEndTimeForMidnightCrossing(
   startISO: string,
-  endTimeString: string
+  endTimeString: string,
+  timezone: string
 ): string {
-  const startDateTime = dayjs(startISO).tz(TIMEZONE);
-  const [hours, minutes] = endTimeString.split(':').map(Number);
-  
+  const startDate = dayjs(startISO).tz(timezone).format(DATE_FORMAT);
+
   // Create end time on the same date as start
-  let endDateTime = startDateTime.hour(hours).minute(minutes).second(0).millisecond(0);
-  
-  // Extract time-only strings for comparison
-  const startTimeOnly = startDateTime.format('HH:mm');
-  const endTimeOnly = endDateTime.format('HH:mm');
-  
-  // If end time is before start time, add one day
-  if (endTimeOnly < startTimeOnly) {
-    endDateTime = endDateTime.add(1, 'day');
+  const endISO = zonedTimeToISO(startDate, endTimeString, timezone);
+  if (!endISO || !dayjs(endISO).isBefore(dayjs(startISO))) {
+    return endISO;
   }
-  
-  return endDateTime.toISOString();
+
+  // End time is before start time: same time on the next day, with that day's UTC offset
+  const nextDate = dayjs(startDate).add(1, 'day').format(DATE_FORMAT);
+  return zonedTimeToISO(nextDate, endTimeString, timezone);
 }
 
 /**
  * Calculates progress bar variant based on remaining time
  * @param remainingSeconds - Remaining seconds (can be negative if expired)
+ * @param thresholds - Remaining minutes at which the bar turns yellow, orange and red
  * @returns Progress bar variant: "default" | "warning" | "orange" | "destructive"
  */
 export function calculateProgressVariant(
-  remainingSeconds: number
+  remainingSeconds: number,
+  thresholds: Pick<AlertSettings, 'warningMinutes' | 'orangeMinutes' | 'criticalMinutes'>
 ): "default" | "warning" | "orange" | "destructive" {
   // If 00:00 (remainingSeconds === 0), always use default
   if (remainingSeconds === 0) {
@@ -277,11 +332,11 @@ export function calculateProgressVariant(
   const remainingMinutes = Math.floor(remainingSeconds / 60);
   const isExpired = remainingSeconds < 0;
   
-  if (isExpired || remainingMinutes <= 10) {
+  if (isExpired || remainingMinutes <= thresholds.criticalMinutes) {
     return "destructive";
-  } else if (remainingMinutes <= 20) {
+  } else if (remainingMinutes <= thresholds.orangeMinutes) {
     return "orange";
-  } else if (remainingMinutes <= 30) {
+  } else if (remainingMinutes <= thresholds.warningMinutes) {
     return "warning";
   }
   
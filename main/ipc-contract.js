@@ -0,0 +1,41 @@
+/**
+ * IPC contract between the main process and the renderer
+ * Every channel the renderer may use is listed here, the preload bridge rejects any other
+ * Payload types are described in lib/ipc/contract.ts
+ */
+
+// Prefix of the process argument carrying the channels to the preload script, see main/preload.js
+const CHANNELS_ARGUMENT = "--ipc-channels=";
+
+// Renderer → main, answered with a promise
+const INVOKE = Object.freeze({
+  STORAGE_READ: "storage:read",
+  STORAGE_WRITE: "storage:write",
+  DISPLAY_OPEN: "display:open",
+  PRINT: "window:print",
+});
+
+// Renderer → main, without an answer
+const SEND = Object.freeze({
+  NOTIFICATION_SHOW: "notification:show",
+  STATE_PUBLISH: "state:publish",
+});
+
+// Main → renderer
+const EVENTS = Object.freeze({
+  NOTIFICATION_CLICK: "notification:click",
+  STATE_CHANGED: "state:changed",
+});
+
+/**
+ * Process argument listing every channel, passed to the preload script of each window
+ */
+const getChannelsArgument = () =>
+  CHANNELS_ARGUMENT +
+  JSON.stringify({
+    invoke: Object.values(INVOKE),
+    send: Object.values(SEND),
+    events: Object.values(EVENTS),
+  });
+
+module.exports = { INVOKE, SEND, EVENTS, getChannelsArgument };
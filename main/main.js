@@ -1,6 +1,18 @@
-const { app, BrowserWindow, Menu } = require("electron");
+const { app, BrowserWindow, Menu, Notification, ipcMain, screen } = require("electron");
 const serve = require("electron-serve").default || require("electron-serve");
 const path = require("path");
+const fs = require("fs/promises");
+const { INVOKE, SEND, EVENTS, getChannelsArgument } = require("./ipc-contract");
+
+// File storage for app state, in the user data directory
+const STORAGE_DIR = path.join(app.getPath("userData"), "storage");
+const BACKUP_DIR = path.join(STORAGE_DIR, "backups");
+const MAX_BACKUPS = 10;
+const BACKUP_INTERVAL_MS = 60 * 60 * 1000; // At most one backup per hour
+const STORAGE_KEY_PATTERN = /^[\w-]+$/;
+
+// Windows shows notifications only for apps with an explicit user model id
+const APP_USER_MODEL_ID = "com.wolfden.manager";
 
 // Serve static files from 'out' directory in production
 const appServe = app.isPackaged
@@ -9,6 +21,15 @@ const appServe = app.isPackaged
     })
   : null;
 
+const WEB_PREFERENCES = {
+  preload: path.join(__dirname, "preload.js"),
+  nodeIntegration: false,
+  contextIsolation: true,
+  sandbox: true,
+  // The preload script cannot require ipc-contract.js: it receives the allowed channels instead
+  additionalArguments: [getChannelsArgument()],
+};
+
 const createWindow = () => {
   const win = new BrowserWindow({
     width: 500,
@@ -16,11 +37,7 @@ const createWindow = () => {
     minWidth: 360,
     minHeight: 600,
     autoHideMenuBar: true,
-    webPreferences: {
-      preload: path.join(__dirname, "preload.js"),
-      nodeIntegration: false,
-      contextIsolation: true,
-    },
+    webPreferences: WEB_PREFERENCES,
   });
 
   Menu.setApplicationMenu(null);
@@ -39,7 +56,217 @@ const createWindow = () => {
   }
 };
 
+// Customer display window, at most one at a time
+let displayWindow = null;
+
+/**
+ * Opens the customer display full screen on a secondary monitor, or in a window if there is only one
+ * Focuses the display if it is already open
+ */
+const openDisplayWindow = () => {
+  if (displayWindow && !displayWindow.isDestroyed()) {
+    displayWindow.focus();
+    return;
+  }
+
+  const primary = screen.getPrimaryDisplay();
+  const external = screen.getAllDisplays().find((display) => display.id !== primary.id);
+  const { x, y, width, height } = (external || primary).workArea;
+
+  displayWindow = new BrowserWindow({
+    x,
+    y,
+    width: external ? width : Math.round(width * 0.8),
+    height: external ? height : Math.round(height * 0.8),
+    fullscreen: Boolean(external),
+    autoHideMenuBar: true,
+    backgroundColor: "#000000",
+    webPreferences: WEB_PREFERENCES,
+  });
+  displayWindow.on("closed", () => {
+    displayWindow = null;
+  });
+
+  // The static export serves the route as display.html
+  displayWindow.loadURL(app.isPackaged ? "app://-/display" : "http://localhost:3000/display");
+};
+
+/**
+ * Resolves the file for a storage key
+ * Keys are restricted to word characters so they can't escape the storage directory
+ */
+const getStorageFile = (key) => {
+  if (typeof key !== "string" || !STORAGE_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return path.join(STORAGE_DIR, `${key}.json`);
+};
+
+/**
+ * Copies the current file to the backups directory if the latest backup is old enough
+ * Keeps only the most recent MAX_BACKUPS backups for each key
+ */
+const rotateBackups = async (key, file) => {
+  await fs.mkdir(BACKUP_DIR, { recursive: true });
+
+  const backups = (await fs.readdir(BACKUP_DIR))
+    .filter((name) => name.startsWith(`${key}-`) && name.endsWith(".json"))
+    .sort();
+
+  const latest = backups[backups.length - 1];
+  if (latest) {
+    const { mtimeMs } = await fs.stat(path.join(BACKUP_DIR, latest));
+    if (Date.now() - mtimeMs < BACKUP_INTERVAL_MS) {
+      return;
+    }
+  }
+
+  try {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    await fs.copyFile(file, path.join(BACKUP_DIR, `${key}-${stamp}.json`));
+    backups.push(`${key}-${stamp}.json`);
+  } catch (error) {
+    // Nothing to back up yet
+    if (error.code === "ENOENT") return;
+    throw error;
+  }
+
+  const expired = backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS));
+  await Promise.all(expired.map((name) => fs.unlink(path.join(BACKUP_DIR, name))));
+};
+
+/**
+ * Writes a file atomically: data goes to a temporary file that replaces the target only once flushed
+ */
+const writeFileAtomic = async (file, data) => {
+  const tmpFile = `${file}.tmp`;
+  const handle = await fs.open(tmpFile, "w");
+  try {
+    await handle.writeFile(data, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(tmpFile, file);
+};
+
+ipcMain.handle(INVOKE.STORAGE_READ, async (event, key) => {
+  try {
+    return await fs.readFile(getStorageFile(key), "utf8");
+  } catch (error) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+});
+
+// Pending writes per key, so overlapping saves never share the temporary file
+const writeQueues = new Map();
+
+// When the backups of each key were last checked, so frequent saves don't scan the backups directory
+const backupChecks = new Map();
+
+ipcMain.handle(INVOKE.STORAGE_WRITE, (event, key, data) => {
+  if (typeof data !== "string") {
+    throw new Error("Storage data must be a string");
+  }
+  const file = getStorageFile(key);
+
+  const write = (writeQueues.get(key) || Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      await fs.mkdir(STORAGE_DIR, { recursive: true });
+      if (Date.now() - (backupChecks.get(key) || 0) >= BACKUP_INTERVAL_MS) {
+        await rotateBackups(key, file);
+        backupChecks.set(key, Date.now());
+      }
+      await writeFileAtomic(file, data);
+    });
+  writeQueues.set(key, write);
+  return write;
+});
+
+// Notifications currently on screen, kept referenced so their click handlers are not garbage collected
+const activeNotifications = new Set();
+
+/**
+ * Checks a notification request from the renderer
+ */
+const isValidNotification = (notification) =>
+  typeof notification === "object" &&
+  notification !== null &&
+  typeof notification.title === "string" &&
+  typeof notification.body === "string" &&
+  Number.isInteger(notification.sectionId) &&
+  Number.isInteger(notification.cardId) &&
+  (notification.kind === "preExpiry" || notification.kind === "expired");
+
+/**
+ * Shows a native notification for a station
+ * Clicking it brings the window to the front and tells the renderer which station to highlight
+ */
+ipcMain.on(SEND.NOTIFICATION_SHOW, (event, notification) => {
+  if (!Notification.isSupported() || !isValidNotification(notification)) {
+    return;
+  }
+
+  const { title, body, sectionId, cardId, kind } = notification;
+  const native = new Notification({
+    title,
+    body,
+    // The renderer already plays the alert sound
+    silent: true,
+    urgency: kind === "expired" ? "critical" : "normal",
+  });
+
+  const release = () => activeNotifications.delete(native);
+  native.on("click", () => {
+    release();
+    const win = BrowserWindow.fromWebContents(event.sender);
+    if (!win || win.isDestroyed()) return;
+    if (win.isMinimized()) win.restore();
+    win.show();
+    win.focus();
+    event.sender.send(EVENTS.NOTIFICATION_CLICK, { sectionId, cardId });
+  });
+  native.on("close", release);
+
+  activeNotifications.add(native);
+  native.show();
+});
+
+/**
+ * Opens the system print dialog for the calling window
+ * Resolves to false if printing was cancelled or failed
+ */
+ipcMain.handle(INVOKE.PRINT, (event) => {
+  return new Promise((resolve) => {
+    event.sender.print({}, (success) => resolve(success));
+  });
+});
+
+/**
+ * Relays the state published by a window to every other window
+ * Windows merge what they receive with their own state, the main process only forwards it
+ */
+ipcMain.on(SEND.STATE_PUBLISH, (event, message) => {
+  if (typeof message !== "object" || message === null || typeof message.origin !== "string") {
+    return;
+  }
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed() && win.webContents !== event.sender) {
+      win.webContents.send(EVENTS.STATE_CHANGED, message);
+    }
+  }
+});
+
+ipcMain.handle(INVOKE.DISPLAY_OPEN, () => {
+  openDisplayWindow();
+});
+
 app.on("ready", () => {
+  if (process.platform === "win32") {
+    app.setAppUserModelId(APP_USER_MODEL_ID);
+  }
   createWindow();
 });
 
@@ -1,15 +1,36 @@
 const { contextBridge, ipcRenderer } = require("electron");
 
-// Expose safe Electron APIs to renderer process via window.electronAPI
+// Channels the renderer may use, as listed in main/ipc-contract.js
+// Sandboxed preload scripts can only require Electron's own modules, so the main process passes them as an argument
+const CHANNELS_ARGUMENT = "--ipc-channels=";
+const channelsArgument = process.argv.find((arg) => arg.startsWith(CHANNELS_ARGUMENT));
+const {
+  invoke: INVOKE_CHANNELS = [],
+  send: SEND_CHANNELS = [],
+  events: EVENT_CHANNELS = [],
+} = channelsArgument ? JSON.parse(channelsArgument.slice(CHANNELS_ARGUMENT.length)) : {};
+
+const assertChannel = (allowed, channel) => {
+  if (!allowed.includes(channel)) {
+    throw new Error(`IPC channel not allowed: ${channel}`);
+  }
+};
+
+// Expose the whitelisted IPC bridge to the renderer via window.electronAPI
 contextBridge.exposeInMainWorld("electronAPI", {
-  on: (channel, callback) => {
-    ipcRenderer.on(channel, callback);
+  invoke: (channel, ...args) => {
+    assertChannel(INVOKE_CHANNELS, channel);
+    return ipcRenderer.invoke(channel, ...args);
   },
-  send: (channel, args) => {
-    ipcRenderer.send(channel, args);
+  send: (channel, payload) => {
+    assertChannel(SEND_CHANNELS, channel);
+    ipcRenderer.send(channel, payload);
   },
-  removeListener: (channel, callback) => {
-    ipcRenderer.removeListener(channel, callback);
+  // The Electron event is not passed on; returns a function that removes the listener
+  on: (channel, callback) => {
+    assertChannel(EVENT_CHANNELS, channel);
+    const listener = (event, payload) => callback(payload);
+    ipcRenderer.on(channel, listener);
+    return () => ipcRenderer.removeListener(channel, listener);
   },
 });
-
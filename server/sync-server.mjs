@@ -0,0 +1,147 @@
+import http from "node:http";
+import path from "node:path";
+import fs from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { WebSocketServer, WebSocket } from "ws";
+import { applyOperations, isSyncOperation } from "../lib/sync/operations.mjs";
+
+// LAN sync server: holds the authoritative den state for the front desks on the same network
+//
+// Protocol, JSON text messages over WebSocket:
+//   server → client  { type: "snapshot", revision, state, seqs }                 on connect and once a desk provided the state
+//                    { type: "operations", revision, origin, seq, operations }  edits of any desk, the sender's own included
+//   client → server  { type: "init", state }                                     provides the state while the server has none
+//                    { type: "operations", origin, seq, operations }
+//
+// Operations edit single items (see lib/sync/operations.mjs). The server applies them in the order
+// it receives them and numbers each batch with the next revision, so desks never compare clocks:
+// the edit that reaches the server last wins. Customer balances move by the minutes each desk added
+// or debited instead, so none is lost. Each desk numbers its batches (seq) and the server remembers
+// the last one applied per desk, so a batch sent again after a reconnection is ignored.
+
+const PORT = Number(process.env.PORT) || 4000;
+const DATA_DIR = process.env.DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), "data");
+const DATA_FILE = path.join(DATA_DIR, "state.json");
+const SEQ_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Desks silent for a week are forgotten
+
+// seqs: last batch applied per desk, with when it was applied
+let current = { revision: 0, state: null, seqs: {} };
+
+/**
+ * Loads the last saved state, if any
+ */
+const loadCurrent = async () => {
+  try {
+    const saved = JSON.parse(await fs.readFile(DATA_FILE, "utf8"));
+    if (Number.isInteger(saved.revision) && typeof saved.state === "object") {
+      current = { revision: saved.revision, state: saved.state, seqs: saved.seqs ?? {} };
+    }
+  } catch (error) {
+    if (error.code !== "ENOENT") {
+      console.error("Saved state could not be loaded, starting empty:", error.message);
+    }
+  }
+};
+
+// Pending write, so overlapping saves never share the temporary file
+let writeQueue = Promise.resolve();
+
+/**
+ * Saves the current state atomically: a temporary file replaces the data file once written
+ */
+const saveCurrent = () => {
+  const data = JSON.stringify(current);
+  writeQueue = writeQueue
+    .catch(() => {})
+    .then(async () => {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      await fs.writeFile(`${DATA_FILE}.tmp`, data, "utf8");
+      await fs.rename(`${DATA_FILE}.tmp`, DATA_FILE);
+    })
+    .catch((error) => console.error("Error saving state:", error.message));
+};
+
+/**
+ * Last batch applied for each desk, as sent in snapshots
+ */
+const getSeqs = () => Object.fromEntries(Object.entries(current.seqs).map(([origin, { seq }]) => [origin, seq]));
+
+const snapshot = () => ({ type: "snapshot", revision: current.revision, state: current.state, seqs: getSeqs() });
+
+const server = http.createServer((request, response) => {
+  if (request.url === "/health") {
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ revision: current.revision, clients: sockets.clients.size }));
+    return;
+  }
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("WebSocket connections only\n");
+});
+
+const sockets = new WebSocketServer({ server });
+
+const broadcast = (message) => {
+  const data = JSON.stringify(message);
+  for (const client of sockets.clients) {
+    if (client.readyState === WebSocket.OPEN) client.send(data);
+  }
+};
+
+const isValidState = (state) => typeof state === "object" && state !== null && typeof state.version === "number";
+
+const isValidBatch = (message) =>
+  typeof message.origin === "string" &&
+  Number.isInteger(message.seq) &&
+  Array.isArray(message.operations) &&
+  message.operations.every(isSyncOperation);
+
+/**
+ * Applies a batch of operations and relays it to every desk
+ * Batches arriving before any desk provided the state, or already applied, are ignored
+ */
+const applyBatch = ({ origin, seq, operations }) => {
+  if (current.state === null || seq <= (current.seqs[origin]?.seq ?? 0)) return;
+
+  const now = Date.now();
+  const seqs = Object.fromEntries(
+    Object.entries(current.seqs).filter(([, { appliedAt }]) => now - appliedAt < SEQ_RETENTION_MS)
+  );
+  current = {
+    revision: current.revision + 1,
+    state: applyOperations(current.state, operations),
+    seqs: { ...seqs, [origin]: { seq, appliedAt: now } },
+  };
+  saveCurrent();
+  broadcast({ type: "operations", revision: current.revision, origin, seq, operations });
+};
+
+const handleMessage = (text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (typeof message !== "object" || message === null) return;
+
+  if (message.type === "init" && isValidState(message.state)) {
+    // Several desks may offer their state at once: the first one is kept
+    if (current.state !== null) return;
+    current = { ...current, revision: current.revision + 1, state: message.state };
+    saveCurrent();
+    broadcast(snapshot());
+  } else if (message.type === "operations" && isValidBatch(message)) {
+    applyBatch(message);
+  }
+};
+
+sockets.on("connection", (socket) => {
+  socket.on("message", (data) => handleMessage(String(data)));
+  socket.send(JSON.stringify(snapshot()));
+});
+
+loadCurrent().then(() => {
+  server.listen(PORT, () => {
+    console.log(`Sync server listening on port ${PORT} (revision ${current.revision})`);
+  });
+});
@@ -6,40 +6,212 @@
 
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
-import type { UserCard, Section, TimerState } from '@/types';
-import { createCard, updateCardName, deleteCard } from '@/features/cards';
-import { createSection, updateSectionName, deleteSection } from '@/features/sections';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type {
+  UserCard,
+  Section,
+  SessionEndReason,
+  SessionRecord,
+  Tariff,
+  AlertSettings,
+  Customer,
+  StationGroup,
+  Reservation,
+  QueueEntry,
+  TimerState,
+  CardRef,
+  CardDialog,
+  CardDialogRequest,
+  BatchAction,
+} from '@/types';
+import {
+  createCard,
+  updateCardName,
+  updateCardTariff,
+  reorderCards,
+  moveCardToSection,
+  deleteCard,
+} from '@/features/cards';
+import {
+  createSection,
+  updateSectionName,
+  updateSectionTariff,
+  updateSectionAlertSettings,
+  reorderSections,
+  deleteSection,
+} from '@/features/sections';
 import {
   createTimer,
+  createOpenTimer,
   createTimerWithDates,
   updateTimerDates,
   addTimeToTimer,
+  pauseTimer,
+  resumeTimer,
+  moveTimerToStation,
   updateCardsProgress,
+  isProgressOnlyChange,
   calculateTimerProgress,
+  alignTimerEnd,
 } from '@/features/timers';
+import {
+  createSessionRecord,
+  appendSessionRecords,
+  resolveEndReason,
+  getPlayedMinutes,
+  type NewSessionRecord,
+} from '@/features/history';
+import { resolveTariff } from '@/features/billing';
+import { DEFAULT_ALERT_SETTINGS, normalizeAlertSettings, resolveAlertSettings } from '@/features/alerts';
+import {
+  createCustomer,
+  updateCustomerName,
+  topUpCustomer,
+  debitCustomer,
+  deleteCustomer,
+  getAvailableMinutes,
+  findOverdrawnCustomer,
+} from '@/features/customers';
+import {
+  createReservation,
+  deleteReservation,
+  deleteStationReservations,
+  moveStationReservations,
+  getReservationMinutes,
+  type NewReservation,
+} from '@/features/reservations';
+import {
+  createQueueEntry,
+  removeQueueEntry,
+  getStationWaitSeconds,
+  type NewQueueEntry,
+} from '@/features/queue';
+import { createGroup, getGroupMembers, pruneGroups, releaseLoneMembers, MIN_GROUP_SIZE } from '@/features/groups';
+import {
+  getCardKey,
+  toggleCardRef,
+  selectCardRange,
+  applyCardUpdates,
+} from '@/features/selection';
 import { loadState, saveState, type AppState } from '@/lib/storage/persistence.service';
+import { publishState, subscribeState, type StateUpdate } from '@/lib/sync/state-channel';
+import { connectSyncServer, type SyncServerConnection, type SyncServerStatus } from '@/lib/sync/server-client';
+import { getStateFingerprint, getVersionKey, isNewerVersion, mergeStates, type SyncVersion } from '@/features/sync';
+import { sortByOrder } from '@/lib/utils/order';
+import { useSettings } from './settings-store';
+import {
+  createUndoHistory,
+  pushCheckpoint,
+  getLatestToken,
+  undoStep,
+  redoStep,
+} from './undo-history';
+
+/**
+ * Saved data that could not be loaded
+ * While set, saving is suspended so the stored payload is not overwritten
+ */
+export interface StorageError {
+  reason: string;
+  backupKey: string | null;
+}
 
 interface AppStoreContextValue {
   // Sections
   sections: Section[];
   addSection: () => void;
   updateSectionName: (id: number, name: string) => void;
+  updateSectionTariff: (id: number, tariff: Tariff | undefined) => void;
+  updateSectionAlertSettings: (id: number, settings: AlertSettings | undefined) => void;
+  reorderSection: (id: number, targetId: number) => void;
   deleteSection: (id: number) => void;
 
+  // Alert thresholds (global, overridable per section)
+  alertSettings: AlertSettings;
+  updateAlertSettings: (settings: AlertSettings) => void;
+  getAlertSettings: (sectionId: number) => AlertSettings;
+
   // Cards (organized by section)
   getCardsBySection: (sectionId: number) => UserCard[];
   addCard: (sectionId: number) => void;
   updateCardName: (sectionId: number, cardId: number, name: string) => void;
+  updateCardTariff: (sectionId: number, cardId: number, tariff: Tariff | undefined) => void;
+  moveCard: (sectionId: number, cardId: number, targetSectionId: number, targetCardId?: number) => void;
   deleteCard: (sectionId: number, cardId: number) => void;
 
   // Timers
-  startTimer: (sectionId: number, cardId: number, durationMinutes: number) => void;
-  startTimerWithDates: (sectionId: number, cardId: number, startTime: string, endTime: string) => void;
-  updateTimerDates: (sectionId: number, cardId: number, startTime: string, endTime: string) => void;
-  addTimeToTimer: (sectionId: number, cardId: number, minutes: number) => void;
-  clearTimer: (sectionId: number, cardId: number) => void;
+  // Starting or extending a session returns false, and changes nothing, if a linked customer's balance doesn't cover it
+  startTimer: (sectionId: number, cardId: number, durationMinutes: number, customerId?: number) => boolean;
+  startOpenTimer: (sectionId: number, cardId: number, customerId?: number) => boolean;
+  startTimerWithDates: (sectionId: number, cardId: number, startTime: string, endTime: string, customerId?: number) => boolean;
+  updateTimerDates: (sectionId: number, cardId: number, startTime: string, endTime: string) => boolean;
+  addTimeToTimer: (sectionId: number, cardId: number, minutes: number, wholeGroup?: boolean) => boolean;
+  pauseTimer: (sectionId: number, cardId: number) => void;
+  resumeTimer: (sectionId: number, cardId: number) => void;
+  clearTimer: (sectionId: number, cardId: number, wholeGroup?: boolean) => void;
   swapCardTimers: (sectionId1: number, cardId1: number, sectionId2: number, cardId2: number) => void;
+
+  // Reservations
+  reservations: Reservation[];
+  addReservation: (reservation: NewReservation) => void;
+  deleteReservation: (id: number) => void;
+  checkInReservation: (id: number) => boolean;
+
+  // Waiting queue
+  queue: QueueEntry[];
+  addQueueEntry: (entry: NewQueueEntry) => void;
+  removeQueueEntry: (id: number) => void;
+  seatQueueEntry: (id: number, stations: CardRef[]) => boolean;
+
+  // Groups
+  groups: StationGroup[];
+  getGroupMembers: (groupId: number) => CardRef[];
+  createGroup: (refs: CardRef[], name: string) => void;
+  leaveGroup: (sectionId: number, cardId: number) => void;
+  dissolveGroup: (groupId: number) => void;
+
+  // Selection and group actions
+  selectedCards: CardRef[];
+  isCardSelected: (sectionId: number, cardId: number) => boolean;
+  toggleCardSelection: (ref: CardRef, range?: boolean) => void;
+  selectCards: (refs: CardRef[]) => void;
+  clearSelection: () => void;
+  applyBatch: (refs: CardRef[], action: BatchAction) => number;
+
+  // Station briefly highlighted (e.g. after clicking its notification)
+  highlightedCard: CardRef | null;
+  highlightCard: (ref: CardRef) => void;
+
+  // Dialog of a station requested from outside the card, opened and cleared by the card itself
+  cardDialogRequest: CardDialogRequest | null;
+  requestCardDialog: (ref: CardRef, dialog: CardDialog) => void;
+  clearCardDialogRequest: () => void;
+
+  // Connection to the LAN sync server ('off' when none is configured)
+  syncServerStatus: SyncServerStatus;
+
+  // Session history
+  sessionHistory: SessionRecord[];
+
+  // Customers
+  customers: Customer[];
+  addCustomer: (name: string) => void;
+  updateCustomerName: (id: number, name: string) => void;
+  topUpCustomer: (id: number, minutes: number) => void;
+  deleteCustomer: (id: number) => void;
+  getCustomerAvailableMinutes: (id: number) => number;
+
+  // Persistence
+  storageError: StorageError | null;
+  getAppState: () => AppState;
+  replaceState: (state: AppState) => void;
+
+  // Undo/redo
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: (token?: number) => boolean;
+  redo: () => boolean;
+  getLatestUndoToken: () => number | null;
   
   // Utilities
   getAllCards: () => Array<{ sectionId: number; sectionName: string; card: UserCard }>;
@@ -53,36 +225,338 @@ const AppStoreContext = createContext<AppStoreContextValue | undefined>(undefine
  */
 type CardsBySection = Map<number, UserCard[]>;
 
-export function AppStoreProvider({ children }: { children: React.ReactNode }) {
+/**
+ * A session to be written to the history ledger
+ */
+interface EndedSession {
+  sectionId: number;
+  card: UserCard;
+  endReason: SessionEndReason;
+  swappedWith?: { sectionName: string; cardName: string };
+}
+
+// How long a highlighted station stays highlighted
+const HIGHLIGHT_DURATION_MS = 4000;
+
+// Identifies this window in the states it publishes to the other windows and the edits it sends to the sync server
+const WINDOW_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// States published or received kept to merge the states built on them
+const MAX_SYNCED_STATES = 20;
+
+/**
+ * Sets a card's timer and the matching progress
+ */
+function withTimer(card: UserCard, timer: TimerState | undefined): UserCard {
+  return { ...card, timer, progressValue: timer ? calculateTimerProgress(timer) : 0 };
+}
+
+interface AppStoreProviderProps {
+  children: React.ReactNode;
+  readOnly?: boolean; // Customer display: never saves and follows the operator window
+}
+
+export function AppStoreProvider({ children, readOnly = false }: AppStoreProviderProps) {
+  const { settings } = useSettings();
   // Initialize with defaults to ensure server/client consistency
   // Load from localStorage only after mount to prevent hydration mismatch
   const [sections, setSections] = useState<Section[]>([]);
   const [cardsBySection, setCardsBySection] = useState<CardsBySection>(() => {
     return new Map<number, UserCard[]>();
   });
+  const [sessionHistory, setSessionHistory] = useState<SessionRecord[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [storedGroups, setGroups] = useState<StationGroup[]>([]);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [selection, setSelection] = useState<CardRef[]>([]);
+  const [highlightedCard, setHighlightedCard] = useState<CardRef | null>(null);
+  const [cardDialogRequest, setCardDialogRequest] = useState<CardDialogRequest | null>(null);
+
+  // Groups left with fewer than MIN_GROUP_SIZE stations are dissolved; their stations were already released
+  const groups = useMemo(() => pruneGroups(storedGroups, cardsBySection).groups, [storedGroups, cardsBySection]);
+
+  // Latest state, readable from callbacks without re-creating them
+  const sectionsRef = useRef(sections);
+  const cardsBySectionRef = useRef(cardsBySection);
+  const sessionHistoryRef = useRef(sessionHistory);
+  const customersRef = useRef(customers);
+  const groupsRef = useRef(groups);
+  const reservationsRef = useRef(reservations);
+  const queueRef = useRef(queue);
+  const alertSettingsRef = useRef(alertSettings);
 
-  // Load state from localStorage after mount (client-side only)
   useEffect(() => {
-    const saved = loadState();
-    if (saved) {
-      setSections(saved.sections);
-      
-      // Recalculate progress for all cards with timers (timers may have expired)
-      const map = new Map<number, UserCard[]>();
-      saved.cardsBySection.forEach((cards, sectionId) => {
-        const updatedCards = cards.map((card) => {
-          if (card.timer) {
-            // Recalculate progress based on current time
-            const progress = calculateTimerProgress(card.timer);
-            return { ...card, progressValue: progress };
-          }
-          return card;
-        });
-        map.set(sectionId, updatedCards);
+    sectionsRef.current = sections;
+    cardsBySectionRef.current = cardsBySection;
+    sessionHistoryRef.current = sessionHistory;
+    customersRef.current = customers;
+    groupsRef.current = groups;
+    reservationsRef.current = reservations;
+    queueRef.current = queue;
+    alertSettingsRef.current = alertSettings;
+  }, [sections, cardsBySection, sessionHistory, customers, groups, reservations, queue, alertSettings]);
+
+  // Current state, from the refs
+  const getSnapshot = useCallback((): AppState => ({
+    sections: sectionsRef.current,
+    cardsBySection: cardsBySectionRef.current,
+    sessionHistory: sessionHistoryRef.current,
+    customers: customersRef.current,
+    groups: groupsRef.current,
+    reservations: reservationsRef.current,
+    queue: queueRef.current,
+    alertSettings: alertSettingsRef.current,
+  }), []);
+
+  /**
+   * Replaces the whole application state (loaded or imported)
+   */
+  const applyState = useCallback((saved: AppState) => {
+    setSections(sortByOrder(saved.sections));
+    
+    // Recalculate progress for all cards with timers (timers may have expired)
+    const map = new Map<number, UserCard[]>();
+    saved.cardsBySection.forEach((cards, sectionId) => {
+      const updatedCards = sortByOrder(cards).map((card) => {
+        if (card.timer) {
+          // Recalculate progress based on current time
+          const progress = calculateTimerProgress(card.timer);
+          return { ...card, progressValue: progress };
+        }
+        return card;
       });
-      setCardsBySection(map);
+      map.set(sectionId, updatedCards);
+    });
+    setCardsBySection(releaseLoneMembers(map));
+    setSessionHistory(saved.sessionHistory);
+    setCustomers(saved.customers);
+    setGroups(saved.groups);
+    setReservations(saved.reservations);
+    setQueue(saved.queue);
+    setAlertSettings(saved.alertSettings);
+  }, []);
+
+  // Window sync: last state received from the other windows: the common ancestor when merging a state
+  // built on one this window does not know
+  const syncBaseRef = useRef<AppState | null>(null);
+  // Recent states published or received, by version, and the version of the latest one
+  const syncedStatesRef = useRef(new Map<string, AppState>());
+  const syncedVersionRef = useRef<SyncVersion | null>(null);
+  // Fingerprint of the last state published or received, to publish only actual edits
+  const syncedFingerprintRef = useRef<string | null>(null);
+  // When this window last published its edits
+  const publishedStampRef = useRef(0);
+
+  // Load state from storage after mount (client-side only)
+  useEffect(() => {
+    let cancelled = false;
+
+    loadState().then((result) => {
+      if (cancelled) return;
+      if (result.status === 'failed') {
+        console.error('Saved state could not be loaded:', result.reason);
+        setStorageError({ reason: result.reason, backupKey: result.backupKey });
+      }
+      if (result.status === 'loaded') {
+        applyState(result.state);
+        syncBaseRef.current = result.state;
+        syncedFingerprintRef.current = getStateFingerprint(result.state);
+      }
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applyState]); // Run only once on mount
+
+  // ========== UNDO/REDO ==========
+
+  const undoHistoryRef = useRef(createUndoHistory());
+  const [undoAvailability, setUndoAvailability] = useState({ canUndo: false, canRedo: false });
+
+  const syncUndoAvailability = useCallback(() => {
+    const { past, future } = undoHistoryRef.current;
+    setUndoAvailability((prev) =>
+      prev.canUndo === past.length > 0 && prev.canRedo === future.length > 0
+        ? prev
+        : { canUndo: past.length > 0, canRedo: future.length > 0 }
+    );
+  }, []);
+
+  const restoreSnapshot = useCallback((snapshot: AppState) => {
+    setSections(snapshot.sections);
+    setCardsBySection(snapshot.cardsBySection);
+    setSessionHistory(snapshot.sessionHistory);
+    setCustomers(snapshot.customers);
+    setGroups(snapshot.groups);
+    setReservations(snapshot.reservations);
+    setQueue(snapshot.queue);
+    setAlertSettings(snapshot.alertSettings);
+  }, []);
+
+  /**
+   * Records the current state as an undo step, before a mutation
+   * Mutations sharing a coalesce key in quick succession form a single step
+   */
+  const checkpoint = useCallback((coalesceKey?: string) => {
+    undoHistoryRef.current = pushCheckpoint(undoHistoryRef.current, getSnapshot(), coalesceKey);
+    syncUndoAvailability();
+  }, [getSnapshot, syncUndoAvailability]);
+
+  /**
+   * Reverts the latest step
+   * With a token, only reverts if that step is still the latest one
+   */
+  const handleUndo = useCallback((token?: number): boolean => {
+    if (token !== undefined && getLatestToken(undoHistoryRef.current) !== token) {
+      return false;
+    }
+
+    const result = undoStep(undoHistoryRef.current, getSnapshot());
+    if (!result) return false;
+
+    undoHistoryRef.current = result.history;
+    restoreSnapshot(result.snapshot);
+    syncUndoAvailability();
+    return true;
+  }, [getSnapshot, restoreSnapshot, syncUndoAvailability]);
+
+  const handleRedo = useCallback((): boolean => {
+    const result = redoStep(undoHistoryRef.current, getSnapshot());
+    if (!result) return false;
+
+    undoHistoryRef.current = result.history;
+    restoreSnapshot(result.snapshot);
+    syncUndoAvailability();
+    return true;
+  }, [getSnapshot, restoreSnapshot, syncUndoAvailability]);
+
+  const getLatestUndoToken = useCallback(() => getLatestToken(undoHistoryRef.current), []);
+
+  // ========== SYNC ==========
+
+  // Connection to the LAN sync server, when one is configured
+  const syncServerRef = useRef<SyncServerConnection | null>(null);
+  const [syncServerStatus, setSyncServerStatus] = useState<SyncServerStatus>('off');
+  const syncServerUrl = readOnly ? '' : settings.syncServerUrl;
+
+  /**
+   * Remembers a state published or received: the next state published is built on it
+   */
+  const rememberSyncedState = useCallback((version: SyncVersion, state: AppState) => {
+    const states = syncedStatesRef.current;
+    states.set(getVersionKey(version), state);
+    if (states.size > MAX_SYNCED_STATES) {
+      const [oldest] = states.keys();
+      states.delete(oldest);
+    }
+    syncedVersionRef.current = version;
+  }, []);
+
+  /**
+   * Publishes the state to the other windows and the sync server, unless it is the one they already have
+   * Names the state it was built on, so the other windows know the common ancestor when merging it
+   */
+  const publishEdits = useCallback((state: AppState) => {
+    const fingerprint = getStateFingerprint(state);
+    if (fingerprint === syncedFingerprintRef.current) return;
+
+    syncedFingerprintRef.current = fingerprint;
+    publishedStampRef.current = Date.now();
+    const version = { origin: WINDOW_ID, stamp: publishedStampRef.current };
+    publishState({ ...version, parent: syncedVersionRef.current ?? undefined, state });
+    rememberSyncedState(version, state);
+    syncServerRef.current?.publish(state);
+  }, [rememberSyncedState]);
+
+  /**
+   * Drops the undo steps once edits of other windows or desks were applied
+   * Undo steps restore whole states, which would throw those edits away
+   */
+  const clearUndoHistory = useCallback(() => {
+    undoHistoryRef.current = createUndoHistory();
+    syncUndoAvailability();
+  }, [syncUndoAvailability]);
+
+  /**
+   * Merges a state received from another window
+   * Edits to different items all survive, an item edited on both sides keeps the most recent edit
+   * A read-only store (customer display) simply follows it
+   */
+  const receiveState = useCallback((update: StateUpdate) => {
+    if (readOnly) {
+      applyState(update.state);
+      return;
+    }
+    // With a sync server, the edits of the other windows come back from it like those of other desks
+    if (syncServerRef.current) return;
+
+    const local = getSnapshot();
+    const localFingerprint = getStateFingerprint(local);
+    // Edits not published yet are about to be, so they count as the most recent
+    const localVersion = {
+      origin: WINDOW_ID,
+      stamp: localFingerprint !== syncedFingerprintRef.current ? Date.now() : publishedStampRef.current,
+    };
+    const parent = update.parent && syncedStatesRef.current.get(getVersionKey(update.parent));
+    const merged = mergeStates(
+      parent ?? syncBaseRef.current ?? local,
+      local,
+      update.state,
+      isNewerVersion(localVersion, update)
+    );
+
+    syncBaseRef.current = update.state;
+    syncedFingerprintRef.current = getStateFingerprint(update.state);
+    rememberSyncedState({ origin: update.origin, stamp: update.stamp }, update.state);
+
+    // The merged state goes out with the next save, or right away if nothing changed here
+    const mergedFingerprint = getStateFingerprint(merged);
+    if (mergedFingerprint !== localFingerprint) {
+      applyState(merged);
+      clearUndoHistory();
+    } else if (mergedFingerprint !== syncedFingerprintRef.current) {
+      publishEdits(merged);
     }
-  }, []); // Run only once on mount
+  }, [readOnly, applyState, getSnapshot, publishEdits, rememberSyncedState, clearUndoHistory]);
+
+  /**
+   * Applies the state rebuilt by the sync server connection after edits of other desks
+   * It already includes the local edits, so it simply replaces the local state
+   */
+  const receiveServerState = useCallback((state: AppState) => {
+    if (getStateFingerprint(state) === getStateFingerprint(getSnapshot())) return;
+    applyState(state);
+    clearUndoHistory();
+  }, [applyState, getSnapshot, clearUndoHistory]);
+
+  // States published by the other windows
+  useEffect(() => {
+    if (!isLoaded) return;
+    return subscribeState(receiveState);
+  }, [isLoaded, receiveState]);
+
+  // Sync server: reconnects until the address changes or the store goes away
+  useEffect(() => {
+    if (!isLoaded || !syncServerUrl) return;
+
+    const connection = connectSyncServer(syncServerUrl, WINDOW_ID, {
+      getState: getSnapshot,
+      onState: receiveServerState,
+      onStatusChange: setSyncServerStatus,
+    });
+    syncServerRef.current = connection;
+
+    return () => {
+      connection.close();
+      syncServerRef.current = null;
+    };
+  }, [isLoaded, syncServerUrl, receiveServerState, getSnapshot]);
 
   // Global interval to update all timers
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -90,21 +564,53 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
   // Debounce timer for saving state
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Save state to localStorage whenever it changes (with debounce)
+  // Latest state written to storage
+  const savedStateRef = useRef<AppState | null>(null);
+
+  // Save state to storage whenever it changes (with debounce)
   useEffect(() => {
     // Clear previous timeout
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
     }
 
+    // Never save before loading finished, nor overwrite saved data that failed to load
+    if (readOnly || !isLoaded || storageError) {
+      return;
+    }
+
+    // The progress interval changes the cards every second: nothing to save if that is all that changed
+    const saved = savedStateRef.current;
+    if (
+      saved &&
+      saved.sections === sections &&
+      saved.sessionHistory === sessionHistory &&
+      saved.customers === customers &&
+      saved.groups === groups &&
+      saved.reservations === reservations &&
+      saved.queue === queue &&
+      saved.alertSettings === alertSettings &&
+      isProgressOnlyChange(saved.cardsBySection, cardsBySection)
+    ) {
+      return;
+    }
+
     // Debounce save to avoid excessive writes
     // Save after 500ms of inactivity
     saveTimeoutRef.current = setTimeout(() => {
       const state: AppState = {
         sections,
         cardsBySection,
+        sessionHistory,
+        customers,
+        groups,
+        reservations,
+        queue,
+        alertSettings,
       };
+      savedStateRef.current = state;
       saveState(state);
+      publishEdits(state);
     }, 500);
 
     return () => {
@@ -112,7 +618,7 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [sections, cardsBySection]);
+  }, [sections, cardsBySection, sessionHistory, customers, groups, reservations, queue, alertSettings, isLoaded, storageError, readOnly, publishEdits]);
 
   /**
    * Updates progress of all active timers
@@ -136,9 +642,57 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // ========== SESSION HISTORY ==========
+
+  /**
+   * Finds a card in the latest state
+   */
+  const findCard = useCallback((sectionId: number, cardId: number): UserCard | undefined => {
+    return cardsBySectionRef.current.get(sectionId)?.find((card) => card.id === cardId);
+  }, []);
+
+  /**
+   * Writes ended sessions to the history ledger
+   * Debits the played minutes from linked customers' balances
+   * Timers that never started are ignored
+   */
+  const recordSessions = useCallback((sessions: EndedSession[]) => {
+    const records: NewSessionRecord[] = [];
+    sessions.forEach(({ sectionId, card, endReason, swappedWith }) => {
+      const section = sectionsRef.current.find((s) => s.id === sectionId);
+      const customerId = card.timer?.customerId;
+      const record = createSessionRecord({
+        sectionId,
+        sectionName: section?.name ?? '',
+        card,
+        endReason,
+        swappedWith,
+        tariff: resolveTariff(section, card),
+        customer: customersRef.current.find((c) => c.id === customerId),
+      });
+      if (record) {
+        records.push(record);
+      }
+    });
+
+    if (records.length === 0) return;
+
+    setSessionHistory((prev) => appendSessionRecords(prev, records));
+    setCustomers((prev) =>
+      records.reduce(
+        (acc, record) =>
+          record.customerId !== undefined
+            ? debitCustomer(acc, record.customerId, record.playedMinutes)
+            : acc,
+        prev
+      )
+    );
+  }, []);
+
   // ========== SECTION METHODS ==========
 
   const handleAddSection = useCallback(() => {
+    checkpoint();
     setSections((prev) => {
       const newSection = createSection(prev);
       // Create an empty card list for the new section
@@ -149,21 +703,62 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
       });
       return [...prev, newSection];
     });
-  }, []);
+  }, [checkpoint]);
 
   const handleUpdateSectionName = useCallback((id: number, name: string) => {
+    checkpoint(`section-name-${id}`);
     setSections((prev) => updateSectionName(prev, id, name));
-  }, []);
+  }, [checkpoint]);
+
+  const handleUpdateSectionTariff = useCallback((id: number, tariff: Tariff | undefined) => {
+    checkpoint();
+    setSections((prev) => updateSectionTariff(prev, id, tariff));
+  }, [checkpoint]);
+
+  const handleUpdateSectionAlertSettings = useCallback((id: number, settings: AlertSettings | undefined) => {
+    checkpoint();
+    setSections((prev) =>
+      updateSectionAlertSettings(prev, id, settings && normalizeAlertSettings(settings))
+    );
+  }, [checkpoint]);
+
+  // ========== ALERT SETTINGS ==========
+
+  const handleUpdateAlertSettings = useCallback((settings: AlertSettings) => {
+    checkpoint();
+    setAlertSettings(normalizeAlertSettings(settings));
+  }, [checkpoint]);
+
+  /**
+   * Returns the alert settings applied to a section's stations
+   */
+  const getAlertSettings = useCallback(
+    (sectionId: number) => resolveAlertSettings(alertSettings, sections.find((s) => s.id === sectionId)),
+    [alertSettings, sections]
+  );
+
+  const handleReorderSection = useCallback((id: number, targetId: number) => {
+    checkpoint();
+    setSections((prev) => reorderSections(prev, id, targetId));
+  }, [checkpoint]);
 
   const handleDeleteSection = useCallback((id: number) => {
+    checkpoint();
+    // Sessions still running on the section's stations end in the ledger
+    recordSessions(
+      (cardsBySectionRef.current.get(id) || []).flatMap((card) =>
+        card.timer ? [{ sectionId: id, card, endReason: resolveEndReason(card.timer) }] : []
+      )
+    );
     setSections((prev) => deleteSection(prev, id));
-    // Also remove cards associated with the section
+    // Also remove cards associated with the section, releasing the stations left alone in a group
     setCardsBySection((prev) => {
       const updated = new Map(prev);
       updated.delete(id);
-      return updated;
+      return releaseLoneMembers(updated);
     });
-  }, []);
+    setReservations((prev) => deleteStationReservations(prev, id));
+  }, [recordSessions, checkpoint]);
 
   // ========== CARD METHODS ==========
 
@@ -175,6 +770,7 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
   );
 
   const handleAddCard = useCallback((sectionId: number) => {
+    checkpoint();
     setCardsBySection((prev) => {
       const updated = new Map(prev);
       const currentCards = updated.get(sectionId) || [];
@@ -182,10 +778,11 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
       updated.set(sectionId, [...currentCards, newCard]);
       return updated;
     });
-  }, []);
+  }, [checkpoint]);
 
   const handleUpdateCardName = useCallback(
     (sectionId: number, cardId: number, name: string) => {
+      checkpoint(`card-name-${sectionId}-${cardId}`);
       setCardsBySection((prev) => {
         const updated = new Map(prev);
         const currentCards = updated.get(sectionId) || [];
@@ -194,21 +791,160 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
         return updated;
       });
     },
-    []
+    [checkpoint]
+  );
+
+  const handleUpdateCardTariff = useCallback(
+    (sectionId: number, cardId: number, tariff: Tariff | undefined) => {
+      checkpoint();
+      setCardsBySection((prev) => {
+        const updated = new Map(prev);
+        const currentCards = updated.get(sectionId) || [];
+        const updatedCards = updateCardTariff(currentCards, cardId, tariff);
+        updated.set(sectionId, updatedCards);
+        return updated;
+      });
+    },
+    [checkpoint]
+  );
+
+  /**
+   * Moves a card before another one, within its section or to another section
+   * The timer moves with the card
+   */
+  const handleMoveCard = useCallback(
+    (sectionId: number, cardId: number, targetSectionId: number, targetCardId?: number) => {
+      if (sectionId === targetSectionId && cardId === targetCardId) return;
+      checkpoint();
+
+      // Reservations follow the station, which may get a new id in the target section
+      if (sectionId !== targetSectionId) {
+        const { movedCardId } = moveCardToSection(
+          cardsBySectionRef.current.get(sectionId) || [],
+          cardsBySectionRef.current.get(targetSectionId) || [],
+          cardId
+        );
+        setReservations((prev) =>
+          moveStationReservations(
+            prev,
+            { sectionId, cardId },
+            { sectionId: targetSectionId, cardId: movedCardId }
+          )
+        );
+      }
+
+      setCardsBySection((prev) => {
+        const updated = new Map(prev);
+        const currentCards = updated.get(sectionId) || [];
+
+        if (sectionId === targetSectionId) {
+          updated.set(sectionId, reorderCards(currentCards, cardId, targetCardId));
+          return updated;
+        }
+
+        const moved = moveCardToSection(
+          currentCards,
+          updated.get(targetSectionId) || [],
+          cardId,
+          targetCardId
+        );
+        updated.set(sectionId, moved.sourceCards);
+        updated.set(targetSectionId, moved.targetCards);
+        return releaseLoneMembers(updated);
+      });
+    },
+    [checkpoint]
   );
 
   const handleDeleteCard = useCallback((sectionId: number, cardId: number) => {
+    // Stations deleted together (e.g. clearing a section) form a single step
+    checkpoint(`delete-cards-${sectionId}`);
+    // A session still running on the station ends in the ledger
+    const card = findCard(sectionId, cardId);
+    if (card?.timer) {
+      recordSessions([{ sectionId, card, endReason: resolveEndReason(card.timer) }]);
+    }
     setCardsBySection((prev) => {
       const updated = new Map(prev);
       const currentCards = updated.get(sectionId) || [];
       const updatedCards = deleteCard(currentCards, cardId);
       updated.set(sectionId, updatedCards);
-      return updated;
+      // A group left with a single station releases it
+      return releaseLoneMembers(updated);
     });
-  }, []);
+    setReservations((prev) => deleteStationReservations(prev, sectionId, cardId));
+  }, [findCard, recordSessions, checkpoint]);
+
+  // ========== PERSISTENCE METHODS ==========
+
+  const getAppState = useCallback(
+    (): AppState => ({ sections, cardsBySection, sessionHistory, customers, groups, reservations, queue, alertSettings }),
+    [sections, cardsBySection, sessionHistory, customers, groups, reservations, queue, alertSettings]
+  );
+
+  /**
+   * Replaces the state with an imported one
+   * An explicit import also resumes saving after a failed load
+   */
+  const replaceState = useCallback((state: AppState) => {
+    checkpoint();
+    applyState(state);
+    setStorageError(null);
+  }, [applyState, checkpoint]);
+
+  // ========== CUSTOMER METHODS ==========
+
+  const handleAddCustomer = useCallback((name: string) => {
+    checkpoint();
+    setCustomers((prev) => [...prev, createCustomer(prev, name)]);
+  }, [checkpoint]);
+
+  const handleUpdateCustomerName = useCallback((id: number, name: string) => {
+    checkpoint(`customer-name-${id}`);
+    setCustomers((prev) => updateCustomerName(prev, id, name));
+  }, [checkpoint]);
+
+  const handleTopUpCustomer = useCallback((id: number, minutes: number) => {
+    checkpoint();
+    setCustomers((prev) => topUpCustomer(prev, id, minutes));
+  }, [checkpoint]);
+
+  const handleDeleteCustomer = useCallback((id: number) => {
+    checkpoint();
+    setCustomers((prev) => deleteCustomer(prev, id));
+  }, [checkpoint]);
+
+  /**
+   * Returns the minutes a customer can still book
+   * Minutes booked by running sessions are held until they end
+   */
+  const getCustomerAvailableMinutes = useCallback(
+    (id: number): number => {
+      const customer = customers.find((c) => c.id === id);
+      if (!customer) return 0;
+      const allCards = Array.from(cardsBySection.values()).flat();
+      return getAvailableMinutes(customer, allCards);
+    },
+    [customers, cardsBySection]
+  );
 
   // ========== TIMER METHODS ==========
-  
+
+  /**
+   * Applies station updates that may change group membership
+   * Stations left alone in a group are released, against the cards the update actually applies to
+   */
+  const commitCardUpdates = useCallback(
+    (updaters: Map<string, (card: UserCard) => UserCard>, nextGroups?: StationGroup[]) => {
+      setCardsBySection((prev) => releaseLoneMembers(applyCardUpdates(prev, updaters)));
+
+      if (nextGroups) {
+        setGroups(nextGroups);
+      }
+    },
+    []
+  );
+
   /**
    * Helper function to update a specific card in a section
    * Reduces code duplication across timer methods
@@ -236,39 +972,93 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
     []
   );
 
+  /**
+   * Checks that station updates keep the linked customers within their prepaid balances
+   */
+  const coversBalances = useCallback((updaters: Map<string, (card: UserCard) => UserCard>) => {
+    const before = Array.from(cardsBySectionRef.current.values()).flat();
+    const after = Array.from(applyCardUpdates(cardsBySectionRef.current, updaters).values()).flat();
+    return findOverdrawnCustomer(customersRef.current, before, after) === undefined;
+  }, []);
+
+  /**
+   * Updates a single station, unless the change goes beyond a linked customer's balance
+   * Returns false if it was refused
+   */
+  const updateCardWithinBalance = useCallback(
+    (
+      sectionId: number,
+      cardId: number,
+      updater: (card: UserCard) => UserCard,
+      condition?: (card: UserCard) => boolean,
+      coalesceKey?: string
+    ): boolean => {
+      const guarded = (card: UserCard) => (!condition || condition(card) ? updater(card) : card);
+      if (!coversBalances(new Map([[getCardKey({ sectionId, cardId }), guarded]]))) {
+        return false;
+      }
+
+      checkpoint(coalesceKey);
+      updateCardInSection(sectionId, cardId, updater, condition);
+      return true;
+    },
+    [coversBalances, updateCardInSection, checkpoint]
+  );
+
   const handleStartTimer = useCallback(
-    (sectionId: number, cardId: number, durationMinutes: number) => {
-      updateCardInSection(
+    (sectionId: number, cardId: number, durationMinutes: number, customerId?: number) =>
+      updateCardWithinBalance(
         sectionId,
         cardId,
         (card) => {
-          const timer = createTimer(durationMinutes);
+          const timer = { ...createTimer(durationMinutes), customerId };
           const progress = calculateTimerProgress(timer);
           return { ...card, timer, progressValue: progress };
         }
+      ),
+    [updateCardWithinBalance]
+  );
+
+  /**
+   * Starts an open session: elapsed time counts up until checkout
+   * A linked customer needs some balance left, as the session books nothing up front
+   */
+  const handleStartOpenTimer = useCallback(
+    (sectionId: number, cardId: number, customerId?: number) => {
+      const customer = customersRef.current.find((c) => c.id === customerId);
+      const allCards = Array.from(cardsBySectionRef.current.values()).flat();
+      if (customer && getAvailableMinutes(customer, allCards) <= 0) {
+        return false;
+      }
+
+      checkpoint();
+      updateCardInSection(
+        sectionId,
+        cardId,
+        (card) => ({ ...card, timer: { ...createOpenTimer(), customerId }, progressValue: 0 })
       );
+      return true;
     },
-    [updateCardInSection]
+    [updateCardInSection, checkpoint]
   );
 
   const handleStartTimerWithDates = useCallback(
-    (sectionId: number, cardId: number, startTime: string, endTime: string) => {
-      updateCardInSection(
+    (sectionId: number, cardId: number, startTime: string, endTime: string, customerId?: number) =>
+      updateCardWithinBalance(
         sectionId,
         cardId,
         (card) => {
-          const timer = createTimerWithDates(startTime, endTime);
+          const timer = { ...createTimerWithDates(startTime, endTime), customerId };
           const progress = calculateTimerProgress(timer);
           return { ...card, timer, progressValue: progress };
         }
-      );
-    },
-    [updateCardInSection]
+      ),
+    [updateCardWithinBalance]
   );
 
   const handleUpdateTimerDates = useCallback(
-    (sectionId: number, cardId: number, startTime: string, endTime: string) => {
-      updateCardInSection(
+    (sectionId: number, cardId: number, startTime: string, endTime: string) =>
+      updateCardWithinBalance(
         sectionId,
         cardId,
         (card) => {
@@ -277,95 +1067,433 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
           return { ...card, timer: updatedTimer, progressValue: progress };
         },
         (card) => card.timer?.isActive === true
+      ),
+    [updateCardWithinBalance]
+  );
+
+  /**
+   * Adds minutes to a timer
+   * With wholeGroup, every running member of the station's group is aligned to the new end,
+   * so the group expires together
+   */
+  const handleAddTimeToTimer = useCallback(
+    (sectionId: number, cardId: number, minutes: number, wholeGroup = false) => {
+      const card = findCard(sectionId, cardId);
+      const groupId = card?.groupId;
+
+      if (!wholeGroup || groupId === undefined) {
+        return updateCardWithinBalance(
+          sectionId,
+          cardId,
+          (card) => {
+            const updatedTimer = addTimeToTimer(card.timer!, minutes);
+            const progress = calculateTimerProgress(updatedTimer);
+            return { ...card, timer: updatedTimer, progressValue: progress };
+          },
+          (card) => card.timer?.isActive === true,
+          `add-time-${sectionId}-${cardId}`
+        );
+      }
+
+      const endTime = card?.timer?.isActive ? addTimeToTimer(card.timer, minutes).endTime : null;
+      if (!endTime) return true;
+
+      const updaters = new Map(
+        getGroupMembers(cardsBySectionRef.current, groupId).map((ref) => [
+          getCardKey(ref),
+          (member: UserCard) =>
+            member.timer?.isActive ? withTimer(member, alignTimerEnd(member.timer, endTime)) : member,
+        ])
       );
+      if (!coversBalances(updaters)) return false;
+
+      checkpoint(`add-time-group-${groupId}`);
+      setCardsBySection((prev) => applyCardUpdates(prev, updaters));
+      return true;
     },
-    [updateCardInSection]
+    [findCard, coversBalances, updateCardWithinBalance, checkpoint]
   );
 
-  const handleAddTimeToTimer = useCallback(
-    (sectionId: number, cardId: number, minutes: number) => {
+  const handlePauseTimer = useCallback(
+    (sectionId: number, cardId: number) => {
+      checkpoint();
       updateCardInSection(
         sectionId,
         cardId,
         (card) => {
-          const updatedTimer = addTimeToTimer(card.timer!, minutes);
+          const updatedTimer = pauseTimer(card.timer!);
           const progress = calculateTimerProgress(updatedTimer);
           return { ...card, timer: updatedTimer, progressValue: progress };
         },
         (card) => card.timer?.isActive === true
       );
     },
-    [updateCardInSection]
+    [updateCardInSection, checkpoint]
   );
 
-  const handleClearTimer = useCallback((sectionId: number, cardId: number) => {
-    updateCardInSection(
-      sectionId,
-      cardId,
-      (card) => ({ ...card, timer: undefined, progressValue: 0 })
-    );
-  }, [updateCardInSection]);
+  const handleResumeTimer = useCallback(
+    (sectionId: number, cardId: number) => {
+      checkpoint();
+      updateCardInSection(
+        sectionId,
+        cardId,
+        (card) => {
+          const updatedTimer = resumeTimer(card.timer!);
+          const progress = calculateTimerProgress(updatedTimer);
+          return { ...card, timer: updatedTimer, progressValue: progress };
+        },
+        (card) => card.timer?.isActive === true
+      );
+    },
+    [updateCardInSection, checkpoint]
+  );
 
   /**
-   * Swaps timers between two cards
-   * Updates progressValue after swap
+   * Clears a timer, ending its session
+   * The station leaves its group; with wholeGroup, every member is cleared and the group dissolved
    */
-  const handleSwapCardTimers = useCallback(
-    (sectionId1: number, cardId1: number, sectionId2: number, cardId2: number) => {
-      setCardsBySection((prev) => {
-        const updated = new Map(prev);
-        
-        const originalCards1 = [...(updated.get(sectionId1) || [])];
-        const originalCards2 = [...(updated.get(sectionId2) || [])];
+  const handleClearTimer = useCallback((sectionId: number, cardId: number, wholeGroup = false) => {
+    checkpoint();
+    const groupId = findCard(sectionId, cardId)?.groupId;
+    const refs = wholeGroup && groupId !== undefined
+      ? getGroupMembers(cardsBySectionRef.current, groupId)
+      : [{ sectionId, cardId }];
 
-        const card1Index = originalCards1.findIndex((c) => c.id === cardId1);
-        const card2Index = originalCards2.findIndex((c) => c.id === cardId2);
+    const updaters = new Map<string, (card: UserCard) => UserCard>();
+    const ended: EndedSession[] = [];
+    refs.forEach((ref) => {
+      const card = findCard(ref.sectionId, ref.cardId);
+      if (card?.timer) {
+        ended.push({ sectionId: ref.sectionId, card, endReason: resolveEndReason(card.timer) });
+      }
+      updaters.set(getCardKey(ref), (card) => ({ ...withTimer(card, undefined), groupId: undefined }));
+    });
 
-        if (card1Index === -1 || card2Index === -1) return prev;
+    recordSessions(ended);
+    commitCardUpdates(updaters);
+  }, [findCard, recordSessions, commitCardUpdates, checkpoint]);
 
-        const card1 = originalCards1[card1Index];
-        const card2 = originalCards2[card2Index];
+  // ========== BATCH METHODS ==========
 
-        const timer1 = card1.timer ? { ...card1.timer } : undefined;
-        const timer2 = card2.timer ? { ...card2.timer } : undefined;
+  /**
+   * Applies a timer action to a group of stations as a single undo step
+   * Stations the action doesn't apply to are skipped:
+   * starting a running timer, adding time to a free station or beyond its customer's balance,
+   * swapping a station twice
+   * Returns the number of stations changed
+   */
+  const handleApplyBatch = useCallback(
+    (refs: CardRef[], action: BatchAction): number => {
+      const updaters = new Map<string, (card: UserCard) => UserCard>();
+      const ended: EndedSession[] = [];
 
-        const progress1 = timer2 ? calculateTimerProgress(timer2) : 0;
-        const progress2 = timer1 ? calculateTimerProgress(timer1) : 0;
+      switch (action.type) {
+        case 'start':
+          refs.forEach((ref) => {
+            const card = findCard(ref.sectionId, ref.cardId);
+            if (!card || card.timer?.isActive) return;
+            updaters.set(getCardKey(ref), (card) => withTimer(card, createTimer(action.durationMinutes)));
+          });
+          break;
 
-        if (sectionId1 === sectionId2) {
-          const newCards = originalCards1.map((card, index) => {
-            if (index === card1Index) {
-              return { ...card, timer: timer2, progressValue: progress1 };
+        case 'addTime':
+          refs.forEach((ref) => {
+            const card = findCard(ref.sectionId, ref.cardId);
+            if (!card?.timer?.isActive) return;
+            const key = getCardKey(ref);
+            updaters.set(key, (card) =>
+              card.timer?.isActive ? withTimer(card, addTimeToTimer(card.timer, action.minutes)) : card
+            );
+            if (!coversBalances(updaters)) {
+              updaters.delete(key);
             }
-            if (index === card2Index) {
-              return { ...card, timer: timer1, progressValue: progress2 };
-            }
-            return card;
           });
-          updated.set(sectionId1, newCards);
-        } else {
-          const newCards1 = originalCards1.map((card, index) =>
-            index === card1Index
-              ? { ...card, timer: timer2, progressValue: progress1 }
-              : card
-          );
-
-          const newCards2 = originalCards2.map((card, index) =>
-            index === card2Index
-              ? { ...card, timer: timer1, progressValue: progress2 }
-              : card
-          );
-
-          updated.set(sectionId1, newCards1);
-          updated.set(sectionId2, newCards2);
+          break;
+
+        case 'reset':
+          refs.forEach((ref) => {
+            const card = findCard(ref.sectionId, ref.cardId);
+            if (!card?.timer) return;
+            ended.push({ sectionId: ref.sectionId, card, endReason: resolveEndReason(card.timer) });
+            updaters.set(getCardKey(ref), (card) => ({ ...withTimer(card, undefined), groupId: undefined }));
+          });
+          break;
+
+        case 'swap': {
+          const sectionName = (sectionId: number) =>
+            sectionsRef.current.find((s) => s.id === sectionId)?.name ?? '';
+
+          refs.forEach((ref, index) => {
+            const targetRef = action.targets[index];
+            if (!targetRef) return;
+            const sourceKey = getCardKey(ref);
+            const targetKey = getCardKey(targetRef);
+            if (sourceKey === targetKey || updaters.has(sourceKey) || updaters.has(targetKey)) return;
+
+            const source = findCard(ref.sectionId, ref.cardId);
+            const target = findCard(targetRef.sectionId, targetRef.cardId);
+            if (!source || !target) return;
+
+            // The session on each station ends as "swapped" and continues on the other station
+            ended.push(
+              {
+                sectionId: ref.sectionId,
+                card: source,
+                endReason: 'swapped',
+                swappedWith: { sectionName: sectionName(targetRef.sectionId), cardName: target.name },
+              },
+              {
+                sectionId: targetRef.sectionId,
+                card: target,
+                endReason: 'swapped',
+                swappedWith: { sectionName: sectionName(ref.sectionId), cardName: source.name },
+              }
+            );
+
+            // Group membership belongs to the party, so it follows the timer
+            const sourceTimer = source.timer
+              ? moveTimerToStation(source.timer, getPlayedMinutes(source.timer))
+              : undefined;
+            const targetTimer = target.timer
+              ? moveTimerToStation(target.timer, getPlayedMinutes(target.timer))
+              : undefined;
+            updaters.set(sourceKey, (card) => ({ ...withTimer(card, targetTimer), groupId: target.groupId }));
+            updaters.set(targetKey, (card) => ({ ...withTimer(card, sourceTimer), groupId: source.groupId }));
+          });
+          break;
         }
+      }
 
-        return updated;
+      if (updaters.size === 0) return 0;
+
+      checkpoint();
+      recordSessions(ended);
+      commitCardUpdates(updaters);
+      return action.type === 'swap' ? updaters.size / 2 : updaters.size;
+    },
+    [findCard, coversBalances, recordSessions, commitCardUpdates, checkpoint]
+  );
+
+  /**
+   * Swaps timers between two cards
+   */
+  const handleSwapCardTimers = useCallback(
+    (sectionId1: number, cardId1: number, sectionId2: number, cardId2: number) => {
+      handleApplyBatch([{ sectionId: sectionId1, cardId: cardId1 }], {
+        type: 'swap',
+        targets: [{ sectionId: sectionId2, cardId: cardId2 }],
       });
     },
-    []
+    [handleApplyBatch]
+  );
+
+  // ========== RESERVATION METHODS ==========
+
+  const handleAddReservation = useCallback((reservation: NewReservation) => {
+    checkpoint();
+    setReservations((prev) => [...prev, createReservation(prev, reservation)]);
+  }, [checkpoint]);
+
+  const handleDeleteReservation = useCallback((id: number) => {
+    checkpoint();
+    setReservations((prev) => deleteReservation(prev, id));
+  }, [checkpoint]);
+
+  /**
+   * Checks the customer in: the reservation becomes a running timer for the booked duration
+   * An expired session still on the station is ended first
+   * Fails if a timer is still running or paused, or the customer's balance doesn't cover the booking
+   */
+  const handleCheckInReservation = useCallback((id: number): boolean => {
+    const reservation = reservationsRef.current.find((r) => r.id === id);
+    if (!reservation) return false;
+    const { sectionId, cardId } = reservation;
+    const card = findCard(sectionId, cardId);
+    if (!card || getStationWaitSeconds(card) !== 0) return false;
+
+    const timer = {
+      ...createTimer(getReservationMinutes(reservation)),
+      customerId: reservation.customerId,
+    };
+    const checkIn = (card: UserCard) => withTimer(card, timer);
+    if (!coversBalances(new Map([[getCardKey({ sectionId, cardId }), checkIn]]))) {
+      return false;
+    }
+
+    checkpoint();
+    if (card.timer) {
+      recordSessions([{ sectionId, card, endReason: resolveEndReason(card.timer) }]);
+    }
+    updateCardInSection(sectionId, cardId, checkIn);
+    setReservations((prev) => deleteReservation(prev, id));
+    return true;
+  }, [findCard, coversBalances, recordSessions, updateCardInSection, checkpoint]);
+
+  // ========== QUEUE METHODS ==========
+
+  const handleAddQueueEntry = useCallback((entry: NewQueueEntry) => {
+    checkpoint();
+    setQueue((prev) => [...prev, createQueueEntry(prev, entry)]);
+  }, [checkpoint]);
+
+  const handleRemoveQueueEntry = useCallback((id: number) => {
+    checkpoint();
+    setQueue((prev) => removeQueueEntry(prev, id));
+  }, [checkpoint]);
+
+  /**
+   * Seats a queued party: starts its timers on the given stations and removes it from the queue
+   * Expired sessions still on the stations are ended first; a party of several stations is grouped
+   * Fails if a station is still busy
+   */
+  const handleSeatQueueEntry = useCallback((id: number, stations: CardRef[]): boolean => {
+    const entry = queueRef.current.find((e) => e.id === id);
+    if (!entry || stations.length === 0) return false;
+
+    const targets = stations.map((ref) => ({ ref, card: findCard(ref.sectionId, ref.cardId) }));
+    if (targets.some(({ card }) => !card || getStationWaitSeconds(card) !== 0)) return false;
+
+    checkpoint();
+    recordSessions(
+      targets.flatMap(({ ref, card }) =>
+        card?.timer ? [{ sectionId: ref.sectionId, card, endReason: resolveEndReason(card.timer) }] : []
+      )
+    );
+
+    const group = stations.length >= MIN_GROUP_SIZE ? createGroup(groupsRef.current, entry.name) : undefined;
+    const updaters = new Map(
+      stations.map((ref) => [
+        getCardKey(ref),
+        (card: UserCard) => ({ ...withTimer(card, createTimer(entry.durationMinutes)), groupId: group?.id }),
+      ])
+    );
+    commitCardUpdates(updaters, group ? [...groupsRef.current, group] : undefined);
+    setQueue((prev) => removeQueueEntry(prev, id));
+    return true;
+  }, [findCard, recordSessions, commitCardUpdates, checkpoint]);
+
+  // ========== GROUP METHODS ==========
+
+  const handleGetGroupMembers = useCallback(
+    (groupId: number) => getGroupMembers(cardsBySection, groupId),
+    [cardsBySection]
+  );
+
+  /**
+   * Groups stations booked together
+   * Stations already in another group move to the new one
+   */
+  const handleCreateGroup = useCallback((refs: CardRef[], name: string) => {
+    if (refs.length < MIN_GROUP_SIZE) return;
+
+    checkpoint();
+    const group = createGroup(groupsRef.current, name);
+    const updaters = new Map(
+      refs.map((ref) => [getCardKey(ref), (card: UserCard) => ({ ...card, groupId: group.id })])
+    );
+    commitCardUpdates(updaters, [...groupsRef.current, group]);
+  }, [commitCardUpdates, checkpoint]);
+
+  const handleLeaveGroup = useCallback((sectionId: number, cardId: number) => {
+    checkpoint();
+    commitCardUpdates(
+      new Map([[getCardKey({ sectionId, cardId }), (card: UserCard) => ({ ...card, groupId: undefined })]])
+    );
+  }, [commitCardUpdates, checkpoint]);
+
+  const handleDissolveGroup = useCallback((groupId: number) => {
+    checkpoint();
+    const updaters = new Map(
+      getGroupMembers(cardsBySectionRef.current, groupId).map((ref) => [
+        getCardKey(ref),
+        (card: UserCard) => ({ ...card, groupId: undefined }),
+      ])
+    );
+    commitCardUpdates(updaters, groupsRef.current.filter((group) => group.id !== groupId));
+  }, [commitCardUpdates, checkpoint]);
+
+  // ========== SELECTION METHODS ==========
+
+  // Last station clicked, start of a range selection
+  const selectionAnchorRef = useRef<CardRef | null>(null);
+
+  // Selected stations that still exist
+  const selectedCards = useMemo(
+    () =>
+      selection.filter((ref) =>
+        cardsBySection.get(ref.sectionId)?.some((card) => card.id === ref.cardId)
+      ),
+    [selection, cardsBySection]
   );
 
+  const isCardSelected = useCallback(
+    (sectionId: number, cardId: number) =>
+      selectedCards.some((ref) => ref.sectionId === sectionId && ref.cardId === cardId),
+    [selectedCards]
+  );
+
+  /**
+   * Toggles a station in the selection
+   * With range, also selects every station between the last one clicked and this one
+   */
+  const handleToggleCardSelection = useCallback((ref: CardRef, range = false) => {
+    const anchor = selectionAnchorRef.current;
+    if (range && anchor) {
+      const orderedCards = sectionsRef.current.flatMap((section) =>
+        (cardsBySectionRef.current.get(section.id) || []).map((card) => ({
+          sectionId: section.id,
+          cardId: card.id,
+        }))
+      );
+      setSelection((prev) => selectCardRange(prev, orderedCards, anchor, ref));
+    } else {
+      setSelection((prev) => toggleCardRef(prev, ref));
+    }
+    selectionAnchorRef.current = ref;
+  }, []);
+
+  const handleSelectCards = useCallback((refs: CardRef[]) => {
+    setSelection(refs);
+    selectionAnchorRef.current = refs[refs.length - 1] ?? null;
+  }, []);
+
+  const handleClearSelection = useCallback(() => {
+    setSelection([]);
+    selectionAnchorRef.current = null;
+  }, []);
+
+  // ========== HIGHLIGHT ==========
+
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  /**
+   * Highlights a station for a few seconds
+   */
+  const handleHighlightCard = useCallback((ref: CardRef) => {
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    setHighlightedCard(ref);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedCard(null), HIGHLIGHT_DURATION_MS);
+  }, []);
+
+  useEffect(() => () => {
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+  }, []);
+
+  /**
+   * Asks a station to open one of its dialogs
+   */
+  const handleRequestCardDialog = useCallback((ref: CardRef, dialog: CardDialog) => {
+    setCardDialogRequest({ ref, dialog });
+  }, []);
+
+  const handleClearCardDialogRequest = useCallback(() => {
+    setCardDialogRequest(null);
+  }, []);
+
   /**
    * Returns all cards with their sections
    * Useful for search and selection
@@ -392,22 +1520,95 @@ export function AppStoreProvider({ children }: { children: React.ReactNode }) {
     sections,
     addSection: handleAddSection,
     updateSectionName: handleUpdateSectionName,
+    updateSectionTariff: handleUpdateSectionTariff,
+    updateSectionAlertSettings: handleUpdateSectionAlertSettings,
+    reorderSection: handleReorderSection,
     deleteSection: handleDeleteSection,
 
+    // Alert thresholds
+    alertSettings,
+    updateAlertSettings: handleUpdateAlertSettings,
+    getAlertSettings,
+
     // Cards
     getCardsBySection,
     addCard: handleAddCard,
     updateCardName: handleUpdateCardName,
+    updateCardTariff: handleUpdateCardTariff,
+    moveCard: handleMoveCard,
     deleteCard: handleDeleteCard,
 
     // Timers
     startTimer: handleStartTimer,
+    startOpenTimer: handleStartOpenTimer,
     startTimerWithDates: handleStartTimerWithDates,
     updateTimerDates: handleUpdateTimerDates,
     addTimeToTimer: handleAddTimeToTimer,
+    pauseTimer: handlePauseTimer,
+    resumeTimer: handleResumeTimer,
     clearTimer: handleClearTimer,
     swapCardTimers: handleSwapCardTimers,
 
+    // Reservations
+    reservations,
+    addReservation: handleAddReservation,
+    deleteReservation: handleDeleteReservation,
+    checkInReservation: handleCheckInReservation,
+
+    // Waiting queue
+    queue,
+    addQueueEntry: handleAddQueueEntry,
+    removeQueueEntry: handleRemoveQueueEntry,
+    seatQueueEntry: handleSeatQueueEntry,
+
+    // Groups
+    groups,
+    getGroupMembers: handleGetGroupMembers,
+    createGroup: handleCreateGroup,
+    leaveGroup: handleLeaveGroup,
+    dissolveGroup: handleDissolveGroup,
+
+    // Selection and group actions
+    selectedCards,
+    isCardSelected,
+    toggleCardSelection: handleToggleCardSelection,
+    selectCards: handleSelectCards,
+    clearSelection: handleClearSelection,
+    applyBatch: handleApplyBatch,
+
+    // Highlight
+    highlightedCard,
+    highlightCard: handleHighlightCard,
+    cardDialogRequest,
+    requestCardDialog: handleRequestCardDialog,
+    clearCardDialogRequest: handleClearCardDialogRequest,
+
+    // Sync server
+    syncServerStatus: syncServerUrl ? syncServerStatus : 'off',
+
+    // Session history
+    sessionHistory,
+
+    // Customers
+    customers,
+    addCustomer: handleAddCustomer,
+    updateCustomerName: handleUpdateCustomerName,
+    topUpCustomer: handleTopUpCustomer,
+    deleteCustomer: handleDeleteCustomer,
+    getCustomerAvailableMinutes,
+
+    // Persistence
+    storageError,
+    getAppState,
+    replaceState,
+
+    // Undo/redo
+    canUndo: undoAvailability.canUndo,
+    canRedo: undoAvailability.canRedo,
+    undo: handleUndo,
+    redo: handleRedo,
+    getLatestUndoToken,
+
     // Utilities
     getAllCards,
   };
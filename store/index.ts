@@ -4,4 +4,4 @@
  */
 
 export { AppStoreProvider, useAppStore } from './app-store';
-
+export { SettingsProvider, useSettings } from './settings-store';
@@ -0,0 +1,76 @@
+/**
+ * Settings Store - Context Provider
+ * Holds the application preferences and the time zone resolved from them
+ * Kept apart from the app store: preferences are not part of undo, exports or imports
+ */
+
+'use client';
+
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import type { AppSettings } from '@/types';
+import { DEFAULT_SETTINGS, normalizeSettings, resolveTimezone } from '@/features/settings';
+import { loadSettings, saveSettings } from '@/lib/storage/settings-persistence';
+
+interface SettingsContextValue {
+  settings: AppSettings;
+  timezone: string; // IANA time zone in use: the configured one or this computer's
+  isLoaded: boolean;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+}
+
+const SettingsContext = createContext<SettingsContextValue | undefined>(undefined);
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  // Defaults first to keep server/client rendering consistent, saved values after mount
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Latest settings, readable from callbacks without re-creating them
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSettings().then((saved) => {
+      if (cancelled) return;
+      if (saved) {
+        setSettings(saved);
+      }
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<AppSettings>) => {
+    const next = normalizeSettings({ ...settingsRef.current, ...changes });
+    settingsRef.current = next;
+    setSettings(next);
+    saveSettings(next);
+  }, []);
+
+  const timezone = resolveTimezone(settings);
+
+  return (
+    <SettingsContext.Provider value={{ settings, timezone, isLoaded, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the application preferences
+ */
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within SettingsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,110 @@
+/**
+ * Undo History
+ * Snapshot stacks behind undo/redo of store mutations
+ * Snapshots share unchanged data with the live state, so they are cheap to keep
+ */
+
+import type { AppState } from '@/lib/storage/persistence.service';
+
+/**
+ * Maximum number of undo steps kept
+ */
+export const MAX_UNDO_STEPS = 50;
+
+/**
+ * Repeated mutations with the same key within this window form a single step
+ * (typing a name, scrolling time on a card)
+ */
+const COALESCE_WINDOW_MS = 1000;
+
+interface UndoEntry {
+  token: number;
+  snapshot: AppState;
+}
+
+export interface UndoHistory {
+  past: UndoEntry[];
+  future: UndoEntry[];
+  nextToken: number;
+  lastKey: string | null;
+  lastAt: number;
+}
+
+export function createUndoHistory(): UndoHistory {
+  return { past: [], future: [], nextToken: 1, lastKey: null, lastAt: 0 };
+}
+
+/**
+ * Records the state before a mutation
+ * Clears the redo stack, since it no longer follows from the current state
+ */
+export function pushCheckpoint(
+  history: UndoHistory,
+  snapshot: AppState,
+  coalesceKey?: string,
+  now = Date.now()
+): UndoHistory {
+  if (coalesceKey && coalesceKey === history.lastKey && now - history.lastAt < COALESCE_WINDOW_MS) {
+    return { ...history, future: [], lastAt: now };
+  }
+
+  const past = [...history.past, { token: history.nextToken, snapshot }];
+  return {
+    past: past.length > MAX_UNDO_STEPS ? past.slice(past.length - MAX_UNDO_STEPS) : past,
+    future: [],
+    nextToken: history.nextToken + 1,
+    lastKey: coalesceKey ?? null,
+    lastAt: now,
+  };
+}
+
+/**
+ * Returns the token of the latest undo step, or null if there is none
+ */
+export function getLatestToken(history: UndoHistory): number | null {
+  return history.past[history.past.length - 1]?.token ?? null;
+}
+
+/**
+ * Steps back: the current state moves to the redo stack
+ * Returns null if there is nothing to undo
+ */
+export function undoStep(
+  history: UndoHistory,
+  current: AppState
+): { history: UndoHistory; snapshot: AppState } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      ...history,
+      past: history.past.slice(0, -1),
+      future: [...history.future, { token: entry.token, snapshot: current }],
+      lastKey: null,
+    },
+    snapshot: entry.snapshot,
+  };
+}
+
+/**
+ * Steps forward: the current state moves back to the undo stack
+ * Returns null if there is nothing to redo
+ */
+export function redoStep(
+  history: UndoHistory,
+  current: AppState
+): { history: UndoHistory; snapshot: AppState } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      ...history,
+      past: [...history.past, { token: entry.token, snapshot: current }],
+      future: history.future.slice(0, -1),
+      lastKey: null,
+    },
+    snapshot: entry.snapshot,
+  };
+}
@@ -1,21 +1,187 @@
 export interface Section {
   id: number;
   name: string;
+  order: number; // Position on the page
+  tariff?: Tariff; // Pricing applied to every station in the section
+  alertSettings?: AlertSettings; // Overrides the global alert settings for this section
+}
+
+/**
+ * When a running timer changes color and raises alerts
+ * Thresholds are minutes of remaining time
+ */
+export interface AlertSettings {
+  warningMinutes: number;        // Progress bar turns yellow
+  orangeMinutes: number;         // Progress bar turns orange
+  criticalMinutes: number;       // Progress bar turns red
+  progressWindowMinutes: number; // The bar stays full until this much time is left
+  preExpiryMinutes: number[];    // Sound and toast when this much time is left (e.g. [10, 5])
+}
+
+export type TariffRoundingMode = 'up' | 'nearest' | 'down';
+
+/**
+ * Pricing rules for a session
+ * Amounts are expressed in the configured currency
+ */
+export interface Tariff {
+  hourlyRate: number;
+  minimumCharge: number;   // Minimum amount charged per session
+  roundingMinutes: number; // Billing increment in minutes (e.g. 15 = per started quarter hour)
+  roundingMode: TariffRoundingMode;
 }
 
 export interface TimerState {
   // Timestamp ISO completi per gestire correttamente date e ore
   startTime: string | null; // ISO timestamp (es. "2024-01-15T14:30:00+01:00")
-  endTime: string | null;   // ISO timestamp (es. "2024-01-15T15:30:00+01:00")
+  endTime: string | null;   // ISO timestamp (es. "2024-01-15T15:30:00+01:00"), null for open sessions
   initialDurationMinutes: number;
   isActive: boolean;
+  openEnded?: boolean; // Open session: counts up from startTime with no end, billed at checkout
+  pausedAt?: string | null; // ISO timestamp of when the timer was paused (null if running)
+  pausedSeconds?: number;   // Total seconds spent in pause during the current session
+  segmentStartTime?: string | null; // ISO timestamp of when the timer arrived on the current station (after a swap)
+  carriedMinutes?: number; // Minutes played on the previous stations of the session, billed at checkout
+  adjustments?: TimerAdjustment[]; // Minutes added or removed during the session
+  customerId?: number; // Customer whose prepaid balance pays for the session
+}
+
+export interface TimerAdjustment {
+  at: string;      // ISO timestamp of the adjustment
+  minutes: number; // Positive if added, negative if removed
+}
+
+export type SessionEndReason = 'expired' | 'reset' | 'swapped' | 'checkout';
+
+/**
+ * Record of a finished session on a station
+ * Stored in the session history ledger
+ */
+export interface SessionRecord {
+  id: number;
+  sectionId: number;
+  sectionName: string;
+  cardId: number;
+  cardName: string;
+  startTime: string;              // ISO timestamp
+  endTime: string;                // ISO timestamp of when the session actually ended
+  scheduledEndTime: string | null; // ISO timestamp of the planned end
+  bookedMinutes: number;
+  playedMinutes: number;
+  amount?: number | null; // Amount charged, null if no tariff was configured
+  adjustments: TimerAdjustment[];
+  endReason: SessionEndReason;
+  swappedWith?: { sectionName: string; cardName: string };
+  customerId?: number;
+  customerName?: string;
+}
+
+/**
+ * Customer account with a prepaid time balance
+ */
+export interface Customer {
+  id: number;
+  name: string;
+  balanceMinutes: number; // Prepaid minutes left (negative if the customer played beyond the balance)
 }
 
 export interface UserCard {
   id: number;
   name: string;
+  order: number; // Position within the section
   progressValue: number;
   timer?: TimerState;
+  tariffOverride?: Tariff; // Station-specific pricing, overrides the section tariff
+  groupId?: number; // Group of stations booked together by the same party
+}
+
+/**
+ * Stations booked together by a party
+ * Members are the cards carrying the group id; the group follows its timers when swapped
+ */
+export interface StationGroup {
+  id: number;
+  name: string;
+}
+
+/**
+ * Booking of a station for a future time slot
+ * Becomes a running timer when the customer checks in
+ */
+export interface Reservation {
+  id: number;
+  sectionId: number;
+  cardId: number;
+  name: string;        // Who booked the station
+  startTime: string;   // ISO timestamp
+  endTime: string;     // ISO timestamp
+  customerId?: number; // Customer whose prepaid balance will pay for the session
+}
+
+/**
+ * Party waiting for a free station
+ */
+export interface QueueEntry {
+  id: number;
+  name: string;
+  durationMinutes: number;
+  partySize: number;            // Number of stations the party needs
+  preferredSectionId?: number;
+  addedAt: string;              // ISO timestamp of when the party joined the queue
+}
+
+/**
+ * Reference to a station within its section
+ */
+export interface CardRef {
+  sectionId: number;
+  cardId: number;
+}
+
+/**
+ * Dialog of a station that can be opened from outside the card (e.g. the command palette)
+ */
+export type CardDialog = 'addTime' | 'quickEntry' | 'details';
+
+export interface CardDialogRequest {
+  ref: CardRef;
+  dialog: CardDialog;
+}
+
+/**
+ * Timer action applied to a group of stations at once
+ * swap: the timer of each station moves to the station at the same position in targets
+ */
+export type BatchAction =
+  | { type: 'start'; durationMinutes: number }
+  | { type: 'addTime'; minutes: number }
+  | { type: 'reset' }
+  | { type: 'swap'; targets: CardRef[] };
+
+/**
+ * Named way of starting or extending a session, offered by quick buttons, shortcuts and menus
+ * duration: a length relative to now (or to the current end when extending)
+ * clock: ends at a wall-clock time; with a start time it is a window (e.g. night pass 22:00-06:00)
+ * closing: ends at the closing time in the settings
+ */
+export type TimerPreset =
+  | { id: number; name: string; kind: 'duration'; minutes: number }
+  | { id: number; name: string; kind: 'clock'; startTime?: string; endTime: string } // HH:mm
+  | { id: number; name: string; kind: 'closing' };
+
+export type TimerPresetKind = TimerPreset['kind'];
+
+/**
+ * Application preferences, stored apart from the den state
+ * Not part of exports and not affected by undo
+ */
+export interface AppSettings {
+  locale: 'it' | 'en';
+  timezone: string;           // IANA time zone (e.g. "Europe/Rome"), empty to follow this computer
+  presets: TimerPreset[];     // In display order; the first nine get Ctrl+1 ... Ctrl+9
+  closingTime: string;        // HH:mm the den closes, used by "until closing" presets
+  removeDurations: number[];  // Minutes offered in the "Remove time" menu
+  syncServerUrl: string;      // LAN sync server (e.g. "ws://192.168.1.10:4000"), empty to work alone
 }
 
 export interface SectionItemProps {
@@ -24,7 +190,11 @@ export interface SectionItemProps {
   sectionName: string;
   totalSections: number;
   hasCards: boolean;
+  tariff?: Tariff;
+  alertSettings?: AlertSettings;
   onSectionNameChange?: (name: string) => void;
+  onSectionTariffChange?: (tariff: Tariff | undefined) => void;
+  onSectionAlertSettingsChange?: (settings: AlertSettings | undefined) => void;
   onAddSection?: () => void;
   onDeleteSection?: () => void;
 }
@@ -36,6 +206,8 @@ export interface UserCardProps {
   progressValue: number;
   editMode: boolean;
   timer?: TimerState;
+  tariffOverride?: Tariff;
+  groupId?: number;
 }
 
 export interface HeaderProps {